@@ -1,26 +1,69 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { Layout } from '@/components/Layout';
+import { LockScreen } from '@/components/LockScreen';
 import { Dashboard } from '@/pages/Dashboard';
 import { IncomeSources } from '@/pages/IncomeSources';
 import { MonthlyIncome } from '@/pages/MonthlyIncome';
+import { Expenses } from '@/pages/Expenses';
+import { Accounts } from '@/pages/Accounts';
+import { NetWorth } from '@/pages/NetWorth';
+import { Debts } from '@/pages/Debts';
+import { TaxReserve } from '@/pages/TaxReserve';
 import { Analytics } from '@/pages/Analytics';
 import { Goals } from '@/pages/Goals';
+import { Household } from '@/pages/Household';
+import { History } from '@/pages/History';
 import { Settings } from '@/pages/Settings';
 import { useAppStore } from '@/store/useAppStore';
 import { initializeDatabase } from '@/db/services';
+import { encryptionService } from '@/db/encryption';
+import { profileService } from '@/db/profiles';
 
 function App() {
   const loadData = useAppStore((state) => state.loadData);
+  const [isProfileChecked, setIsProfileChecked] = useState(false);
+  const vault = useLiveQuery(
+    () => (isProfileChecked ? encryptionService.getVault() : undefined),
+    [isProfileChecked]
+  );
+  const [isUnlocked, setIsUnlocked] = useState(false);
+
+  // База данных открывается только после проверки профиля, иначе по устаревшему выбору создалась бы пустая база
+  useEffect(() => {
+    profileService.ensureActive().then(setIsProfileChecked);
+  }, []);
+
+  // Незашифрованные данные открываются сразу, зашифрованные — после ввода пароля
+  useEffect(() => {
+    if (vault !== undefined && !isUnlocked && encryptionService.isUnlocked(vault)) {
+      setIsUnlocked(true);
+    }
+  }, [vault, isUnlocked]);
 
+  // Шифрование включили, выключили или сменили пароль в другой вкладке — данные открываются заново
   useEffect(() => {
+    if (vault !== undefined && isUnlocked && !encryptionService.isUnlocked(vault)) {
+      encryptionService.lock();
+    }
+  }, [vault, isUnlocked]);
+
+  useEffect(() => {
+    if (!isUnlocked) return;
+
     // Initialize database and load data
     const init = async () => {
       await initializeDatabase();
       await loadData();
     };
     init();
-  }, [loadData]);
+  }, [isUnlocked, loadData]);
+
+  if (vault === undefined) return null;
+  if (!isUnlocked) {
+    return vault ? <LockScreen onUnlock={() => setIsUnlocked(true)} /> : null;
+  }
 
   return (
     <BrowserRouter>
@@ -29,8 +72,15 @@ function App() {
           <Route index element={<Dashboard />} />
           <Route path="income" element={<IncomeSources />} />
           <Route path="monthly" element={<MonthlyIncome />} />
+          <Route path="expenses" element={<Expenses />} />
+          <Route path="accounts" element={<Accounts />} />
+          <Route path="net-worth" element={<NetWorth />} />
+          <Route path="debts" element={<Debts />} />
+          <Route path="tax-reserve" element={<TaxReserve />} />
           <Route path="analytics" element={<Analytics />} />
           <Route path="goals" element={<Goals />} />
+          <Route path="household" element={<Household />} />
+          <Route path="history" element={<History />} />
           <Route path="settings" element={<Settings />} />
         </Route>
       </Routes>
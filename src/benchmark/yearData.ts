@@ -0,0 +1,219 @@
+import { WisprFlowDatabase } from '@/db/database';
+import { loadYearData, getCachedYearData } from '@/db/yearData';
+import {
+  calculateYearlyIncomeFromData,
+  calculateYearlyTaxFromData,
+  calculateYearlyExpensesFromData,
+} from '@/utils/calculations';
+import { IncomeType } from '@/types/models';
+import type { MonthlyIncome, MonthlySavings, MonthlyExpense, TaxRates } from '@/types/models';
+
+/**
+ * Отдельная база, чтобы не трогать данные приложения
+ */
+const BENCHMARK_DB_NAME = 'WisprFlowBenchmarkDB';
+
+const YEARS = 5;
+const INCOMES_PER_MONTH = 8;
+const EXPENSES_PER_MONTH = 25;
+const RUNS = 20;
+
+const INCOME_TYPES = Object.values(IncomeType);
+const TAX_RATES: TaxRates = { [IncomeType.FREELANCE]: 0.2, [IncomeType.SIDE_HUSTLE]: 0.15 };
+
+/**
+ * Детерминированный генератор случайных чисел (mulberry32), чтобы данные были одинаковыми между запусками
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Заполнить базу доходами, накоплениями и расходами за несколько лет
+ */
+async function seed(database: WisprFlowDatabase, firstYear: number): Promise<number> {
+  const random = createRandom(42);
+  const now = new Date();
+  const incomes: MonthlyIncome[] = [];
+  const savings: MonthlySavings[] = [];
+  const expenses: MonthlyExpense[] = [];
+
+  for (let year = firstYear; year < firstYear + YEARS; year++) {
+    for (let month = 1; month <= 12; month++) {
+      for (let i = 0; i < INCOMES_PER_MONTH; i++) {
+        incomes.push({
+          id: crypto.randomUUID(),
+          year,
+          month,
+          incomeSourceId: null,
+          amount: Math.round(random() * 500000) / 100,
+          name: `Income ${i + 1}`,
+          type: INCOME_TYPES[Math.floor(random() * INCOME_TYPES.length)],
+          amountBasis: random() < 0.5 ? 'gross' : 'net',
+          isActive: random() > 0.1,
+          isRecurring: i < 3,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      for (let i = 0; i < EXPENSES_PER_MONTH; i++) {
+        expenses.push({
+          id: crypto.randomUUID(),
+          year,
+          month,
+          recurringExpenseId: null,
+          categoryId: `category-${i % 6}`,
+          amount: Math.round(random() * 50000) / 100,
+          name: `Expense ${i + 1}`,
+          isActive: random() > 0.05,
+          isRecurring: false,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      savings.push({
+        id: crypto.randomUUID(),
+        year,
+        month,
+        savedAmount: Math.round(random() * 200000) / 100,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  await database.transaction('rw', [database.monthlyIncomes, database.monthlySavings, database.monthlyExpenses], async () => {
+    await database.monthlyIncomes.bulkAdd(incomes);
+    await database.monthlySavings.bulkAdd(savings);
+    await database.monthlyExpenses.bulkAdd(expenses);
+  });
+
+  return incomes.length + savings.length + expenses.length;
+}
+
+/**
+ * Прежняя загрузка данных для расчётов: по запросу на каждый месяц
+ */
+async function loadForRecalculateLegacy(database: WisprFlowDatabase, year: number, currentMonth: number) {
+  await database.monthlyIncomes.where('[year+month]').equals([year, currentMonth]).toArray();
+  await database.monthlySavings.where('[year+month]').equals([year, currentMonth]).first();
+  const incomes = new Map<number, MonthlyIncome[]>();
+  for (let month = 1; month <= 12; month++) {
+    incomes.set(month, await database.monthlyIncomes.where('[year+month]').equals([year, month]).toArray());
+  }
+  await database.monthlySavings.where('year').equals(year).sortBy('month');
+  const yearExpenses = await database.monthlyExpenses.where('year').equals(year).sortBy('month');
+  const expenses = new Map<number, MonthlyExpense[]>();
+  for (let month = 1; month <= 12; month++) {
+    expenses.set(month, yearExpenses.filter((expense) => expense.month === month));
+  }
+  return { incomes, expenses };
+}
+
+/**
+ * Прежняя загрузка года на странице Monthly Income: 24 последовательных запроса
+ */
+async function loadMonthlyPageLegacy(database: WisprFlowDatabase, year: number): Promise<void> {
+  for (let month = 1; month <= 12; month++) {
+    await database.monthlyIncomes.where('[year+month]').equals([year, month]).toArray();
+    await database.monthlySavings.where('[year+month]').equals([year, month]).first();
+  }
+}
+
+/**
+ * Медиана времени выполнения, мс
+ */
+async function measure(run: () => unknown): Promise<number> {
+  const times: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    await run();
+    times.push(performance.now() - start);
+  }
+  times.sort((a, b) => a - b);
+  return times[Math.floor(times.length / 2)];
+}
+
+function calculateYearTotals(incomes: Map<number, MonthlyIncome[]>, expenses: Map<number, MonthlyExpense[]>): number {
+  return (
+    calculateYearlyIncomeFromData(incomes) -
+    calculateYearlyTaxFromData(incomes, TAX_RATES) -
+    calculateYearlyExpensesFromData(expenses)
+  );
+}
+
+/**
+ * Сравнить помесячную и пакетную загрузку года и полный и инкрементальный пересчёт
+ * Результаты выводятся построчно через log
+ */
+export async function runYearDataBenchmark(log: (line: string) => void): Promise<void> {
+  await WisprFlowDatabase.delete(BENCHMARK_DB_NAME);
+  const database = new WisprFlowDatabase(BENCHMARK_DB_NAME);
+
+  try {
+    const now = new Date();
+    const year = now.getFullYear();
+    const month = now.getMonth() + 1;
+    const firstYear = year - YEARS + 1;
+
+    const rows = await seed(database, firstYear);
+    log(`Seeded ${rows} rows across ${YEARS} years (${RUNS} runs each, median)`);
+    log('');
+
+    const row = (label: string, before: number, after: number) =>
+      log(
+        `${label.padEnd(40)} ${before.toFixed(2).padStart(8)} ms → ${after.toFixed(2).padStart(8)} ms` +
+          `  (${(before / Math.max(after, 0.001)).toFixed(1)}x)`
+      );
+
+    row(
+      'Recalculate: load current year',
+      await measure(() => loadForRecalculateLegacy(database, year, month)),
+      await measure(() => loadYearData(year, database))
+    );
+
+    row(
+      'Monthly Income: switch year',
+      await measure(async () => {
+        for (let y = firstYear; y <= year; y++) await loadMonthlyPageLegacy(database, y);
+      }),
+      await measure(async () => {
+        for (let y = firstYear; y <= year; y++) await loadYearData(y, database);
+      })
+    );
+
+    row(
+      'Monthly Income: revisit a loaded year',
+      await measure(() => loadMonthlyPageLegacy(database, firstYear)),
+      await measure(() => getCachedYearData(firstYear, database))
+    );
+
+    // Правка одного дохода: прежде пересчитывались все месяцы, теперь — только изменённый
+    const target = (await database.monthlyIncomes.where('[year+month]').equals([year, month]).first())!;
+    let fullTime = 0;
+    let incrementalTime = 0;
+    for (let i = 0; i < RUNS; i++) {
+      await database.monthlyIncomes.update(target.id, { amount: target.amount + i, updatedAt: new Date() });
+      const legacy = await loadForRecalculateLegacy(database, year, month);
+      const batched = await loadYearData(year, database);
+
+      let start = performance.now();
+      calculateYearTotals(legacy.incomes, legacy.expenses);
+      fullTime += performance.now() - start;
+
+      start = performance.now();
+      calculateYearTotals(batched.incomes, batched.expenses);
+      incrementalTime += performance.now() - start;
+    }
+    row('Recalculate year totals after one edit', fullTime / RUNS, incrementalTime / RUNS);
+  } finally {
+    database.close();
+    await WisprFlowDatabase.delete(BENCHMARK_DB_NAME);
+  }
+}
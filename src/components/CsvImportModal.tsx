@@ -0,0 +1,352 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { monthlyIncomeService, importRulesService } from '@/db/services';
+import { useAppStore } from '@/store/useAppStore';
+import type { CsvImportOptions, CsvDateFormat, ImportRule } from '@/types/models';
+import { IncomeType } from '@/types/models';
+import { parseCsv, detectDelimiter, prepareImportRows, suggestRulePattern } from '@/utils/csvImport';
+import { X } from 'lucide-react';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const DEFAULT_OPTIONS: CsvImportOptions = {
+  delimiter: ',',
+  hasHeader: true,
+  dateColumn: 0,
+  amountColumn: 1,
+  descriptionColumn: 2,
+  decimalSeparator: '.',
+  thousandsSeparator: '',
+  dateFormat: 'yyyy-MM-dd',
+};
+
+const typeLabels: Record<IncomeType, string> = {
+  [IncomeType.SALARY]: 'Salary',
+  [IncomeType.FREELANCE]: 'Freelance',
+  [IncomeType.SIDE_HUSTLE]: 'Side Hustle',
+  [IncomeType.INVESTMENT]: 'Investment',
+  [IncomeType.PASSIVE]: 'Passive',
+  [IncomeType.OTHER]: 'Other',
+};
+
+const statusLabels = {
+  new: { label: 'New', className: 'bg-green-100 text-green-700' },
+  duplicate: { label: 'Already imported', className: 'bg-gray-200 text-gray-600' },
+  expense: { label: 'Expense, skipped', className: 'bg-gray-100 text-gray-500' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-700' },
+};
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({ isOpen, onClose, onImported }) => {
+  const [fileText, setFileText] = useState('');
+  const [options, setOptions] = useState<CsvImportOptions>(DEFAULT_OPTIONS);
+  const [rules, setRules] = useState<ImportRule[]>([]);
+  const [existingFingerprints, setExistingFingerprints] = useState<Set<string>>(new Set());
+  const [typeOverrides, setTypeOverrides] = useState<Map<number, IncomeType>>(new Map());
+  const [rememberRules, setRememberRules] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const { importMonthlyIncomes, saveImportRules, deleteImportRule } = useAppStore();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFileText('');
+    setOptions(DEFAULT_OPTIONS);
+    setTypeOverrides(new Map());
+    setImportError(null);
+    loadRules();
+    monthlyIncomeService.getImportFingerprints().then(setExistingFingerprints);
+  }, [isOpen]);
+
+  const loadRules = async () => {
+    setRules(await importRulesService.getAll());
+  };
+
+  const rows = useMemo(
+    () => (fileText ? parseCsv(fileText, options.delimiter) : []),
+    [fileText, options.delimiter]
+  );
+
+  const preview = useMemo(
+    () =>
+      prepareImportRows(rows, options, rules, existingFingerprints).map((row) => ({
+        ...row,
+        type: typeOverrides.get(row.line) ?? row.type,
+      })),
+    [rows, options, rules, existingFingerprints, typeOverrides]
+  );
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => ({
+    value: i.toString(),
+    label: options.hasHeader && rows[0]?.[i] ? rows[0][i] : `Column ${i + 1}`,
+  }));
+
+  const newRows = preview.filter((row) => row.status === 'new');
+
+  const updateOption = <K extends keyof CsvImportOptions>(key: K, value: CsvImportOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+    setTypeOverrides(new Map());
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setFileText(text);
+    setTypeOverrides(new Map());
+    setOptions((prev) => ({ ...prev, delimiter: detectDelimiter(text) }));
+  };
+
+  const handleTypeChange = (line: number, type: IncomeType) => {
+    setTypeOverrides((prev) => new Map(prev).set(line, type));
+  };
+
+  // Ошибка действия (например, в режиме просмотра прошлого) показывается в окне, и оно остаётся открытым
+  const takeStoreError = (): boolean => {
+    const { error } = useAppStore.getState();
+    if (!error) return false;
+    setImportError(error);
+    useAppStore.setState({ error: null });
+    return true;
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    setImportError(null);
+    await deleteImportRule(id);
+    takeStoreError();
+    await loadRules();
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      // Запоминаем ручные исправления типа как правила для следующих импортов
+      if (rememberRules) {
+        await saveImportRules(
+          preview
+            .filter((row) => row.status === 'new' && typeOverrides.has(row.line))
+            .map((row) => ({ pattern: suggestRulePattern(row.description), type: row.type }))
+        );
+      }
+
+      if (takeStoreError()) return;
+
+      const count = await importMonthlyIncomes(preview);
+      if (takeStoreError()) return;
+      onImported(count);
+      onClose();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Bank Statement (CSV)" size="xl">
+      <div className="space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">CSV File</label>
+          <input
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            className="block w-full text-sm text-gray-600"
+          />
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            {/* Column Mapping */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select
+                label="Date Column"
+                value={options.dateColumn.toString()}
+                onChange={(value) => updateOption('dateColumn', parseInt(value))}
+                options={columnOptions}
+              />
+              <Select
+                label="Amount Column"
+                value={options.amountColumn.toString()}
+                onChange={(value) => updateOption('amountColumn', parseInt(value))}
+                options={columnOptions}
+              />
+              <Select
+                label="Description Column"
+                value={options.descriptionColumn.toString()}
+                onChange={(value) => updateOption('descriptionColumn', parseInt(value))}
+                options={columnOptions}
+              />
+              <Select
+                label="Delimiter"
+                value={options.delimiter}
+                onChange={(value) => updateOption('delimiter', value)}
+                options={[
+                  { value: ',', label: 'Comma (,)' },
+                  { value: ';', label: 'Semicolon (;)' },
+                  { value: '\t', label: 'Tab' },
+                  { value: '|', label: 'Pipe (|)' },
+                ]}
+              />
+              <Select
+                label="Decimal Separator"
+                value={options.decimalSeparator}
+                onChange={(value) => updateOption('decimalSeparator', value as CsvImportOptions['decimalSeparator'])}
+                options={[
+                  { value: '.', label: 'Dot (1234.56)' },
+                  { value: ',', label: 'Comma (1234,56)' },
+                ]}
+              />
+              <Select
+                label="Thousands Separator"
+                value={options.thousandsSeparator}
+                onChange={(value) => updateOption('thousandsSeparator', value as CsvImportOptions['thousandsSeparator'])}
+                options={[
+                  { value: '', label: 'None' },
+                  { value: ',', label: 'Comma (1,234)' },
+                  { value: '.', label: 'Dot (1.234)' },
+                  { value: ' ', label: 'Space (1 234)' },
+                ]}
+              />
+              <Select
+                label="Date Format"
+                value={options.dateFormat}
+                onChange={(value) => updateOption('dateFormat', value as CsvDateFormat)}
+                options={[
+                  { value: 'yyyy-MM-dd', label: 'YYYY-MM-DD' },
+                  { value: 'dd.MM.yyyy', label: 'DD.MM.YYYY' },
+                  { value: 'dd/MM/yyyy', label: 'DD/MM/YYYY' },
+                  { value: 'MM/dd/yyyy', label: 'MM/DD/YYYY' },
+                ]}
+              />
+              <div className="flex items-end gap-2 pb-3">
+                <input
+                  type="checkbox"
+                  id="hasHeader"
+                  checked={options.hasHeader}
+                  onChange={(e) => updateOption('hasHeader', e.target.checked)}
+                  className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="hasHeader" className="text-sm font-medium text-gray-700">
+                  First row is a header
+                </label>
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="overflow-x-auto border rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3">Date</th>
+                    <th className="text-right py-2 px-3">Amount</th>
+                    <th className="text-left py-2 px-3">Description</th>
+                    <th className="text-left py-2 px-3">Type</th>
+                    <th className="text-left py-2 px-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row) => (
+                    <tr
+                      key={row.line}
+                      className={`border-b ${row.status === 'new' ? '' : 'opacity-60'}`}
+                    >
+                      <td className="py-2 px-3 whitespace-nowrap">
+                        {row.date ? row.date.toLocaleDateString() : '—'}
+                      </td>
+                      <td className="text-right py-2 px-3">{row.amount.toFixed(2)}</td>
+                      <td className="py-2 px-3 max-w-xs truncate">{row.description}</td>
+                      <td className="py-2 px-3">
+                        {row.status === 'new' ? (
+                          <select
+                            value={row.type}
+                            onChange={(e) => handleTypeChange(row.line, e.target.value as IncomeType)}
+                            className="px-2 py-1 rounded-lg border border-gray-300 text-sm"
+                          >
+                            {Object.values(IncomeType).map((t) => (
+                              <option key={t} value={t}>
+                                {typeLabels[t]}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          typeLabels[row.type]
+                        )}
+                      </td>
+                      <td className="py-2 px-3">
+                        <span
+                          className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${statusLabels[row.status].className}`}
+                          title={row.error}
+                        >
+                          {statusLabels[row.status].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="rememberRules"
+                checked={rememberRules}
+                onChange={(e) => setRememberRules(e.target.checked)}
+                className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+              />
+              <label htmlFor="rememberRules" className="text-sm text-gray-700">
+                Remember my type corrections for future imports
+              </label>
+            </div>
+          </>
+        )}
+
+        {/* Saved Rules */}
+        {rules.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Saved Rules</p>
+            <div className="flex flex-wrap gap-2">
+              {rules.map((rule) => (
+                <span
+                  key={rule.id}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-primary-50 text-primary-700 rounded-full"
+                >
+                  "{rule.pattern}" → {typeLabels[rule.type]}
+                  <button
+                    onClick={() => handleDeleteRule(rule.id)}
+                    className="p-0.5 rounded hover:bg-primary-100"
+                    title="Delete rule"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {importError && <div className="text-sm p-3 rounded-lg bg-red-50 text-red-800">{importError}</div>}
+
+        <div className="flex gap-3 pt-4">
+          <Button type="button" onClick={onClose} variant="secondary" className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            variant="primary"
+            className="flex-1"
+            disabled={newRows.length === 0 || isImporting}
+          >
+            Import {newRows.length} {newRows.length === 1 ? 'Row' : 'Rows'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
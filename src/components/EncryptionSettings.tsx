@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { encryptionService, DEFAULT_AUTO_LOCK_MINUTES, MIN_PASSPHRASE_LENGTH } from '@/db/encryption';
+import { Lock, Unlock, ShieldCheck, KeyRound } from 'lucide-react';
+
+const autoLockOptions = [
+  { value: '0', label: 'Never' },
+  { value: '1', label: 'After 1 minute' },
+  { value: '5', label: 'After 5 minutes' },
+  { value: '15', label: 'After 15 minutes' },
+  { value: '30', label: 'After 30 minutes' },
+  { value: '60', label: 'After 1 hour' },
+];
+
+/**
+ * Шифрование данных профиля паролем: включение, смена пароля, автоблокировка и выключение
+ */
+export const EncryptionSettings: React.FC = () => {
+  const vault = useLiveQuery(() => encryptionService.getVault(), []);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES.toString());
+  const [disablePassphrase, setDisablePassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const passphraseError =
+    passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `At least ${MIN_PASSPHRASE_LENGTH} characters`
+      : undefined;
+  const confirmationError = confirmation && confirmation !== passphrase ? 'Passphrases do not match' : undefined;
+  const isNewPassphraseValid = passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmation === passphrase;
+
+  // Перешифровка всех данных может занять время; ошибки показываются в карточке
+  const run = async (operation: () => Promise<void>, success: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await operation();
+      setPassphrase('');
+      setConfirmation('');
+      setCurrentPassphrase('');
+      setDisablePassphrase('');
+      setMessage({ type: 'success', text: success });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update encryption' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(
+      () => encryptionService.enable(passphrase, parseInt(autoLockMinutes)),
+      'Encryption is on. You will need the passphrase every time the app opens.'
+    );
+  };
+
+  const handleChangePassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => encryptionService.changePassphrase(currentPassphrase, passphrase), 'Passphrase changed');
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Turn off encryption? Your data will be stored in this browser unencrypted.')) return;
+    run(() => encryptionService.disable(disablePassphrase), 'Encryption is off');
+  };
+
+  if (vault === undefined) return null;
+
+  return (
+    <Card title="Encryption">
+      <div className="space-y-4">
+        {vault ? (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <ShieldCheck className="w-5 h-5" />
+            Amounts, names and notes are encrypted with your passphrase.
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Encrypt amounts, names and notes stored in this browser with a passphrase. The app will ask for it
+            every time it opens. If you forget the passphrase, the data cannot be recovered.
+          </p>
+        )}
+
+        {message && (
+          <div
+            className={`text-sm p-3 rounded-lg ${
+              message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {vault ? (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <Select
+                label="Lock After Inactivity"
+                value={vault.autoLockMinutes.toString()}
+                onChange={(value) => encryptionService.setAutoLock(parseInt(value))}
+                options={autoLockOptions}
+                className="flex-1"
+              />
+              <Button onClick={() => encryptionService.lock()} variant="outline">
+                <Lock className="w-4 h-4 mr-2 inline" />
+                Lock Now
+              </Button>
+            </div>
+
+            <form onSubmit={handleChangePassphrase} className="border-t pt-4 space-y-4">
+              <h4 className="font-medium text-gray-900">Change Passphrase</h4>
+              <Input
+                label="Current Passphrase"
+                type="password"
+                value={currentPassphrase}
+                onChange={setCurrentPassphrase}
+                required
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="New Passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={setPassphrase}
+                  error={passphraseError}
+                  required
+                />
+                <Input
+                  label="Confirm New Passphrase"
+                  type="password"
+                  value={confirmation}
+                  onChange={setConfirmation}
+                  error={confirmationError}
+                  required
+                />
+              </div>
+              <Button type="submit" variant="outline" disabled={isBusy || !currentPassphrase || !isNewPassphraseValid}>
+                <KeyRound className="w-4 h-4 mr-2 inline" />
+                {isBusy ? 'Re-encrypting...' : 'Change Passphrase'}
+              </Button>
+            </form>
+
+            <form onSubmit={handleDisable} className="border-t pt-4 space-y-4">
+              <h4 className="font-medium text-gray-900">Turn Off Encryption</h4>
+              <Input
+                label="Passphrase"
+                type="password"
+                value={disablePassphrase}
+                onChange={setDisablePassphrase}
+                required
+              />
+              <Button type="submit" variant="danger" disabled={isBusy || !disablePassphrase}>
+                <Unlock className="w-4 h-4 mr-2 inline" />
+                Turn Off Encryption
+              </Button>
+            </form>
+          </>
+        ) : (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Passphrase"
+                type="password"
+                value={passphrase}
+                onChange={setPassphrase}
+                error={passphraseError}
+                required
+              />
+              <Input
+                label="Confirm Passphrase"
+                type="password"
+                value={confirmation}
+                onChange={setConfirmation}
+                error={confirmationError}
+                required
+              />
+            </div>
+            <Select
+              label="Lock After Inactivity"
+              value={autoLockMinutes}
+              onChange={setAutoLockMinutes}
+              options={autoLockOptions}
+            />
+            <Button type="submit" disabled={isBusy || !isNewPassphraseValid}>
+              <Lock className="w-4 h-4 mr-2 inline" />
+              {isBusy ? 'Encrypting...' : 'Turn On Encryption'}
+            </Button>
+          </form>
+        )}
+      </div>
+    </Card>
+  );
+};
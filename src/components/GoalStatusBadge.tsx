@@ -0,0 +1,17 @@
+import React from 'react';
+import type { GoalFeasibilityStatus } from '@/types/models';
+
+const statusStyles: Record<GoalFeasibilityStatus, { label: string; className: string }> = {
+  on_track: { label: 'On track', className: 'bg-green-100 text-green-700' },
+  at_risk: { label: 'At risk', className: 'bg-yellow-100 text-yellow-700' },
+  off_track: { label: 'Off track', className: 'bg-red-100 text-red-700' },
+};
+
+/**
+ * Метка статуса достижимости цели к дедлайну
+ */
+export const GoalStatusBadge: React.FC<{ status: GoalFeasibilityStatus }> = ({ status }) => (
+  <span className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${statusStyles[status].className}`}>
+    {statusStyles[status].label}
+  </span>
+);
@@ -1,16 +1,80 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { NavLink, Outlet } from 'react-router-dom';
-import { LayoutDashboard, Wallet, Calendar, BarChart3, Target, Settings as SettingsIcon, Menu, X } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useAppStore } from '@/store/useAppStore';
+import { encryptionService } from '@/db/encryption';
+import { UndoToast } from '@/components/UndoToast';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { LayoutDashboard, Wallet, Calendar, Receipt, Landmark, Scale, CreditCard, Percent, BarChart3, Target, Home, History as HistoryIcon, Settings as SettingsIcon, Clock, Menu, X } from 'lucide-react';
+
+/**
+ * События, которые считаются активностью пользователя для автоблокировки
+ */
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+
+/**
+ * Как часто проверять бездействие, мс (таймер с точным сроком засыпает вместе с компьютером)
+ */
+const AUTO_LOCK_CHECK_INTERVAL = 15000;
 
 export const Layout: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const { undo, redo, asOf, setAsOf } = useAppStore();
+  const vault = useLiveQuery(() => encryptionService.getVault(), []);
+  const autoLockMinutes = vault?.autoLockMinutes ?? 0;
+
+  // Зашифрованные данные блокируются после заданного времени бездействия
+  useEffect(() => {
+    if (!autoLockMinutes) return;
+
+    let lastActivity = Date.now();
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60 * 1000) {
+        encryptionService.lock();
+      }
+    }, AUTO_LOCK_CHECK_INTERVAL);
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [autoLockMinutes]);
+
+  // Ctrl+Z / Ctrl+Shift+Z отменяют и повторяют действия; в полях ввода остаётся обычная отмена текста
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const navItems = [
     { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
     { path: '/income', icon: Wallet, label: 'Income Sources' },
     { path: '/monthly', icon: Calendar, label: 'Monthly Income' },
+    { path: '/expenses', icon: Receipt, label: 'Expenses' },
+    { path: '/accounts', icon: Landmark, label: 'Accounts' },
+    { path: '/net-worth', icon: Scale, label: 'Net Worth' },
+    { path: '/debts', icon: CreditCard, label: 'Debts' },
+    { path: '/tax-reserve', icon: Percent, label: 'Tax Reserve' },
     { path: '/analytics', icon: BarChart3, label: 'Analytics' },
     { path: '/goals', icon: Target, label: 'Goals' },
+    { path: '/household', icon: Home, label: 'Household' },
+    { path: '/history', icon: HistoryIcon, label: 'History' },
     { path: '/settings', icon: SettingsIcon, label: 'Settings' },
   ];
 
@@ -45,7 +109,7 @@ export const Layout: React.FC = () => {
 
       {/* Sidebar */}
       <aside
-        className={`fixed left-0 top-0 h-screen w-64 bg-white border-r border-gray-200 p-6 z-50 transition-transform duration-300 ${
+        className={`fixed left-0 top-0 h-screen w-64 bg-white border-r border-gray-200 p-6 z-50 overflow-y-auto transition-transform duration-300 ${
           isSidebarOpen ? 'translate-x-0' : '-translate-x-full lg:translate-x-0'
         }`}
       >
@@ -60,6 +124,9 @@ export const Layout: React.FC = () => {
         {/* Mobile spacing for header */}
         <div className="h-4 lg:hidden" />
 
+        {/* Profile */}
+        <ProfileSwitcher />
+
         {/* Navigation */}
         <nav className="space-y-2">
           {navItems.map((item) => (
@@ -86,9 +153,24 @@ export const Layout: React.FC = () => {
       {/* Main Content */}
       <main className="lg:ml-64 pt-20 lg:pt-8 p-4 lg:p-8">
         <div className="max-w-6xl mx-auto">
+          {/* Dashboard и Analytics показывают прошлую дату; остальные страницы — текущие данные */}
+          {asOf && (
+            <div className="flex flex-wrap items-center gap-3 mb-6 px-4 py-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-800">
+              <Clock className="w-5 h-5" />
+              <span className="text-sm">
+                Dashboard and Analytics show your figures as of{' '}
+                <span className="font-medium">{asOf.toLocaleDateString()}</span>. Other pages show current data.
+              </span>
+              <button onClick={() => setAsOf(null)} className="ml-auto text-sm font-medium hover:text-amber-900">
+                Back to Today
+              </button>
+            </div>
+          )}
           <Outlet />
         </div>
       </main>
+
+      <UndoToast />
     </div>
   );
 };
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { encryptionService } from '@/db/encryption';
+import { Lock } from 'lucide-react';
+
+interface LockScreenProps {
+  onUnlock: () => void;
+}
+
+/**
+ * Экран ввода пароля для зашифрованного профиля
+ * Из него же можно перейти в другой профиль, не разблокируя этот
+ */
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await encryptionService.unlock(passphrase);
+      onUnlock();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-primary-600 to-purple-600 bg-clip-text text-transparent">
+            Wispr Flow
+          </h1>
+          <p className="text-sm text-gray-600">Financial Planning</p>
+        </div>
+
+        <Card>
+          <div className="flex items-center gap-3 mb-4">
+            <div className="p-2 rounded-xl bg-primary-50">
+              <Lock className="w-5 h-5 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="font-semibold text-gray-900">Your data is locked</h2>
+              <p className="text-sm text-gray-600">Enter the passphrase to open it</p>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              label="Passphrase"
+              type="password"
+              value={passphrase}
+              onChange={setPassphrase}
+              error={error ?? undefined}
+              required
+            />
+            <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </form>
+        </Card>
+
+        <div className="mt-6">
+          <ProfileSwitcher />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useFigures } from '@/store/useAppStore';
+import { monthlyIncomeService } from '@/db/services';
+import type { MonteCarloResult } from '@/types/models';
+import { calculateIncomeStreams } from '@/utils/monteCarlo';
+import { simulateInWorker } from '@/workers/simulate';
+import { formatCurrency, getProjectionOptions, calculateGoalTargetAmount, sumBalances } from '@/utils/calculations';
+import { calculateSavingsBalances } from '@/utils/accounts';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+const SIMULATION_YEARS = 10;
+
+export const MonteCarloSimulation: React.FC = () => {
+  const { settings, calculations, accounts, accountSnapshots, accountTransfers, goals, currentMonthIncomes } =
+    useFigures();
+
+  const [savingsPercentage, setSavingsPercentage] = useState(
+    settings ? settings.savingsPercentage.toString() : '20'
+  );
+  const [volatility, setVolatility] = useState('15');
+  const [runs, setRuns] = useState('1000');
+  const [seed, setSeed] = useState('42');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+
+  if (!settings) return null;
+
+  const format = (value: number) => formatCurrency(value, settings.currency, settings.locale);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const now = new Date();
+      const history = await monthlyIncomeService.getAll();
+      const incomeStreams = calculateIncomeStreams(
+        history,
+        currentMonthIncomes,
+        now.getFullYear(),
+        now.getMonth() + 1,
+        calculations?.taxRates,
+        settings.taxReserveRates
+      );
+      const options = getProjectionOptions(settings);
+
+      const goalInputs = goals
+        .filter((goal) => goal.deadline)
+        .map((goal) => {
+          const deadline = new Date(goal.deadline!);
+          return {
+            id: goal.id,
+            name: goal.name,
+            currentAmount: goal.currentAmount,
+            targetAmount: calculateGoalTargetAmount(goal, options.inflationRate, now),
+            deadlineMonth:
+              (deadline.getFullYear() - now.getFullYear()) * 12 + (deadline.getMonth() - now.getMonth()),
+          };
+        });
+
+      // Горизонт растягивается до самого дальнего дедлайна
+      const months = Math.max(
+        SIMULATION_YEARS * 12,
+        ...goalInputs.map((goal) => goal.deadlineMonth)
+      );
+
+      setResult(
+        await simulateInWorker({
+          seed: parseInt(seed) || 0,
+          runs: Math.min(Math.max(parseInt(runs) || 1000, 100), 10000),
+          months,
+          startingBalance: sumBalances(
+            calculateSavingsBalances(accounts, accountSnapshots, accountTransfers, settings)
+          ),
+          savingsPercentage: parseFloat(savingsPercentage) || 0,
+          incomeStreams,
+          annualReturnRate: options.annualReturnRate,
+          annualVolatility: parseFloat(volatility) || 0,
+          inflationRate: options.inflationRate,
+          realTerms: options.realTerms,
+          goals: goalInputs,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Simulation failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Годовые точки для графика
+  const chartData = (result?.percentiles || [])
+    .filter((point) => point.month % 12 === 0)
+    .map((point) => ({
+      name: `Year ${point.month / 12}`,
+      band: [point.p10, point.p90],
+      p50: point.p50,
+    }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Input
+          label="Savings %"
+          type="number"
+          value={savingsPercentage}
+          onChange={setSavingsPercentage}
+          step="1"
+          min="0"
+          max="100"
+        />
+        <Input
+          label="Return Volatility (%/yr)"
+          type="number"
+          value={volatility}
+          onChange={setVolatility}
+          step="1"
+          min="0"
+        />
+        <Input label="Runs" type="number" value={runs} onChange={setRuns} step="100" min="100" max="10000" />
+        <Input label="Seed" type="number" value={seed} onChange={setSeed} step="1" />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Returns are randomized around {settings.expectedReturnRate}% per year. Freelance and side hustle
+        income vary with the spread of your own monthly history. The same seed always gives the same result.
+      </p>
+
+      <Button onClick={handleRun} variant="primary" disabled={isRunning}>
+        {isRunning ? 'Simulating…' : 'Run Simulation'}
+      </Button>
+
+      {error && <div className="text-sm p-3 rounded-lg bg-red-50 text-red-800">{error}</div>}
+
+      {result && (
+        <>
+          <ResponsiveContainer width="100%" height={350}>
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <Tooltip
+                formatter={(value: number | number[]) =>
+                  Array.isArray(value)
+                    ? `${format(value[0])} – ${format(value[1])}`
+                    : format(value)
+                }
+              />
+              <Legend />
+              <Area
+                type="monotone"
+                dataKey="band"
+                stroke="none"
+                fill="#c4b5fd"
+                fillOpacity={0.6}
+                name="10th–90th percentile"
+              />
+              <Line type="monotone" dataKey="p50" stroke="#8b5cf6" strokeWidth={2} name="Median" dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          {result.goalChances.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Chance of reaching goals by their deadline</p>
+              {result.goalChances.map((goal) => (
+                <div key={goal.id}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-600">{goal.name}</span>
+                    <span className="font-semibold">{(goal.probability * 100).toFixed(0)}%</span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${
+                        goal.probability >= 0.8
+                          ? 'bg-green-500'
+                          : goal.probability >= 0.5
+                          ? 'bg-yellow-500'
+                          : 'bg-red-500'
+                      }`}
+                      style={{ width: `${goal.probability * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
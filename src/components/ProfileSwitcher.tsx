@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { db } from '@/db/database';
+import { profileService } from '@/db/profiles';
+import type { Profile } from '@/types/models';
+import { Check, Copy, Edit2, Plus, Trash2, Users } from 'lucide-react';
+
+/**
+ * Переключатель профилей в боковой панели и окно управления профилями
+ */
+export const ProfileSwitcher: React.FC = () => {
+  const profiles = useLiveQuery(() => profileService.getAll(), []);
+  const [isManageOpen, setIsManageOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const active = profiles?.find((profile) => profile.databaseName === db.name);
+
+  // Ошибки операций показываются в окне управления
+  const run = async (operation: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update profiles');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    await run(async () => {
+      await profileService.create(name);
+      setNewName('');
+    });
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = editingName.trim();
+    if (!editingId || !name) return;
+    await run(async () => {
+      await profileService.rename(editingId, name);
+      setEditingId(null);
+    });
+  };
+
+  const handleDuplicate = (profile: Profile) => run(() => profileService.duplicate(profile.id, `${profile.name} (copy)`));
+
+  // Профиль удаляется вместе с данными, и отменить это нельзя
+  const handleDelete = (profile: Profile) => {
+    if (!confirm(`Delete the profile "${profile.name}" and all of its data? This cannot be undone.`)) return;
+    run(() => profileService.delete(profile.id));
+  };
+
+  const startEditing = (profile: Profile) => {
+    setEditingId(profile.id);
+    setEditingName(profile.name);
+  };
+
+  if (!profiles) return null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2">
+        <select
+          value={active?.id ?? ''}
+          onChange={(e) => run(() => profileService.switchTo(e.target.value))}
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-gray-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          aria-label="Profile"
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsManageOpen(true)}
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+          title="Manage profiles"
+          aria-label="Manage profiles"
+        >
+          <Users className="w-5 h-5" />
+        </button>
+      </div>
+
+      <Modal isOpen={isManageOpen} onClose={() => setIsManageOpen(false)} title="Profiles">
+        <p className="text-sm text-gray-600 mb-4">
+          Each profile keeps its own income sources, monthly data, savings, goals and settings.
+        </p>
+
+        {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">{error}</div>}
+
+        <div className="space-y-2 mb-6">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center gap-2 p-3 rounded-xl border border-gray-100 bg-gray-50">
+              {editingId === profile.id ? (
+                <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                  <Input value={editingName} onChange={setEditingName} required />
+                  <Button type="submit" size="sm">
+                    Save
+                  </Button>
+                  <Button type="button" onClick={() => setEditingId(null)} variant="secondary" size="sm">
+                    Cancel
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <span className="flex-1 font-medium text-gray-900">{profile.name}</span>
+                  {profile.id === active?.id ? (
+                    <span className="flex items-center gap-1 text-xs font-medium text-primary-700">
+                      <Check className="w-4 h-4" />
+                      Active
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => run(() => profileService.switchTo(profile.id))}
+                      className="text-sm text-primary-600 hover:text-primary-700"
+                    >
+                      Open
+                    </button>
+                  )}
+                  <button
+                    onClick={() => startEditing(profile)}
+                    className="p-2 text-gray-600 hover:bg-gray-200 rounded-lg transition-colors"
+                    title="Rename"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(profile)}
+                    className="p-2 text-gray-600 hover:bg-gray-200 rounded-lg transition-colors"
+                    title="Duplicate"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(profile)}
+                    disabled={profiles.length === 1}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={profiles.length === 1 ? 'The last profile cannot be deleted' : 'Delete'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex items-end gap-2">
+          <Input label="New Profile" value={newName} onChange={setNewName} placeholder="e.g., Partner, Business" />
+          <Button type="submit" disabled={!newName.trim()}>
+            <Plus className="w-4 h-4 mr-2 inline" />
+            Create
+          </Button>
+        </form>
+      </Modal>
+    </div>
+  );
+};
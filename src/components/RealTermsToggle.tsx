@@ -0,0 +1,36 @@
+import React from 'react';
+import { useAppStore, useFigures } from '@/store/useAppStore';
+
+/**
+ * Переключатель "номинальные / в сегодняшних деньгах" для прогнозов
+ * На прошлую дату показывает сохранённую тогда настройку и не меняется
+ */
+export const RealTermsToggle: React.FC = () => {
+  const { settings } = useFigures();
+  const { updateSettings, asOf } = useAppStore();
+  if (!settings) return null;
+
+  const options = [
+    { value: false, label: 'Nominal' },
+    { value: true, label: "Today's money" },
+  ];
+
+  return (
+    <div className="inline-flex items-center gap-1 p-1 bg-gray-100 rounded-xl" title={`Inflation: ${settings.inflationRate}% per year`}>
+      {options.map((option) => (
+        <button
+          key={option.label}
+          onClick={() => updateSettings({ realTerms: option.value })}
+          disabled={asOf !== null}
+          className={`px-3 py-1.5 text-sm rounded-lg transition-all disabled:cursor-not-allowed ${
+            settings.realTerms === option.value
+              ? 'bg-white text-primary-700 font-medium shadow-sm'
+              : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
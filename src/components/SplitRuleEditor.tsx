@@ -0,0 +1,87 @@
+import React from 'react';
+import { Select } from '@/components/ui/Select';
+import type { HouseholdMember, SplitMethod, SplitRule } from '@/types/models';
+
+export const splitMethodLabels: Record<SplitMethod, string> = {
+  equal: 'Split evenly',
+  proportional: 'In proportion to income',
+  custom: 'Custom shares',
+};
+
+interface SplitRuleEditorProps {
+  members: HouseholdMember[];
+  value: SplitRule | undefined;
+  onChange: (rule: SplitRule | undefined) => void;
+  label?: string;
+  allowNone?: boolean; // Можно выбрать "не делится" (для целей)
+}
+
+/**
+ * Выбор правила деления взносов между членами семьи
+ */
+export const SplitRuleEditor: React.FC<SplitRuleEditorProps> = ({
+  members,
+  value,
+  onChange,
+  label = 'Split',
+  allowNone = false,
+}) => {
+  const handleMethodChange = (method: string) => {
+    if (!method) {
+      onChange(undefined);
+      return;
+    }
+    // Своё деление начинается с равных долей
+    const shares =
+      method === 'custom'
+        ? value?.shares ?? Object.fromEntries(members.map((member) => [member.id, Math.round(100 / members.length)]))
+        : undefined;
+    onChange({ method: method as SplitMethod, ...(shares && { shares }) });
+  };
+
+  const handleShareChange = (memberId: string, share: string) => {
+    onChange({ method: 'custom', shares: { ...value?.shares, [memberId]: parseFloat(share) || 0 } });
+  };
+
+  const totalShares = members.reduce((sum, member) => sum + (value?.shares?.[member.id] ?? 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <Select
+        label={label}
+        value={value?.method ?? ''}
+        onChange={handleMethodChange}
+        options={[
+          ...(allowNone ? [{ value: '', label: 'Not shared' }] : []),
+          ...(Object.keys(splitMethodLabels) as SplitMethod[]).map((method) => ({
+            value: method,
+            label: splitMethodLabels[method],
+          })),
+        ]}
+      />
+
+      {value?.method === 'custom' && (
+        <div className="space-y-2">
+          {members.map((member) => (
+            <div key={member.id} className="flex items-center gap-3">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: member.color }} />
+              <span className="flex-1 text-sm text-gray-700">{member.name}</span>
+              <input
+                type="number"
+                value={value.shares?.[member.id] ?? 0}
+                onChange={(e) => handleShareChange(member.id, e.target.value)}
+                step="1"
+                min="0"
+                className="w-24 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <span className="text-sm text-gray-500">%</span>
+            </div>
+          ))}
+          {totalShares !== 100 && (
+            <p className="text-xs text-gray-500">Shares add up to {totalShares}% and are scaled to 100%.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useAppStore } from '@/store/useAppStore';
+import { IncomeType } from '@/types/models';
+import type { TaxProfile } from '@/types/models';
+import { Plus, Trash2, Edit2, Copy, X } from 'lucide-react';
+import { formatCurrency } from '@/utils/calculations';
+
+const typeLabels: Record<IncomeType, string> = {
+  [IncomeType.SALARY]: 'Salary',
+  [IncomeType.FREELANCE]: 'Freelance',
+  [IncomeType.SIDE_HUSTLE]: 'Side Hustle',
+  [IncomeType.INVESTMENT]: 'Investment',
+  [IncomeType.PASSIVE]: 'Passive',
+  [IncomeType.OTHER]: 'Other',
+};
+
+interface BracketFormState {
+  upTo: string;
+  rate: string;
+}
+
+const emptyFlatRates = (): Record<IncomeType, string> =>
+  Object.fromEntries(Object.values(IncomeType).map((type) => [type, ''])) as Record<IncomeType, string>;
+
+export const TaxProfileSettings: React.FC = () => {
+  const { settings, taxProfiles, updateSettings, addTaxProfile, updateTaxProfile, deleteTaxProfile } = useAppStore();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [deduction, setDeduction] = useState('');
+  const [brackets, setBrackets] = useState<BracketFormState[]>([]);
+  const [flatRates, setFlatRates] = useState<Record<IncomeType, string>>(emptyFlatRates());
+  const [socialRate, setSocialRate] = useState('');
+  const [socialCap, setSocialCap] = useState('');
+  const [socialTypes, setSocialTypes] = useState<IncomeType[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  if (!settings) return null;
+
+  const format = (amount: number) => formatCurrency(amount, settings.currency, settings.locale);
+
+  const fillForm = (profile?: TaxProfile) => {
+    setName(profile?.name ?? '');
+    setDeduction(profile ? profile.deduction.toString() : '');
+    setBrackets(
+      profile
+        ? profile.brackets.map((bracket) => ({ upTo: bracket.upTo?.toString() ?? '', rate: bracket.rate.toString() }))
+        : [{ upTo: '', rate: '' }]
+    );
+    setFlatRates({
+      ...emptyFlatRates(),
+      ...Object.fromEntries(Object.entries(profile?.flatRates ?? {}).map(([type, rate]) => [type, rate.toString()])),
+    });
+    setSocialRate(profile ? profile.socialRate.toString() : '');
+    setSocialCap(profile?.socialCap?.toString() ?? '');
+    setSocialTypes(profile?.socialTypes ?? []);
+    setFormError(null);
+  };
+
+  const handleOpenModal = (profile?: TaxProfile) => {
+    fillForm(profile);
+    setEditingId(profile?.id ?? null);
+    setIsModalOpen(true);
+  };
+
+  // Копия профиля открывается как новый профиль
+  const handleDuplicate = (profile: TaxProfile) => {
+    fillForm(profile);
+    setName(`${profile.name} (copy)`);
+    setEditingId(null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (profile: TaxProfile) => {
+    await deleteTaxProfile(profile.id);
+  };
+
+  const updateBracket = (index: number, changes: Partial<BracketFormState>) => {
+    setBrackets(brackets.map((bracket, i) => (i === index ? { ...bracket, ...changes } : bracket)));
+  };
+
+  const toggleSocialType = (type: IncomeType) => {
+    setSocialTypes(socialTypes.includes(type) ? socialTypes.filter((item) => item !== type) : [...socialTypes, type]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Пустая граница — последняя ступень без ограничения
+    const parsedBrackets = brackets
+      .filter((bracket) => bracket.rate !== '')
+      .map((bracket) => ({
+        upTo: bracket.upTo === '' ? null : parseFloat(bracket.upTo),
+        rate: parseFloat(bracket.rate) || 0,
+      }))
+      .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+    if (parsedBrackets.filter((bracket) => bracket.upTo === null).length > 1) {
+      setFormError('Only the top bracket can have no upper limit');
+      return;
+    }
+
+    const data = {
+      name,
+      deduction: parseFloat(deduction) || 0,
+      brackets: parsedBrackets,
+      flatRates: Object.fromEntries(
+        Object.entries(flatRates)
+          .filter(([, rate]) => rate !== '')
+          .map(([type, rate]) => [type, parseFloat(rate) || 0])
+      ),
+      socialRate: parseFloat(socialRate) || 0,
+      socialCap: socialCap === '' ? undefined : parseFloat(socialCap),
+      socialTypes,
+    };
+
+    if (editingId) {
+      await updateTaxProfile(editingId, data);
+    } else {
+      await addTaxProfile(data);
+    }
+
+    const { error } = useAppStore.getState();
+    if (error) {
+      setFormError(error);
+      useAppStore.setState({ error: null });
+      return;
+    }
+
+    handleCloseModal();
+  };
+
+  return (
+    <Card title="Taxes">
+      <div className="space-y-4">
+        <Select
+          label="Tax Profile"
+          value={settings.taxProfileId ?? ''}
+          onChange={(value) => updateSettings({ taxProfileId: value || undefined })}
+          options={[
+            { value: '', label: 'No taxes (all amounts are take-home)' },
+            ...taxProfiles.map((profile) => ({ value: profile.id, label: profile.name })),
+          ]}
+        />
+        <p className="text-xs text-gray-500 -mt-2">
+          Income marked as before tax is converted to take-home with this profile. Savings, cash flow and
+          projections use the take-home amount.
+        </p>
+
+        <div className="border-t pt-4 space-y-3">
+          {taxProfiles.map((profile) => (
+            <div key={profile.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{profile.name}</p>
+                <p className="text-xs text-gray-500">
+                  {profile.brackets.map((bracket) => `${bracket.rate}%`).join(' / ')}
+                  {profile.deduction > 0 && ` · ${format(profile.deduction)} tax-free`}
+                  {profile.socialRate > 0 && ` · ${profile.socialRate}% social`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button onClick={() => handleDuplicate(profile)} variant="outline" size="sm">
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button onClick={() => handleOpenModal(profile)} variant="outline" size="sm">
+                  <Edit2 className="w-4 h-4" />
+                </Button>
+                <Button onClick={() => handleDelete(profile)} variant="danger" size="sm">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button onClick={() => handleOpenModal()} variant="outline" size="sm">
+            <Plus className="w-4 h-4 mr-1 inline" />
+            New Profile
+          </Button>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        title={editingId ? 'Edit Tax Profile' : 'Add Tax Profile'}
+        size="lg"
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input label="Name" value={name} onChange={setName} required />
+
+          <Input
+            label="Annual Tax-Free Allowance"
+            type="number"
+            value={deduction}
+            onChange={setDeduction}
+            placeholder="0"
+            step="0.01"
+            min="0"
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Progressive Brackets (annual)</label>
+            <div className="space-y-2">
+              {brackets.map((bracket, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-500 w-12">up to</span>
+                  <input
+                    type="number"
+                    value={bracket.upTo}
+                    onChange={(e) => updateBracket(index, { upTo: e.target.value })}
+                    placeholder="no limit"
+                    step="0.01"
+                    min="0"
+                    className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <input
+                    type="number"
+                    value={bracket.rate}
+                    onChange={(e) => updateBracket(index, { rate: e.target.value })}
+                    placeholder="%"
+                    step="0.01"
+                    min="0"
+                    className="w-24 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                  <button
+                    type="button"
+                    onClick={() => setBrackets(brackets.filter((_, i) => i !== index))}
+                    className="p-1 rounded text-gray-400 hover:text-red-600"
+                    title="Remove bracket"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setBrackets([...brackets, { upTo: '', rate: '' }])}
+              className="mt-2 text-sm text-primary-600 hover:text-primary-700"
+            >
+              + Add bracket
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Flat Rates by Income Type (%)</label>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.values(IncomeType).map((type) => (
+                <div key={type} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600 w-24">{typeLabels[type]}</span>
+                  <input
+                    type="number"
+                    value={flatRates[type]}
+                    onChange={(e) => setFlatRates({ ...flatRates, [type]: e.target.value })}
+                    placeholder="brackets"
+                    step="0.01"
+                    min="0"
+                    className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave empty to tax the income type with the brackets.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Social Contributions (%)"
+              type="number"
+              value={socialRate}
+              onChange={setSocialRate}
+              placeholder="0"
+              step="0.01"
+              min="0"
+            />
+            <Input
+              label="Annual Contribution Cap"
+              type="number"
+              value={socialCap}
+              onChange={setSocialCap}
+              placeholder="No cap"
+              step="0.01"
+              min="0"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Contributions Apply To</label>
+            <div className="flex flex-wrap gap-3">
+              {Object.values(IncomeType).map((type) => (
+                <label key={type} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={socialTypes.includes(type)}
+                    onChange={() => toggleSocialType(type)}
+                  />
+                  {typeLabels[type]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {formError && <div className="text-sm p-3 rounded-lg bg-red-50 text-red-800">{formError}</div>}
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              {editingId ? 'Update' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </Card>
+  );
+};
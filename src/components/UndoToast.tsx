@@ -0,0 +1,61 @@
+import React, { useEffect } from 'react';
+import { AlertCircle, Undo2, X } from 'lucide-react';
+import { useAppStore } from '@/store/useAppStore';
+
+/**
+ * Сколько уведомление остаётся на экране, мс
+ */
+const TOAST_DURATION = 6000;
+
+/**
+ * Уведомление после удаления или выключения с кнопкой отмены
+ * Если отменить или повторить действие не удалось, вместо него показывается причина
+ */
+export const UndoToast: React.FC = () => {
+  const { undoToast, historyError, undo, dismissUndoToast, dismissHistoryError } = useAppStore();
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(dismissUndoToast, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [undoToast, dismissUndoToast]);
+
+  useEffect(() => {
+    if (!historyError) return;
+    const timer = setTimeout(dismissHistoryError, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [historyError, dismissHistoryError]);
+
+  if (historyError) {
+    return (
+      <div
+        role="alert"
+        className="fixed bottom-6 left-1/2 -translate-x-1/2 lg:ml-32 z-50 flex items-center gap-4 px-5 py-3 bg-red-700 text-white rounded-xl shadow-lg"
+      >
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span className="text-sm">{historyError}</span>
+        <button onClick={dismissHistoryError} className="text-red-200 hover:text-white" aria-label="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  if (!undoToast) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 lg:ml-32 z-50 flex items-center gap-4 px-5 py-3 bg-gray-900 text-white rounded-xl shadow-lg">
+      <span className="text-sm">{undoToast.label}</span>
+      <button
+        onClick={undo}
+        className="flex items-center gap-1.5 text-sm font-medium text-primary-300 hover:text-primary-200"
+      >
+        <Undo2 className="w-4 h-4" />
+        Undo
+      </button>
+      <button onClick={dismissUndoToast} className="text-gray-400 hover:text-white" aria-label="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
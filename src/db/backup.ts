@@ -0,0 +1,864 @@
+import {
+  db,
+  DB_SCHEMA_VERSION,
+  DEFAULT_EXPECTED_RETURN_RATE,
+  DEFAULT_INFLATION_RATE,
+  DEFAULT_GOAL_ALLOCATION,
+  DEFAULT_TAX_RESERVE_RATES,
+} from './database';
+import { MIN_PASSPHRASE_LENGTH } from './encryption';
+import type { BackupDocument, BackupTables, EncryptedBackupDocument, RestoreMode, SplitMethod } from '@/types/models';
+import {
+  PBKDF2_ITERATIONS,
+  decryptText,
+  deriveKey,
+  encryptText,
+  generateSalt,
+  isEncryptedPayload,
+} from '@/utils/crypto';
+
+/**
+ * Версия формата файла резервной копии
+ * Меняется только при изменении структуры самого документа (не схемы БД)
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+type TableName = keyof BackupTables;
+type RawTables = Record<string, unknown[]>;
+type FieldKind =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'string?'
+  | 'number?'
+  | 'boolean?'
+  | 'date?'
+  | 'string|null'
+  | 'amountHistory?'
+  | 'pauses?'
+  | 'taxBrackets'
+  | 'taxRates'
+  | 'incomeTypes'
+  | 'memberAmounts?'
+  | 'splitRule?';
+
+/**
+ * Способы деления взносов между членами семьи
+ */
+const SPLIT_METHODS: SplitMethod[] = ['equal', 'proportional', 'custom'];
+
+const TABLE_NAMES: TableName[] = [
+  'incomeSources',
+  'accounts',
+  'accountSnapshots',
+  'accountTransfers',
+  'netWorthItems',
+  'netWorthValuations',
+  'debts',
+  'taxProfiles',
+  'taxPayments',
+  'goals',
+  'settings',
+  'monthlyIncomes',
+  'monthlySavings',
+  'importRules',
+  'expenseCategories',
+  'recurringExpenses',
+  'monthlyExpenses',
+  'goalContributions',
+  'householdMembers',
+];
+
+/**
+ * Таблицы с единственной записью
+ */
+const SINGLETON_TABLES: TableName[] = ['settings'];
+
+/**
+ * Таблицы, записи которых при слиянии сопоставляются по месяцу, а не по id
+ */
+const MONTH_KEYED_TABLES: TableName[] = ['monthlyIncomes', 'monthlySavings', 'monthlyExpenses', 'netWorthValuations'];
+
+/**
+ * Ожидаемые поля записей каждой таблицы
+ */
+const TABLE_FIELDS: Record<TableName, Record<string, FieldKind>> = {
+  incomeSources: {
+    id: 'string',
+    name: 'string',
+    amount: 'number',
+    amountHistory: 'amountHistory?',
+    type: 'string',
+    amountBasis: 'string',
+    frequency: 'string',
+    anchorDate: 'date?',
+    payoutMonth: 'number?',
+    spreadYearly: 'boolean?',
+    payoutDate: 'date?',
+    startDate: 'date?',
+    endDate: 'date?',
+    pauses: 'pauses?',
+    memberId: 'string?',
+    isActive: 'boolean',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  accounts: {
+    id: 'string',
+    name: 'string',
+    kind: 'string',
+    currency: 'string',
+    exchangeRate: 'number?',
+    interestRate: 'number?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  accountSnapshots: {
+    id: 'string',
+    accountId: 'string',
+    date: 'date',
+    balance: 'number',
+    note: 'string?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  accountTransfers: {
+    id: 'string',
+    fromAccountId: 'string',
+    toAccountId: 'string',
+    date: 'date',
+    amount: 'number',
+    receivedAmount: 'number?',
+    note: 'string?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  netWorthItems: {
+    id: 'string',
+    name: 'string',
+    kind: 'string',
+    category: 'string',
+    notes: 'string?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  netWorthValuations: {
+    id: 'string',
+    itemId: 'string',
+    year: 'number',
+    month: 'number',
+    value: 'number',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  debts: {
+    id: 'string',
+    name: 'string',
+    balance: 'number',
+    apr: 'number',
+    minimumPayment: 'number',
+    customOrder: 'number',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  taxProfiles: {
+    id: 'string',
+    name: 'string',
+    deduction: 'number',
+    brackets: 'taxBrackets',
+    flatRates: 'taxRates',
+    socialRate: 'number',
+    socialCap: 'number?',
+    socialTypes: 'incomeTypes',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  taxPayments: {
+    id: 'string',
+    year: 'number',
+    quarter: 'number',
+    date: 'date',
+    amount: 'number',
+    note: 'string?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  goals: {
+    id: 'string',
+    name: 'string',
+    targetAmount: 'number',
+    currentAmount: 'number',
+    deadline: 'date?',
+    inflateTarget: 'boolean?',
+    priority: 'number',
+    fixedMonthlyAmount: 'number?',
+    accountId: 'string?',
+    split: 'splitRule?',
+    description: 'string?',
+    color: 'string',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  settings: {
+    id: 'string',
+    savingsPercentage: 'number',
+    expectedReturnRate: 'number',
+    inflationRate: 'number',
+    realTerms: 'boolean',
+    goalAllocation: 'string',
+    taxProfileId: 'string?',
+    taxReserveRates: 'taxRates',
+    savingsSplit: 'splitRule?',
+    currency: 'string',
+    locale: 'string',
+    theme: 'string',
+    updatedAt: 'date',
+  },
+  monthlyIncomes: {
+    id: 'string',
+    year: 'number',
+    month: 'number',
+    incomeSourceId: 'string|null',
+    amount: 'number',
+    name: 'string',
+    type: 'string',
+    amountBasis: 'string',
+    isActive: 'boolean',
+    isRecurring: 'boolean',
+    inactiveReason: 'string?',
+    memberId: 'string?',
+    importFingerprint: 'string?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  monthlySavings: {
+    id: 'string',
+    year: 'number',
+    month: 'number',
+    savedAmount: 'number',
+    memberAmounts: 'memberAmounts?',
+    notes: 'string?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  importRules: {
+    id: 'string',
+    pattern: 'string',
+    type: 'string',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  expenseCategories: {
+    id: 'string',
+    name: 'string',
+    color: 'string',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  recurringExpenses: {
+    id: 'string',
+    name: 'string',
+    amount: 'number',
+    categoryId: 'string',
+    isActive: 'boolean',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  monthlyExpenses: {
+    id: 'string',
+    year: 'number',
+    month: 'number',
+    recurringExpenseId: 'string|null',
+    categoryId: 'string',
+    amount: 'number',
+    name: 'string',
+    isActive: 'boolean',
+    isRecurring: 'boolean',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  goalContributions: {
+    id: 'string',
+    goalId: 'string',
+    date: 'date',
+    amount: 'number',
+    note: 'string?',
+    monthlySavingsId: 'string?',
+    isOpeningBalance: 'boolean?',
+    isAutoAllocated: 'boolean?',
+    memberId: 'string?',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+  householdMembers: {
+    id: 'string',
+    name: 'string',
+    color: 'string',
+    createdAt: 'date',
+    updatedAt: 'date',
+  },
+};
+
+/**
+ * Миграции резервных копий между версиями схемы
+ * Ключ — версия, В КОТОРУЮ переводит миграция
+ */
+const BACKUP_MIGRATIONS: Record<number, (tables: RawTables) => RawTables> = {
+  // Version 2 - add monthlyIncomes
+  2: (tables) => ({ ...tables, monthlyIncomes: tables.monthlyIncomes ?? [] }),
+  // Version 3 - add monthlySavings
+  3: (tables) => ({ ...tables, monthlySavings: tables.monthlySavings ?? [] }),
+  // Version 4 - add importRules
+  4: (tables) => ({ ...tables, importRules: tables.importRules ?? [] }),
+  // Version 5 - add expenses
+  5: (tables) => ({
+    ...tables,
+    expenseCategories: tables.expenseCategories ?? [],
+    recurringExpenses: tables.recurringExpenses ?? [],
+    monthlyExpenses: tables.monthlyExpenses ?? [],
+  }),
+  // Version 6 - add expectedReturnRate to settings
+  6: (tables) => ({
+    ...tables,
+    settings: tables.settings?.map((settings) => ({
+      expectedReturnRate: DEFAULT_EXPECTED_RETURN_RATE,
+      ...(settings as object),
+    })),
+  }),
+  // Version 7 - add inflation settings
+  7: (tables) => ({
+    ...tables,
+    settings: tables.settings?.map((settings) => ({
+      inflationRate: DEFAULT_INFLATION_RATE,
+      realTerms: false,
+      ...(settings as object),
+    })),
+  }),
+  // Version 8 - add amount history to income sources
+  8: (tables) => ({
+    ...tables,
+    incomeSources: tables.incomeSources?.map((source) => {
+      const created = isRecord(source) ? new Date(source.createdAt as string) : new Date(NaN);
+      if (!isRecord(source) || isNaN(created.getTime())) return source;
+      return {
+        amountHistory: [{ year: created.getFullYear(), month: created.getMonth() + 1, amount: source.amount }],
+        ...source,
+      };
+    }),
+  }),
+  // Version 9 - add goal contribution ledger, seeded from each goal's current amount
+  9: (tables) => ({
+    ...tables,
+    goalContributions:
+      tables.goalContributions ??
+      (tables.goals ?? [])
+        .filter((goal) => isRecord(goal) && typeof goal.currentAmount === 'number' && goal.currentAmount !== 0)
+        .map((goal) => {
+          const { id, currentAmount, createdAt } = goal as Record<string, unknown>;
+          return {
+            id: crypto.randomUUID(),
+            goalId: id,
+            date: createdAt,
+            amount: currentAmount,
+            note: 'Opening balance',
+            isOpeningBalance: true,
+            createdAt: createdAt,
+            updatedAt: createdAt,
+          };
+        }),
+  }),
+  // Version 10 - add goal priorities and savings allocation strategy
+  10: (tables) => ({
+    ...tables,
+    goals: tables.goals?.map((goal, _, goals) => {
+      // Приоритет по порядку создания, как и при обновлении базы (даты в ISO сравниваются как строки)
+      const createdAt = (item: unknown) => String(isRecord(item) ? item.createdAt : '');
+      const priority = goals.filter((other) => createdAt(other) < createdAt(goal)).length + 1;
+      return { priority, ...(goal as object) };
+    }),
+    settings: tables.settings?.map((settings) => ({
+      goalAllocation: DEFAULT_GOAL_ALLOCATION,
+      ...(settings as object),
+    })),
+  }),
+  // Version 11 - replace the savings record with accounts, seeded like the database upgrade
+  11: ({ savings, ...tables }) => {
+    if (tables.accounts) return tables;
+
+    const [record] = (savings ?? []).filter(isRecord);
+    const [settings] = (tables.settings ?? []).filter(isRecord);
+    const accounts: Record<string, unknown>[] = [];
+    const accountSnapshots: Record<string, unknown>[] = [];
+    if (record) {
+      const legacy = [
+        { name: 'Current Savings', balance: record.currentSavings, interestRate: record.currentSavingsReturnRate },
+        { name: 'Already Saved', balance: record.alreadySaved, interestRate: record.alreadySavedReturnRate },
+      ];
+      for (const item of legacy.filter((item) => item.balance || item.interestRate !== undefined)) {
+        const id = crypto.randomUUID();
+        accounts.push({
+          id,
+          name: item.name,
+          kind: 'other',
+          currency: settings?.currency ?? 'USD',
+          interestRate: item.interestRate,
+          createdAt: record.updatedAt,
+          updatedAt: record.updatedAt,
+        });
+        accountSnapshots.push({
+          id: crypto.randomUUID(),
+          accountId: id,
+          date: record.updatedAt,
+          balance: item.balance || 0,
+          note: 'Migrated from savings',
+          createdAt: record.updatedAt,
+          updatedAt: record.updatedAt,
+        });
+      }
+    }
+
+    return { ...tables, accounts, accountSnapshots, accountTransfers: [] };
+  },
+  // Version 12 - add net worth assets and liabilities
+  12: (tables) => ({
+    ...tables,
+    netWorthItems: tables.netWorthItems ?? [],
+    netWorthValuations: tables.netWorthValuations ?? [],
+  }),
+  // Version 13 - add debts
+  13: (tables) => ({
+    ...tables,
+    debts: tables.debts ?? [],
+  }),
+  // Version 14 - add tax profiles and mark existing income amounts as take-home
+  14: (tables) => ({
+    ...tables,
+    taxProfiles: tables.taxProfiles ?? [],
+    incomeSources: tables.incomeSources?.map((source) => ({ amountBasis: 'net', ...(source as object) })),
+    monthlyIncomes: tables.monthlyIncomes?.map((income) => ({ amountBasis: 'net', ...(income as object) })),
+  }),
+  // Version 15 - add quarterly tax payments and tax reserve rates
+  15: (tables) => ({
+    ...tables,
+    taxPayments: tables.taxPayments ?? [],
+    settings: tables.settings?.map((settings) => ({
+      taxReserveRates: { ...DEFAULT_TAX_RESERVE_RATES },
+      ...(settings as object),
+    })),
+  }),
+  // Version 17 - add household members
+  17: (tables) => ({
+    ...tables,
+    householdMembers: tables.householdMembers ?? [],
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Суммы или доли по id членов семьи
+ */
+function isMemberAmounts(value: unknown): boolean {
+  return isRecord(value) && Object.values(value).every((amount) => typeof amount === 'number' && isFinite(amount));
+}
+
+/**
+ * Восстановить дату из JSON-значения
+ */
+function reviveDate(value: unknown, path: string): Date {
+  const date = value instanceof Date ? value : new Date(value as string);
+  if ((typeof value !== 'string' && !(value instanceof Date)) || isNaN(date.getTime())) {
+    throw new Error(`Invalid date at ${path}`);
+  }
+  return date;
+}
+
+/**
+ * Проверить запись таблицы и восстановить в ней даты
+ */
+function validateRow(table: TableName, row: unknown, index: number): Record<string, unknown> {
+  const path = `${table}[${index}]`;
+  if (!isRecord(row)) {
+    throw new Error(`Invalid record at ${path}`);
+  }
+
+  const result: Record<string, unknown> = { ...row };
+  for (const [field, kind] of Object.entries(TABLE_FIELDS[table])) {
+    const value = row[field];
+    const fieldPath = `${path}.${field}`;
+
+    switch (kind) {
+      case 'date':
+        result[field] = reviveDate(value, fieldPath);
+        break;
+      case 'date?':
+        if (value === undefined || value === null) {
+          delete result[field];
+        } else {
+          result[field] = reviveDate(value, fieldPath);
+        }
+        break;
+      case 'string?':
+        if (value !== undefined && value !== null && typeof value !== 'string') {
+          throw new Error(`Expected string at ${fieldPath}`);
+        }
+        break;
+      case 'number?':
+        if (value !== undefined && value !== null && (typeof value !== 'number' || !isFinite(value))) {
+          throw new Error(`Expected number at ${fieldPath}`);
+        }
+        break;
+      case 'boolean?':
+        if (value !== undefined && value !== null && typeof value !== 'boolean') {
+          throw new Error(`Expected boolean at ${fieldPath}`);
+        }
+        break;
+      case 'string|null':
+        if (value !== null && typeof value !== 'string') {
+          throw new Error(`Expected string or null at ${fieldPath}`);
+        }
+        break;
+      case 'amountHistory?':
+        if (value === undefined || value === null) {
+          delete result[field];
+        } else if (
+          !Array.isArray(value) ||
+          !value.every(
+            (change) =>
+              isRecord(change) &&
+              Number.isInteger(change.year) &&
+              Number.isInteger(change.month) &&
+              typeof change.amount === 'number' &&
+              isFinite(change.amount)
+          )
+        ) {
+          throw new Error(`Expected amount history at ${fieldPath}`);
+        }
+        break;
+      case 'pauses?':
+        if (value === undefined || value === null) {
+          delete result[field];
+        } else if (!Array.isArray(value)) {
+          throw new Error(`Expected pauses at ${fieldPath}`);
+        } else {
+          result[field] = value.map((pause, i) => {
+            if (!isRecord(pause) || typeof pause.reason !== 'string') {
+              throw new Error(`Invalid pause at ${fieldPath}[${i}]`);
+            }
+            return {
+              ...pause,
+              startDate: reviveDate(pause.startDate, `${fieldPath}[${i}].startDate`),
+              endDate: reviveDate(pause.endDate, `${fieldPath}[${i}].endDate`),
+            };
+          });
+        }
+        break;
+      case 'taxBrackets':
+        if (
+          !Array.isArray(value) ||
+          !value.every(
+            (bracket) =>
+              isRecord(bracket) &&
+              (bracket.upTo === null || (typeof bracket.upTo === 'number' && isFinite(bracket.upTo))) &&
+              typeof bracket.rate === 'number' &&
+              isFinite(bracket.rate)
+          )
+        ) {
+          throw new Error(`Expected tax brackets at ${fieldPath}`);
+        }
+        break;
+      case 'taxRates':
+        if (
+          !isRecord(value) ||
+          !Object.values(value).every((rate) => typeof rate === 'number' && isFinite(rate))
+        ) {
+          throw new Error(`Expected tax rates at ${fieldPath}`);
+        }
+        break;
+      case 'incomeTypes':
+        if (!Array.isArray(value) || !value.every((type) => typeof type === 'string')) {
+          throw new Error(`Expected income types at ${fieldPath}`);
+        }
+        break;
+      case 'memberAmounts?':
+        if (value === undefined || value === null) {
+          delete result[field];
+        } else if (!isMemberAmounts(value)) {
+          throw new Error(`Expected amounts by member at ${fieldPath}`);
+        }
+        break;
+      case 'splitRule?':
+        if (value === undefined || value === null) {
+          delete result[field];
+        } else if (
+          !isRecord(value) ||
+          !SPLIT_METHODS.includes(value.method as SplitMethod) ||
+          (value.shares !== undefined && !isMemberAmounts(value.shares))
+        ) {
+          throw new Error(`Expected split rule at ${fieldPath}`);
+        }
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !isFinite(value)) {
+          throw new Error(`Expected number at ${fieldPath}`);
+        }
+        break;
+      default:
+        if (typeof value !== kind) {
+          throw new Error(`Expected ${kind} at ${fieldPath}`);
+        }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Перевести таблицы резервной копии на текущую версию схемы
+ */
+function migrateTables(tables: RawTables, fromVersion: number): RawTables {
+  let migrated = tables;
+  for (let version = fromVersion + 1; version <= DB_SCHEMA_VERSION; version++) {
+    const migration = BACKUP_MIGRATIONS[version];
+    if (migration) {
+      migrated = migration(migrated);
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Сервис резервного копирования и восстановления базы данных
+ */
+export const backupService = {
+  /**
+   * Выгрузить все таблицы в документ резервной копии
+   */
+  async export(): Promise<BackupDocument> {
+    const tables = {} as Record<TableName, unknown[]>;
+    for (const name of TABLE_NAMES) {
+      tables[name] = await db.table(name).toArray();
+    }
+
+    return {
+      app: 'wispr-flow',
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: DB_SCHEMA_VERSION,
+      exportedAt: new Date(),
+      tables: tables as unknown as BackupTables,
+    };
+  },
+
+  /**
+   * Сериализовать резервную копию в JSON
+   */
+  serialize(backup: BackupDocument): string {
+    return JSON.stringify(backup, null, 2);
+  },
+
+  /**
+   * Зашифровать резервную копию паролем
+   */
+  async encrypt(backup: BackupDocument, passphrase: string): Promise<string> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const document: EncryptedBackupDocument = {
+      app: 'wispr-flow',
+      formatVersion: BACKUP_FORMAT_VERSION,
+      encryption: { salt, iterations: PBKDF2_ITERATIONS },
+      payload: encryptText(key, this.serialize(backup)),
+    };
+    return JSON.stringify(document, null, 2);
+  },
+
+  /**
+   * Зашифрована ли резервная копия паролем
+   */
+  isEncrypted(json: string): boolean {
+    try {
+      const raw: unknown = JSON.parse(json);
+      return isRecord(raw) && isRecord(raw.encryption);
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Расшифровать резервную копию; результат разбирается как обычная копия через parse
+   */
+  async decrypt(json: string, passphrase: string): Promise<string> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('Backup file is not valid JSON');
+    }
+
+    if (!isRecord(raw) || raw.app !== 'wispr-flow' || !isRecord(raw.encryption)) {
+      throw new Error('File is not an encrypted Wispr Flow backup');
+    }
+    if (raw.formatVersion !== BACKUP_FORMAT_VERSION) {
+      throw new Error(`Unsupported backup format version: ${String(raw.formatVersion)}`);
+    }
+    const { salt, iterations } = raw.encryption;
+    if (typeof salt !== 'string' || typeof iterations !== 'number' || !isEncryptedPayload(raw.payload)) {
+      throw new Error('Encrypted backup is damaged');
+    }
+
+    const key = await deriveKey(passphrase, salt, iterations);
+    try {
+      return decryptText(key, raw.payload);
+    } catch {
+      throw new Error('Wrong passphrase for this backup');
+    }
+  },
+
+  /**
+   * Разобрать и проверить JSON резервной копии
+   * Копии из более старых версий схемы мигрируются до текущей
+   */
+  parse(json: string): BackupDocument {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('Backup file is not valid JSON');
+    }
+
+    if (!isRecord(raw) || raw.app !== 'wispr-flow') {
+      throw new Error('File is not a Wispr Flow backup');
+    }
+    if (raw.formatVersion !== BACKUP_FORMAT_VERSION) {
+      throw new Error(`Unsupported backup format version: ${String(raw.formatVersion)}`);
+    }
+
+    const schemaVersion = raw.schemaVersion;
+    if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+      throw new Error('Backup has an invalid schema version');
+    }
+    if (schemaVersion > DB_SCHEMA_VERSION) {
+      throw new Error('Backup was created by a newer version of the app');
+    }
+    if (!isRecord(raw.tables)) {
+      throw new Error('Backup has no tables');
+    }
+
+    const rawTables: RawTables = {};
+    for (const [name, rows] of Object.entries(raw.tables)) {
+      if (!Array.isArray(rows)) {
+        throw new Error(`Table ${name} must be an array`);
+      }
+      rawTables[name] = rows;
+    }
+
+    const migrated = migrateTables(rawTables, schemaVersion);
+
+    const tables = {} as Record<TableName, unknown[]>;
+    for (const name of TABLE_NAMES) {
+      const rows = migrated[name];
+      if (!rows) {
+        throw new Error(`Backup is missing table ${name}`);
+      }
+      tables[name] = rows.map((row, index) => validateRow(name, row, index));
+    }
+
+    return {
+      app: 'wispr-flow',
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: DB_SCHEMA_VERSION,
+      exportedAt: raw.exportedAt ? reviveDate(raw.exportedAt, 'exportedAt') : new Date(),
+      tables: tables as unknown as BackupTables,
+    };
+  },
+
+  /**
+   * Восстановить базу из резервной копии
+   * replace — полностью заменить данные, merge — объединить с текущими по id
+   */
+  async restore(backup: BackupDocument, mode: RestoreMode): Promise<void> {
+    const { tables } = backup;
+
+    await db.transaction('rw', TABLE_NAMES.map((name) => db.table(name)), async () => {
+      if (mode === 'replace') {
+        for (const name of TABLE_NAMES) {
+          await db.table(name).clear();
+          const rows: unknown[] = tables[name];
+          await db.table(name).bulkAdd(SINGLETON_TABLES.includes(name) ? rows.slice(0, 1) : rows);
+        }
+        return;
+      }
+
+      for (const name of TABLE_NAMES) {
+        if (!SINGLETON_TABLES.includes(name) && !MONTH_KEYED_TABLES.includes(name)) {
+          await db.table(name).bulkPut(tables[name]);
+        }
+      }
+
+      // Настройки — единственная запись, перезаписываем существующую
+      const [existingSettings] = await db.settings.toArray();
+      if (tables.settings[0]) {
+        await db.settings.put({ ...tables.settings[0], id: existingSettings?.id ?? tables.settings[0].id });
+      }
+
+      // Регулярный доход уникален по источнику и месяцу
+      for (const income of tables.monthlyIncomes) {
+        const existing = income.incomeSourceId
+          ? await db.monthlyIncomes
+              .where('[year+month]')
+              .equals([income.year, income.month])
+              .and((item) => item.incomeSourceId === income.incomeSourceId)
+              .first()
+          : undefined;
+        await db.monthlyIncomes.put({ ...income, id: existing?.id ?? income.id });
+      }
+
+      // Регулярный расход уникален по шаблону и месяцу
+      for (const expense of tables.monthlyExpenses) {
+        const existing = expense.recurringExpenseId
+          ? await db.monthlyExpenses
+              .where('[year+month]')
+              .equals([expense.year, expense.month])
+              .and((item) => item.recurringExpenseId === expense.recurringExpenseId)
+              .first()
+          : undefined;
+        await db.monthlyExpenses.put({ ...expense, id: existing?.id ?? expense.id });
+      }
+
+      // Оценка позиции уникальна по позиции и месяцу
+      for (const valuation of tables.netWorthValuations) {
+        const existing = await db.netWorthValuations
+          .where('[itemId+year+month]')
+          .equals([valuation.itemId, valuation.year, valuation.month])
+          .first();
+        await db.netWorthValuations.put({ ...valuation, id: existing?.id ?? valuation.id });
+      }
+
+      // Накопления уникальны по месяцу
+      const savingsIds = new Map<string, string>();
+      for (const savings of tables.monthlySavings) {
+        const existing = await db.monthlySavings
+          .where('[year+month]')
+          .equals([savings.year, savings.month])
+          .first();
+        const id = existing?.id ?? savings.id;
+        savingsIds.set(savings.id, id);
+        await db.monthlySavings.put({ ...savings, id });
+      }
+
+      // Взносы в цели ссылаются на месяц накоплений, который мог получить id существующей записи
+      for (const contribution of tables.goalContributions) {
+        const savingsId = contribution.monthlySavingsId && savingsIds.get(contribution.monthlySavingsId);
+        if (savingsId && savingsId !== contribution.monthlySavingsId) {
+          await db.goalContributions.update(contribution.id, { monthlySavingsId: savingsId });
+        }
+      }
+    });
+  },
+};
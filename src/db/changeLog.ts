@@ -0,0 +1,241 @@
+import type { DBCore, DBCoreMutateRequest, DBCoreMutateResponse, DBCoreTable, DBCoreTransaction, Transaction } from 'dexie';
+import { db } from './database';
+import type { BackupTables, ChangeLogEntry, ChangeOperation } from '@/types/models';
+
+/**
+ * Изменение записи внутри ещё не завершённой транзакции
+ */
+interface PendingChange {
+  id: string;
+  entity: string;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Изменения одной транзакции
+ */
+interface PendingTransaction {
+  timestamp: Date;
+  changes: Map<string, PendingChange>;
+}
+
+/**
+ * Фильтр записей журнала
+ */
+export interface ChangeLogFilter {
+  entity?: string;
+  entityId?: string;
+  operation?: ChangeOperation;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Таблицы с данными пользователя; сам журнал и параметры шифрования в нём не отражаются
+ */
+const LOGGED_TABLES = db.tables.filter((table) => table.name !== db.changeLog.name && table.name !== db.vault.name);
+
+const LOGGED_TABLE_NAMES = new Set(LOGGED_TABLES.map((table) => table.name));
+
+/**
+ * Изменения по транзакциям IndexedDB (вложенные транзакции сервисов работают в транзакции внешней)
+ * Ключ — "таблица:id"; в журнале одна запись на изменённую запись: состояние до первого и после последнего изменения
+ */
+const pendingChanges = new WeakMap<DBCoreTransaction, PendingTransaction>();
+
+/**
+ * Описания действий пользователя по транзакциям IndexedDB
+ */
+const reasons = new WeakMap<DBCoreTransaction, string>();
+
+function getOperation(change: PendingChange): ChangeOperation {
+  if (change.before === undefined) return 'create';
+  if (change.after === undefined) return 'delete';
+  return 'update';
+}
+
+/**
+ * Первичные ключи записей, которые затрагивает запрос
+ */
+async function getMutatedKeys(table: DBCoreTable, req: DBCoreMutateRequest): Promise<string[]> {
+  switch (req.type) {
+    case 'add':
+    case 'put':
+      return req.keys ?? req.values.map((value: { id: string }) => value.id);
+    case 'delete':
+      return req.keys;
+    case 'deleteRange': {
+      const { result } = await table.query({
+        trans: req.trans,
+        values: false,
+        query: { index: table.schema.primaryKey, range: req.range },
+      });
+      return result;
+    }
+  }
+}
+
+/**
+ * Выполнить запрос и записать изменения в журнал той же транзакцией:
+ * журнал сохраняется или откатывается вместе с данными
+ */
+async function logMutation(core: DBCore, table: DBCoreTable, req: DBCoreMutateRequest): Promise<DBCoreMutateResponse> {
+  // Миграции схемы в журнал не попадают
+  if ((req.trans as IDBTransaction).mode === 'versionchange') {
+    return table.mutate(req);
+  }
+
+  const { trans } = req;
+  const keys = await getMutatedKeys(table, req);
+  const before = await table.getMany({ trans, keys });
+  const response = await table.mutate(req);
+  const after = req.type === 'add' || req.type === 'put' ? await table.getMany({ trans, keys }) : [];
+
+  let pending = pendingChanges.get(trans);
+  if (!pending) {
+    pending = { timestamp: new Date(), changes: new Map() };
+    pendingChanges.set(trans, pending);
+  }
+
+  const changed: PendingChange[] = [];
+  keys.forEach((entityId, index) => {
+    if (response.failures[index]) return;
+
+    const key = `${table.name}:${entityId}`;
+    const change: PendingChange = pending.changes.get(key) ?? {
+      id: crypto.randomUUID(),
+      entity: table.name,
+      entityId,
+      before: before[index],
+    };
+    change.after = after[index];
+    pending.changes.set(key, change);
+    changed.push(change);
+  });
+
+  // Запись журнала перезаписывается при каждом изменении; созданная и удалённая в одной транзакции запись из него пропадает
+  const reason = reasons.get(trans);
+  const entries: ChangeLogEntry[] = changed
+    .filter((change) => change.before !== undefined || change.after !== undefined)
+    .map((change) => ({
+      id: change.id,
+      timestamp: pending.timestamp,
+      entity: change.entity,
+      entityId: change.entityId,
+      operation: getOperation(change),
+      before: change.before,
+      after: change.after,
+      reason,
+    }));
+  const discarded = changed
+    .filter((change) => change.before === undefined && change.after === undefined)
+    .map((change) => change.id);
+
+  const logTable = core.table(db.changeLog.name);
+  if (entries.length > 0) {
+    await logTable.mutate({ trans, type: 'put', values: entries });
+  }
+  if (discarded.length > 0) {
+    await logTable.mutate({ trans, type: 'delete', keys: discarded });
+  }
+  return response;
+}
+
+// Слой Dexie видит каждую запись сервисов, включая каскадные изменения и восстановление из копии.
+// Стоит ниже хуков, но выше слежения за изменениями и шифрования: живые запросы видят журнал, а он сам шифруется
+db.use({
+  stack: 'dbcore',
+  name: 'ChangeLog',
+  level: 1,
+  create: (downCore) => {
+    const tables = new Map<string, DBCoreTable>();
+    return {
+      ...downCore,
+      transaction(stores, mode, options) {
+        // Журнал всегда входит в пишущую транзакцию
+        const scope = mode === 'readwrite' && !stores.includes(db.changeLog.name) ? [...stores, db.changeLog.name] : stores;
+        return downCore.transaction(scope, mode, options);
+      },
+      table(tableName) {
+        let table = tables.get(tableName);
+        if (!table) {
+          const downTable = downCore.table(tableName);
+          table = LOGGED_TABLE_NAMES.has(tableName)
+            ? { ...downTable, mutate: (req) => logMutation(downCore, downTable, req) }
+            : downTable;
+          tables.set(tableName, table);
+        }
+        return table;
+      },
+    };
+  },
+});
+
+/**
+ * Указать, каким действием пользователя вызваны изменения транзакции
+ */
+export function setChangeReason(transaction: Transaction, reason: string): void {
+  reasons.set(transaction.idbtrans, reason);
+}
+
+/**
+ * Сервис журнала изменений
+ */
+export const changeLogService = {
+  /**
+   * Записи журнала, новые первыми
+   */
+  async query(filter: ChangeLogFilter = {}): Promise<ChangeLogEntry[]> {
+    const { entity, entityId, operation, from, to, limit } = filter;
+    const matches = (entry: ChangeLogEntry) =>
+      (!entity || entry.entity === entity) &&
+      (!operation || entry.operation === operation) &&
+      (!from || entry.timestamp >= from) &&
+      (!to || entry.timestamp <= to);
+
+    // История одной записи берётся по индексу, остальное — по времени
+    if (entityId) {
+      const entries = await db.changeLog.where('entityId').equals(entityId).filter(matches).reverse().sortBy('timestamp');
+      return limit ? entries.slice(0, limit) : entries;
+    }
+
+    const range = db.changeLog.orderBy('timestamp').reverse().filter(matches);
+    return limit ? range.limit(limit).toArray() : range.toArray();
+  },
+
+  /**
+   * Содержимое таблиц на момент времени
+   * Текущие данные откатываются по журналу от новых изменений к старым;
+   * изменения до появления журнала неизвестны, поэтому такие записи остаются как есть
+   */
+  async getTablesAt(date: Date): Promise<BackupTables> {
+    return db.transaction('r', db.tables, async () => {
+      const later = await db.changeLog.where('timestamp').above(date).reverse().toArray();
+
+      const tables: Record<string, Map<string, unknown>> = {};
+      for (const table of LOGGED_TABLES) {
+        const rows: { id: string }[] = await table.toArray();
+        tables[table.name] = new Map(rows.map((row) => [row.id, row]));
+      }
+
+      for (const entry of later) {
+        const rows = tables[entry.entity];
+        if (!rows) continue;
+        if (entry.before === undefined) {
+          rows.delete(entry.entityId);
+        } else {
+          rows.set(entry.entityId, entry.before);
+        }
+      }
+
+      const result: Record<string, unknown[]> = {};
+      for (const [name, rows] of Object.entries(tables)) {
+        result[name] = [...rows.values()];
+      }
+      return result as unknown as BackupTables;
+    });
+  },
+};
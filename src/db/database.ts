@@ -1,5 +1,71 @@
 import Dexie, { Table } from 'dexie';
-import type { IncomeSource, Savings, Goal, AppSettings, MonthlyIncome, MonthlySavings } from '@/types/models';
+import type {
+  IncomeSource,
+  Account,
+  AccountSnapshot,
+  AccountTransfer,
+  NetWorthItem,
+  NetWorthValuation,
+  Debt,
+  TaxProfile,
+  TaxPayment,
+  TaxReserveRates,
+  Goal,
+  AppSettings,
+  MonthlyIncome,
+  MonthlySavings,
+  ImportRule,
+  ExpenseCategory,
+  RecurringExpense,
+  MonthlyExpense,
+  GoalContribution,
+  GoalAllocationStrategy,
+  ChangeLogEntry,
+  HouseholdMember,
+  EncryptionVault,
+} from '@/types/models';
+import { IncomeType } from '@/types/models';
+import { createEncryptionMiddleware } from './encryptionMiddleware';
+
+/**
+ * Текущая версия схемы базы данных
+ * Должна совпадать с последним вызовом this.version() ниже
+ */
+export const DB_SCHEMA_VERSION = 18;
+
+/**
+ * База данных профиля по умолчанию (в ней же лежат данные, созданные до появления профилей)
+ */
+export const DEFAULT_DATABASE_NAME = 'WisprFlowDB';
+
+/**
+ * Ключ с именем базы данных активного профиля
+ * В sessionStorage — профиль, открытый в этой вкладке; в localStorage — профиль, с которым откроется новая вкладка
+ */
+export const ACTIVE_DATABASE_KEY = 'wispr-flow:active-database';
+
+/**
+ * Ожидаемая годовая доходность накоплений по умолчанию, %
+ */
+export const DEFAULT_EXPECTED_RETURN_RATE = 5;
+
+/**
+ * Ожидаемая годовая инфляция по умолчанию, %
+ */
+export const DEFAULT_INFLATION_RATE = 3;
+
+/**
+ * Стратегия распределения накоплений между целями по умолчанию
+ */
+export const DEFAULT_GOAL_ALLOCATION: GoalAllocationStrategy = 'waterfall';
+
+/**
+ * Процент дохода, откладываемый на налоги по умолчанию (доходы без удержания налога у источника)
+ */
+export const DEFAULT_TAX_RESERVE_RATES: TaxReserveRates = {
+  [IncomeType.FREELANCE]: 25,
+  [IncomeType.SIDE_HUSTLE]: 25,
+};
 
 /**
  * Класс базы данных Wispr Flow
@@ -7,14 +73,37 @@ import type { IncomeSource, Savings, Goal, AppSettings, MonthlyIncome, MonthlySa
  */
 export class WisprFlowDatabase extends Dexie {
   incomeSources!: Table<IncomeSource, string>;
-  savings!: Table<Savings, string>;
+  accounts!: Table<Account, string>;
+  accountSnapshots!: Table<AccountSnapshot, string>;
+  accountTransfers!: Table<AccountTransfer, string>;
+  netWorthItems!: Table<NetWorthItem, string>;
+  netWorthValuations!: Table<NetWorthValuation, string>;
+  debts!: Table<Debt, string>;
+  taxProfiles!: Table<TaxProfile, string>;
+  taxPayments!: Table<TaxPayment, string>;
   goals!: Table<Goal, string>;
   settings!: Table<AppSettings, string>;
   monthlyIncomes!: Table<MonthlyIncome, string>;
   monthlySavings!: Table<MonthlySavings, string>;
+  importRules!: Table<ImportRule, string>;
+  expenseCategories!: Table<ExpenseCategory, string>;
+  recurringExpenses!: Table<RecurringExpense, string>;
+  monthlyExpenses!: Table<MonthlyExpense, string>;
+  goalContributions!: Table<GoalContribution, string>;
+  changeLog!: Table<ChangeLogEntry, string>;
+  householdMembers!: Table<HouseholdMember, string>;
+  vault!: Table<EncryptionVault, string>;
 
-  constructor() {
-    super('WisprFlowDB');
+  /**
+   * Ключ шифрования данных, пока профиль разблокирован; хранится только в памяти
+   */
+  encryptionKey: Uint8Array | null = null;
+
+  constructor(name: string = DEFAULT_DATABASE_NAME) {
+    super(name);
+
+    // Параметры шифрования должны читаться до разблокировки, поэтому хранилище vault не шифруется
+    this.use(createEncryptionMiddleware(() => this.encryptionKey, ['vault']));
 
     // Version 1 - original schema
     this.version(1).stores({
@@ -42,8 +131,372 @@ export class WisprFlowDatabase extends Dexie {
       monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt',
       monthlySavings: 'id, [year+month], year, month, createdAt',
     });
+
+    // Version 4 - add importRules, index imported bank statement rows
+    this.version(4).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: 'id, updatedAt',
+      goals: 'id, name, deadline, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+    });
+
+    // Version 5 - add expenses
+    this.version(5).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: 'id, updatedAt',
+      goals: 'id, name, deadline, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+    });
+
+    // Version 6 - add expectedReturnRate to settings
+    this.version(6).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: 'id, updatedAt',
+      goals: 'id, name, deadline, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+    }).upgrade((tx) =>
+      tx.table('settings').toCollection().modify((settings: AppSettings) => {
+        settings.expectedReturnRate ??= DEFAULT_EXPECTED_RETURN_RATE;
+      })
+    );
+
+    // Version 7 - add inflation settings
+    this.version(7).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: 'id, updatedAt',
+      goals: 'id, name, deadline, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+    }).upgrade((tx) =>
+      tx.table('settings').toCollection().modify((settings: AppSettings) => {
+        settings.inflationRate ??= DEFAULT_INFLATION_RATE;
+        settings.realTerms ??= false;
+      })
+    );
+
+    // Version 8 - add amount history to income sources
+    this.version(8).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: 'id, updatedAt',
+      goals: 'id, name, deadline, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+    }).upgrade((tx) =>
+      tx.table('incomeSources').toCollection().modify((source: IncomeSource) => {
+        // Текущая сумма считается действующей с месяца создания источника
+        const createdAt = new Date(source.createdAt);
+        source.amountHistory ??= [
+          { year: createdAt.getFullYear(), month: createdAt.getMonth() + 1, amount: source.amount },
+        ];
+      })
+    );
+
+    // Version 9 - add goal contribution ledger
+    this.version(9).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: 'id, updatedAt',
+      goals: 'id, name, deadline, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+    }).upgrade(async (tx) => {
+      // Введённая вручную текущая сумма становится начальным взносом в журнале
+      const goals: Goal[] = await tx.table('goals').toArray();
+      const now = new Date();
+      await tx.table('goalContributions').bulkAdd(
+        goals
+          .filter((goal) => goal.currentAmount !== 0)
+          .map((goal): GoalContribution => ({
+            id: crypto.randomUUID(),
+            goalId: goal.id,
+            date: goal.createdAt,
+            amount: goal.currentAmount,
+            note: 'Opening balance',
+            isOpeningBalance: true,
+            createdAt: now,
+            updatedAt: now,
+          }))
+      );
+    });
+
+    // Version 10 - add goal priorities and savings allocation strategy
+    this.version(10).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: 'id, updatedAt',
+      goals: 'id, name, deadline, priority, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+    }).upgrade(async (tx) => {
+      // Приоритет по порядку создания: самая старая цель — первая
+      const goals: Goal[] = await tx.table('goals').orderBy('createdAt').toArray();
+      for (const [index, goal] of goals.entries()) {
+        await tx.table('goals').update(goal.id, { priority: index + 1 });
+      }
+      await tx.table('settings').toCollection().modify((settings: AppSettings) => {
+        settings.goalAllocation ??= DEFAULT_GOAL_ALLOCATION;
+      });
+    });
+
+    // Version 11 - replace the savings record with accounts, balance snapshots and transfers
+    this.version(11).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      savings: null,
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+    }).upgrade(async (tx) => {
+      // Обе суммы прежней записи сбережений становятся отдельными счетами со своей доходностью
+      const [savings] = await tx.table('savings').toArray();
+      const [settings] = await tx.table('settings').toArray();
+      if (!savings) return;
+
+      const now = new Date();
+      const legacy = [
+        { name: 'Current Savings', balance: savings.currentSavings, interestRate: savings.currentSavingsReturnRate },
+        { name: 'Already Saved', balance: savings.alreadySaved, interestRate: savings.alreadySavedReturnRate },
+      ];
+      for (const item of legacy.filter((item) => item.balance || item.interestRate !== undefined)) {
+        const account: Account = {
+          id: crypto.randomUUID(),
+          name: item.name,
+          kind: 'other',
+          currency: settings?.currency ?? 'USD',
+          interestRate: item.interestRate,
+          createdAt: now,
+          updatedAt: now,
+        };
+        const snapshot: AccountSnapshot = {
+          id: crypto.randomUUID(),
+          accountId: account.id,
+          date: savings.updatedAt ?? now,
+          balance: item.balance || 0,
+          note: 'Migrated from savings',
+          createdAt: now,
+          updatedAt: now,
+        };
+        await tx.table('accounts').add(account);
+        await tx.table('accountSnapshots').add(snapshot);
+      }
+    });
+
+    // Version 12 - add net worth assets, liabilities and their monthly valuations
+    this.version(12).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      netWorthItems: 'id, name, kind, createdAt',
+      netWorthValuations: 'id, [itemId+year+month], itemId, year, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+    });
+
+    // Version 13 - add debts for the payoff planner
+    this.version(13).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      netWorthItems: 'id, name, kind, createdAt',
+      netWorthValuations: 'id, [itemId+year+month], itemId, year, createdAt',
+      debts: 'id, name, customOrder, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+    });
+
+    // Version 14 - add tax profiles; existing income amounts are take-home
+    this.version(14).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      netWorthItems: 'id, name, kind, createdAt',
+      netWorthValuations: 'id, [itemId+year+month], itemId, year, createdAt',
+      debts: 'id, name, customOrder, createdAt',
+      taxProfiles: 'id, name, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+    }).upgrade(async (tx) => {
+      await tx.table('incomeSources').toCollection().modify((source: IncomeSource) => {
+        source.amountBasis ??= 'net';
+      });
+      await tx.table('monthlyIncomes').toCollection().modify((income: MonthlyIncome) => {
+        income.amountBasis ??= 'net';
+      });
+    });
+
+    // Version 15 - add quarterly tax payments and tax reserve rates
+    this.version(15).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      netWorthItems: 'id, name, kind, createdAt',
+      netWorthValuations: 'id, [itemId+year+month], itemId, year, createdAt',
+      debts: 'id, name, customOrder, createdAt',
+      taxProfiles: 'id, name, createdAt',
+      taxPayments: 'id, [year+quarter], year, date, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+    }).upgrade(async (tx) => {
+      await tx.table('settings').toCollection().modify((settings: AppSettings) => {
+        settings.taxReserveRates ??= { ...DEFAULT_TAX_RESERVE_RATES };
+      });
+    });
+
+    // Version 16 - add append-only change log
+    this.version(16).stores({
+      incomeSources: 'id, name, type, frequency, isActive, createdAt',
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      netWorthItems: 'id, name, kind, createdAt',
+      netWorthValuations: 'id, [itemId+year+month], itemId, year, createdAt',
+      debts: 'id, name, customOrder, createdAt',
+      taxProfiles: 'id, name, createdAt',
+      taxPayments: 'id, [year+quarter], year, date, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, createdAt',
+      changeLog: 'id, timestamp, entity, entityId',
+    });
+
+    // Version 17 - add household members and member attribution
+    this.version(17).stores({
+      incomeSources: 'id, name, type, frequency, isActive, memberId, createdAt',
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      netWorthItems: 'id, name, kind, createdAt',
+      netWorthValuations: 'id, [itemId+year+month], itemId, year, createdAt',
+      debts: 'id, name, customOrder, createdAt',
+      taxProfiles: 'id, name, createdAt',
+      taxPayments: 'id, [year+quarter], year, date, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, memberId, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, memberId, createdAt',
+      changeLog: 'id, timestamp, entity, entityId',
+      householdMembers: 'id, name, createdAt',
+    });
+
+    // Version 18 - add encryption parameters
+    // Миграции выполняются до разблокировки и в зашифрованных записях видят только открытые поля
+    // Индексы name и importFingerprint остаются для незашифрованных профилей; при шифровании эти поля
+    // запечатываются, и запросы по индексам запрещены (см. SENSITIVE_INDEXES в encryptionMiddleware)
+    this.version(18).stores({
+      incomeSources: 'id, name, type, frequency, isActive, memberId, createdAt',
+      accounts: 'id, name, kind, createdAt',
+      accountSnapshots: 'id, accountId, date, createdAt',
+      accountTransfers: 'id, fromAccountId, toAccountId, date, createdAt',
+      netWorthItems: 'id, name, kind, createdAt',
+      netWorthValuations: 'id, [itemId+year+month], itemId, year, createdAt',
+      debts: 'id, name, customOrder, createdAt',
+      taxProfiles: 'id, name, createdAt',
+      taxPayments: 'id, [year+quarter], year, date, createdAt',
+      goals: 'id, name, deadline, priority, accountId, createdAt',
+      settings: 'id, updatedAt',
+      monthlyIncomes: 'id, [year+month], incomeSourceId, year, month, isActive, memberId, createdAt, importFingerprint',
+      monthlySavings: 'id, [year+month], year, month, createdAt',
+      importRules: 'id, createdAt',
+      expenseCategories: 'id, name, createdAt',
+      recurringExpenses: 'id, name, categoryId, isActive, createdAt',
+      monthlyExpenses: 'id, [year+month], recurringExpenseId, categoryId, year, month, isActive, createdAt',
+      goalContributions: 'id, goalId, date, monthlySavingsId, memberId, createdAt',
+      changeLog: 'id, timestamp, entity, entityId',
+      householdMembers: 'id, name, createdAt',
+      vault: 'id',
+    });
   }
 }
 
-// Экспортируем единственный экземпляр базы данных
-export const db = new WisprFlowDatabase();
+// Экспортируем экземпляр базы данных активного профиля
+// Профиль переключается перезагрузкой страницы, поэтому экземпляр на всё время работы один
+// Выбор профиля у каждой вкладки свой; при запуске он проверяется по списку профилей (profileService.ensureActive)
+export const db = new WisprFlowDatabase(
+  sessionStorage.getItem(ACTIVE_DATABASE_KEY) ?? localStorage.getItem(ACTIVE_DATABASE_KEY) ?? DEFAULT_DATABASE_NAME
+);
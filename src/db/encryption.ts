@@ -0,0 +1,191 @@
+import { db, WisprFlowDatabase } from './database';
+import type { EncryptionVault } from '@/types/models';
+import { PBKDF2_ITERATIONS, decryptText, deriveKey, encryptText, generateSalt } from '@/utils/crypto';
+
+/**
+ * Параметры шифрования хранятся единственной записью
+ */
+const VAULT_ID = 'vault';
+
+/**
+ * Строка, по расшифровке которой проверяется пароль
+ */
+const VERIFIER_TEXT = 'wispr-flow';
+
+/**
+ * Минимальная длина пароля
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Блокировка после бездействия по умолчанию, минут
+ */
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+/**
+ * Соль, с которой получен ключ в этой вкладке; null — данные открыты без шифрования
+ * По ней видно, что шифрование включили, выключили или сменили пароль в другой вкладке
+ */
+let unlockedSalt: string | null = null;
+
+interface UnlockedVault {
+  key: Uint8Array;
+  vault: EncryptionVault;
+}
+
+/**
+ * Новые параметры шифрования и ключ для пароля
+ */
+async function createVault(passphrase: string, autoLockMinutes: number, createdAt = new Date()): Promise<UnlockedVault> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    vault: {
+      id: VAULT_ID,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: encryptText(key, VERIFIER_TEXT),
+      autoLockMinutes,
+      createdAt,
+      updatedAt: new Date(),
+    },
+  };
+}
+
+/**
+ * Получить ключ из пароля и проверить его
+ */
+async function unlockVault(vault: EncryptionVault, passphrase: string): Promise<Uint8Array> {
+  const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+  try {
+    decryptText(key, vault.verifier);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+  return key;
+}
+
+/**
+ * Переписать все данные профиля с новым ключом (или без шифрования) одной транзакцией
+ * Используется отдельное подключение без хуков: перешифровка не попадает ни в журнал, ни в историю отмены
+ */
+async function rewriteData(next: UnlockedVault | null): Promise<void> {
+  const storage = new WisprFlowDatabase(db.name);
+  storage.encryptionKey = db.encryptionKey;
+  const previous = { key: db.encryptionKey, salt: unlockedSalt };
+  const tables = storage.tables.filter((table) => table.name !== storage.vault.name);
+
+  try {
+    await storage.transaction('rw', storage.tables, async () => {
+      const rows = new Map<string, unknown[]>();
+      for (const table of tables) {
+        rows.set(table.name, await table.toArray());
+      }
+
+      // Всё прочитано старым ключом; вкладка переходит на новый ключ вместе с базой,
+      // её запросы ждут окончания этой транзакции
+      storage.encryptionKey = next?.key ?? null;
+      db.encryptionKey = next?.key ?? null;
+      unlockedSalt = next?.vault.salt ?? null;
+
+      for (const [name, items] of rows) {
+        await storage.table(name).bulkPut(items);
+      }
+      if (next) {
+        await storage.vault.put(next.vault);
+      } else {
+        await storage.vault.clear();
+      }
+    });
+  } catch (error) {
+    db.encryptionKey = previous.key;
+    unlockedSalt = previous.salt;
+    throw error;
+  } finally {
+    storage.close();
+  }
+}
+
+/**
+ * Сервис шифрования данных профиля паролем
+ */
+export const encryptionService = {
+  /**
+   * Параметры шифрования открытого профиля; null — шифрование выключено
+   */
+  async getVault(): Promise<EncryptionVault | null> {
+    return (await db.vault.get(VAULT_ID)) ?? null;
+  },
+
+  /**
+   * Открыты ли данные в этой вкладке с текущими параметрами шифрования
+   */
+  isUnlocked(vault: EncryptionVault | null): boolean {
+    return (vault?.salt ?? null) === unlockedSalt;
+  },
+
+  /**
+   * Разблокировать данные паролем
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const vault = await this.getVault();
+    if (!vault) return;
+
+    db.encryptionKey = await unlockVault(vault, passphrase);
+    unlockedSalt = vault.salt;
+  },
+
+  /**
+   * Заблокировать данные: ключ забывается, а страница перезагружается, чтобы расшифрованные данные ушли из памяти
+   */
+  lock(): void {
+    db.encryptionKey = null;
+    unlockedSalt = null;
+    window.location.reload();
+  },
+
+  /**
+   * Включить шифрование: существующие данные шифруются на месте
+   */
+  async enable(passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> {
+    if (await this.getVault()) {
+      throw new Error('Encryption is already on');
+    }
+    await rewriteData(await createVault(passphrase, autoLockMinutes));
+  },
+
+  /**
+   * Сменить пароль: данные перешифровываются новым ключом
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    const vault = await this.getVault();
+    if (!vault) {
+      throw new Error('Encryption is off');
+    }
+    await unlockVault(vault, currentPassphrase);
+    await rewriteData(await createVault(newPassphrase, vault.autoLockMinutes, vault.createdAt));
+  },
+
+  /**
+   * Выключить шифрование: данные расшифровываются на месте
+   */
+  async disable(passphrase: string): Promise<void> {
+    const vault = await this.getVault();
+    if (!vault) return;
+
+    await unlockVault(vault, passphrase);
+    await rewriteData(null);
+  },
+
+  /**
+   * Изменить время бездействия до блокировки (0 — не блокировать)
+   */
+  async setAutoLock(minutes: number): Promise<void> {
+    await db.vault.update(VAULT_ID, { autoLockMinutes: minutes, updatedAt: new Date() });
+  },
+};
@@ -0,0 +1,194 @@
+import type { DBCore, DBCoreCursor, DBCoreIndex, DBCoreTable, DBCoreTableSchema, Middleware } from 'dexie';
+import type { EncryptedPayload } from '@/types/models';
+import { decryptText, encryptText, isEncryptedPayload } from '@/utils/crypto';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Поле записи, в котором лежат её зашифрованные поля
+ */
+const SEALED_FIELD = 'sealed';
+
+/**
+ * Индексируемые поля, которые всё равно шифруются: по ним не ищут, а значения раскрывают данные
+ * Зашифрованная запись не попадает в такой индекс, поэтому запросы по нему при включённом шифровании запрещены
+ */
+const SENSITIVE_INDEXES = ['name', 'importFingerprint'];
+
+/**
+ * Метка даты при сериализации (JSON не хранит Date)
+ */
+const DATE_TAG = '$date';
+
+function isRecord(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSealed(value: unknown): value is Row & Record<typeof SEALED_FIELD, EncryptedPayload> {
+  return isRecord(value) && isEncryptedPayload(value[SEALED_FIELD]);
+}
+
+function serialize(fields: Row): string {
+  return JSON.stringify(fields, function (this: Row, key, value) {
+    const original = this[key];
+    return original instanceof Date ? { [DATE_TAG]: original.getTime() } : value;
+  });
+}
+
+function deserialize(json: string): Row {
+  return JSON.parse(json, (_key, value) =>
+    isRecord(value) && typeof value[DATE_TAG] === 'number' && Object.keys(value).length === 1
+      ? new Date(value[DATE_TAG])
+      : value
+  );
+}
+
+/**
+ * Поля, которые остаются открытыми: первичный ключ и индексы, по которым строятся запросы
+ */
+function getPlainFields(schema: DBCoreTableSchema): Set<string> {
+  const keyPaths = [schema.primaryKey, ...schema.indexes].flatMap((index) => index.keyPath ?? []);
+  return new Set(keyPaths.filter((field) => !SENSITIVE_INDEXES.includes(field)));
+}
+
+/**
+ * Зашифровать все поля записи, кроме открытых, в одно поле
+ */
+function sealRow(key: Uint8Array, value: unknown, plainFields: Set<string>): unknown {
+  if (!isRecord(value) || isSealed(value)) return value;
+
+  const row: Row = {};
+  const secret: Row = {};
+  Object.entries(value).forEach(([field, fieldValue]) => {
+    (plainFields.has(field) ? row : secret)[field] = fieldValue;
+  });
+  if (Object.keys(secret).length === 0) return value;
+
+  row[SEALED_FIELD] = encryptText(key, serialize(secret));
+  return row;
+}
+
+/**
+ * Расшифровать запись; незашифрованные записи возвращаются как есть
+ */
+function openRow(key: Uint8Array, value: unknown): unknown {
+  if (!isSealed(value)) return value;
+
+  const { [SEALED_FIELD]: sealed, ...row } = value;
+  let json: string;
+  try {
+    json = decryptText(key, sealed);
+  } catch {
+    throw new Error('Data could not be decrypted with the current passphrase');
+  }
+  return { ...row, ...deserialize(json) };
+}
+
+/**
+ * Курсор, который отдаёт расшифрованные записи
+ * Запись расшифровывается один раз на шаг курсора, при первом обращении к ней
+ */
+function createOpenedCursor(cursor: DBCoreCursor, key: Uint8Array): DBCoreCursor {
+  let sealed: unknown;
+  let opened: unknown;
+  return Object.create(cursor, {
+    key: { get: () => cursor.key },
+    primaryKey: { get: () => cursor.primaryKey },
+    value: {
+      get: () => {
+        if (cursor.value !== sealed) {
+          sealed = cursor.value;
+          opened = openRow(key, sealed);
+        }
+        return opened;
+      },
+    },
+    done: { get: () => cursor.done },
+  });
+}
+
+/**
+ * Запрет запросов по индексам зашифрованных полей: иначе where()/orderBy() молча вернули бы пустой
+ * или неполный результат
+ */
+function assertQueryable(tableName: string, index: DBCoreIndex): void {
+  if (index.name && SENSITIVE_INDEXES.includes(index.name)) {
+    throw new Error(`Index "${index.name}" of ${tableName} cannot be queried while the data is encrypted`);
+  }
+}
+
+function createEncryptedTable(downTable: DBCoreTable, getKey: () => Uint8Array | null): DBCoreTable {
+  const { name } = downTable;
+  const plainFields = getPlainFields(downTable.schema);
+
+  const openRows = (rows: unknown[], key: Uint8Array | null): unknown[] =>
+    key ? rows.map((row) => openRow(key, row)) : rows;
+
+  return {
+    ...downTable,
+    async mutate(req) {
+      const key = getKey();
+      if (!key || (req.type !== 'add' && req.type !== 'put')) {
+        return downTable.mutate(req);
+      }
+      const values = req.values.map((value) => sealRow(key, value, plainFields));
+      return downTable.mutate({ ...req, values });
+    },
+    async get(req) {
+      const key = getKey();
+      const [value] = openRows([await downTable.get(req)], key);
+      return value;
+    },
+    async getMany(req) {
+      const key = getKey();
+      return openRows(await downTable.getMany(req), key);
+    },
+    async query(req) {
+      const key = getKey();
+      if (key) assertQueryable(name, req.query.index);
+      const response = await downTable.query(req);
+      return req.values ? { ...response, result: openRows(response.result, key) } : response;
+    },
+    async openCursor(req) {
+      const key = getKey();
+      if (key) assertQueryable(name, req.query.index);
+      const cursor = await downTable.openCursor(req);
+      return key && cursor && req.values ? createOpenedCursor(cursor, key) : cursor;
+    },
+    async count(req) {
+      if (getKey()) assertQueryable(name, req.query.index);
+      return downTable.count(req);
+    },
+  };
+}
+
+/**
+ * Слой Dexie, который шифрует записи при сохранении и расшифровывает при чтении
+ * Стоит ниже хуков и кэшей Dexie, поэтому журнал, история отмены и liveQuery видят расшифрованные записи
+ * Без ключа записи проходят как есть — так копируются данные заблокированного профиля
+ */
+export function createEncryptionMiddleware(
+  getKey: () => Uint8Array | null,
+  plainTables: string[]
+): Middleware<DBCore> {
+  return {
+    stack: 'dbcore',
+    name: 'Encryption',
+    level: -2,
+    create: (downCore) => {
+      const tables = new Map<string, DBCoreTable>();
+      return {
+        ...downCore,
+        table(tableName) {
+          let table = tables.get(tableName);
+          if (!table) {
+            const downTable = downCore.table(tableName);
+            table = plainTables.includes(tableName) ? downTable : createEncryptedTable(downTable, getKey);
+            tables.set(tableName, table);
+          }
+          return table;
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import { db } from './database';
+import { setChangeReason } from './changeLog';
+import type { HistoryChange, HistoryEntry } from '@/types/models';
+
+/**
+ * Состояние записей до действия по транзакциям, которые сейчас записываются
+ * Ключ — имя таблицы, затем id записи; undefined — записи не было
+ */
+const recordings = new Map<Transaction, Map<string, Map<string, unknown>>>();
+
+/**
+ * Найти запись действия по транзакции (вложенные транзакции сервисов относятся к внешней)
+ */
+function findRecording(transaction: Transaction): Map<string, Map<string, unknown>> | undefined {
+  for (let current: Transaction | undefined = transaction; current; current = current.parent) {
+    const recording = recordings.get(current);
+    if (recording) return recording;
+  }
+  return undefined;
+}
+
+/**
+ * Запомнить запись до первого изменения в рамках действия
+ */
+function rememberBefore(transaction: Transaction, table: string, key: string, before: unknown): void {
+  const recording = findRecording(transaction);
+  if (!recording) return;
+
+  let rows = recording.get(table);
+  if (!rows) {
+    rows = new Map();
+    recording.set(table, rows);
+  }
+  if (!rows.has(key)) {
+    rows.set(key, before === undefined ? undefined : Dexie.deepClone(before));
+  }
+}
+
+// Хуки видят каждое изменение, в том числе каскадные изменения внутри сервисов
+// Параметры шифрования меняются только через сервис шифрования и не отменяются
+db.tables
+  .filter((table) => table.name !== db.changeLog.name && table.name !== db.vault.name)
+  .forEach((table) => {
+    table.hook('creating', (primKey, obj, transaction) => {
+      rememberBefore(transaction, table.name, primKey ?? obj.id, undefined);
+    });
+    table.hook('updating', (_modifications, primKey, obj, transaction) => {
+      rememberBefore(transaction, table.name, primKey, obj);
+    });
+    table.hook('deleting', (primKey, obj, transaction) => {
+      rememberBefore(transaction, table.name, primKey, obj);
+    });
+  });
+
+/**
+ * Совпадают ли две записи по содержимому; поля со значением undefined считаются отсутствующими
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = (value: Record<string, unknown>) => Object.keys(value).filter((key) => value[key] !== undefined);
+  const leftKeys = keys(left);
+  return leftKeys.length === keys(right).length && leftKeys.every((key) => isSameValue(left[key], right[key]));
+}
+
+/**
+ * Записать таблицы в состояние до или после действий
+ * Записи проверяются перед изменением: если хоть одна уже не в том состоянии, в котором её оставило
+ * действие или его отмена (например, её изменили в другой вкладке), ничего не записывается и возвращается false
+ */
+async function applyChanges(changes: HistoryChange[], state: 'before' | 'after', reason: string): Promise<boolean> {
+  const expected = state === 'before' ? 'after' : 'before';
+  return db.transaction('rw', db.tables, async () => {
+    for (const change of changes) {
+      const current = await db.table(change.table).get(change.key);
+      if (!isSameValue(current, change[expected])) return false;
+    }
+
+    setChangeReason(Dexie.currentTransaction, reason);
+    for (const change of changes) {
+      const value = change[state];
+      if (value === undefined) {
+        await db.table(change.table).delete(change.key);
+      } else {
+        await db.table(change.table).put(value);
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Сервис истории изменений для отмены и повтора действий
+ */
+export const historyService = {
+  /**
+   * Выполнить действие в одной транзакции и собрать изменённые им записи
+   * Возвращает null, если действие ничего не изменило
+   */
+  async record(label: string, action: () => Promise<unknown>, destructive = false): Promise<HistoryEntry | null> {
+    const changes: HistoryChange[] = [];
+
+    await db.transaction('rw', db.tables, async () => {
+      const transaction = Dexie.currentTransaction;
+      setChangeReason(transaction, label);
+      const recording = new Map<string, Map<string, unknown>>();
+      recordings.set(transaction, recording);
+      try {
+        await action();
+      } finally {
+        recordings.delete(transaction);
+      }
+
+      for (const [table, rows] of recording) {
+        const keys = [...rows.keys()];
+        const after = await db.table(table).bulkGet(keys);
+        keys.forEach((key, index) => {
+          const before = rows.get(key);
+          // Запись, созданная и удалённая в одном действии, в истории не нужна
+          if (before !== undefined || after[index] !== undefined) {
+            changes.push({ table, key, before, after: after[index] });
+          }
+        });
+      }
+    });
+
+    return changes.length > 0 ? { label, destructive, changes } : null;
+  },
+
+  /**
+   * Вернуть записи действия в состояние до него
+   * false — записи изменились после действия, и отмена не выполнена
+   */
+  async undo(entry: HistoryEntry): Promise<boolean> {
+    return applyChanges(entry.changes, 'before', `Undo: ${entry.label}`);
+  },
+
+  /**
+   * Повторить действие, вернув записи в состояние после него
+   * false — записи изменились после отмены, и повтор не выполнен
+   */
+  async redo(entry: HistoryEntry): Promise<boolean> {
+    return applyChanges(entry.changes, 'after', `Redo: ${entry.label}`);
+  },
+};
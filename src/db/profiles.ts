@@ -0,0 +1,187 @@
+import Dexie, { Table } from 'dexie';
+import { db, WisprFlowDatabase, DEFAULT_DATABASE_NAME, ACTIVE_DATABASE_KEY } from './database';
+import type { Profile } from '@/types/models';
+
+/**
+ * Название профиля, в который попадают данные, созданные до появления профилей
+ */
+const DEFAULT_PROFILE_NAME = 'Personal';
+
+/**
+ * Список профилей хранится отдельно от данных: он общий для всех профилей
+ */
+class ProfilesDatabase extends Dexie {
+  profiles!: Table<Profile, string>;
+
+  constructor() {
+    super('WisprFlowProfilesDB');
+
+    // Version 1 - profile registry
+    this.version(1).stores({
+      profiles: 'id, name, databaseName, createdAt',
+    });
+  }
+}
+
+const profilesDb = new ProfilesDatabase();
+
+/**
+ * Скопировать таблицы данных из одной базы в другую (журнал изменений не копируется)
+ * Копия шифруется тем же ключом; данные заблокированного профиля копируются как есть
+ */
+async function copyTables(source: WisprFlowDatabase, target: WisprFlowDatabase): Promise<void> {
+  target.encryptionKey = source.encryptionKey;
+  const tables = source.tables.filter((table) => table.name !== source.changeLog.name);
+  for (const table of tables) {
+    const rows = await table.toArray();
+    await target.table(table.name).bulkAdd(rows);
+  }
+}
+
+/**
+ * Открыть профиль: страница перезагружается с базой данных профиля
+ * Другие вкладки остаются в своих профилях, а новые откроются с этим
+ */
+function openDatabase(databaseName: string): void {
+  sessionStorage.setItem(ACTIVE_DATABASE_KEY, databaseName);
+  localStorage.setItem(ACTIVE_DATABASE_KEY, databaseName);
+  window.location.reload();
+}
+
+/**
+ * Сервис для работы с профилями
+ */
+export const profileService = {
+  /**
+   * Получить все профили в порядке создания
+   * При первом запуске существующие данные оформляются профилем по умолчанию
+   */
+  async getAll(): Promise<Profile[]> {
+    const profiles = await profilesDb.profiles.orderBy('createdAt').toArray();
+    if (profiles.length > 0) return profiles;
+
+    const now = new Date();
+    const profile: Profile = {
+      id: crypto.randomUUID(),
+      name: DEFAULT_PROFILE_NAME,
+      databaseName: DEFAULT_DATABASE_NAME,
+      createdAt: now,
+      updatedAt: now,
+    };
+    // Две вкладки могут создавать профиль по умолчанию одновременно
+    await profilesDb.transaction('rw', profilesDb.profiles, async () => {
+      if ((await profilesDb.profiles.count()) === 0) {
+        await profilesDb.profiles.add(profile);
+      }
+    });
+    return profilesDb.profiles.orderBy('createdAt').toArray();
+  },
+
+  /**
+   * Профиль, открытый в этой вкладке
+   */
+  async getActive(): Promise<Profile | undefined> {
+    const profiles = await this.getAll();
+    return profiles.find((profile) => profile.databaseName === db.name);
+  },
+
+  /**
+   * Проверить, что вкладка открыта с базой данных существующего профиля
+   * Сохранённый выбор может указывать на профиль, удалённый в другой вкладке: тогда открывается профиль
+   * по умолчанию (первый в списке), а не создаётся заново пустая база. false — страница перезагружается
+   */
+  async ensureActive(): Promise<boolean> {
+    const profiles = await this.getAll();
+    if (profiles.some((profile) => profile.databaseName === db.name)) return true;
+
+    openDatabase(profiles[0].databaseName);
+    return false;
+  },
+
+  /**
+   * Создать пустой профиль
+   */
+  async create(name: string): Promise<Profile> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+    const profile: Profile = {
+      id,
+      name,
+      databaseName: `${DEFAULT_DATABASE_NAME}-${id}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await profilesDb.profiles.add(profile);
+    return profile;
+  },
+
+  /**
+   * Переименовать профиль
+   */
+  async rename(id: string, name: string): Promise<void> {
+    await profilesDb.profiles.update(id, { name, updatedAt: new Date() });
+  },
+
+  /**
+   * Создать профиль с копией всех данных другого профиля
+   */
+  async duplicate(id: string, name: string): Promise<Profile> {
+    const original = await profilesDb.profiles.get(id);
+    if (!original) {
+      throw new Error('Profile not found');
+    }
+
+    const profile = await this.create(name);
+    const source = original.databaseName === db.name ? db : new WisprFlowDatabase(original.databaseName);
+    const target = new WisprFlowDatabase(profile.databaseName);
+    try {
+      await copyTables(source, target);
+    } catch (error) {
+      target.close();
+      await Dexie.delete(profile.databaseName);
+      await profilesDb.profiles.delete(profile.id);
+      throw error;
+    } finally {
+      if (source !== db) source.close();
+      target.close();
+    }
+    return profile;
+  },
+
+  /**
+   * Удалить профиль вместе с его данными
+   * Последний профиль удалить нельзя; при удалении открытого профиля открывается первый из оставшихся
+   */
+  async delete(id: string): Promise<void> {
+    const profiles = await this.getAll();
+    const profile = profiles.find((item) => item.id === id);
+    if (!profile) return;
+
+    const remaining = profiles.filter((item) => item.id !== id);
+    if (remaining.length === 0) {
+      throw new Error('The last profile cannot be deleted');
+    }
+
+    await profilesDb.profiles.delete(id);
+    if (profile.databaseName === db.name) {
+      db.close();
+      await Dexie.delete(profile.databaseName);
+      openDatabase(remaining[0].databaseName);
+      return;
+    }
+    await Dexie.delete(profile.databaseName);
+  },
+
+  /**
+   * Переключиться на профиль
+   */
+  async switchTo(id: string): Promise<void> {
+    const profile = await profilesDb.profiles.get(id);
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+    if (profile.databaseName !== db.name) {
+      openDatabase(profile.databaseName);
+    }
+  },
+};
@@ -1,48 +1,1404 @@
-import { db } from './database';
+import {
+  db,
+  DEFAULT_EXPECTED_RETURN_RATE,
+  DEFAULT_INFLATION_RATE,
+  DEFAULT_GOAL_ALLOCATION,
+  DEFAULT_TAX_RESERVE_RATES,
+} from './database';
+import {
+  calculateSourceAmountForMonth,
+  compareMonths,
+  getEffectiveAmount,
+  getSourcePause,
+  isSourceInRange,
+  upsertAmountChange,
+  calculateGoalTargetAmount,
+} from '@/utils/calculations';
+import { allocateSavings } from '@/utils/goalAllocation';
 import type {
   IncomeSource,
-  Savings,
+  IncomeAmountChange,
+  Account,
+  AccountSnapshot,
+  AccountTransfer,
+  NetWorthItem,
+  NetWorthValuation,
+  Debt,
   Goal,
   AppSettings,
   MonthlyIncome,
   MonthlySavings,
-  IncomeType
+  ImportRule,
+  CsvImportRow,
+  ExpenseCategory,
+  RecurringExpense,
+  MonthlyExpense,
+  GoalContribution,
+  AmountBasis,
+  TaxProfile,
+  TaxPayment,
+  IntegrityReport,
+  HouseholdMember,
+  SplitRule,
 } from '@/types/models';
+import { IncomeType } from '@/types/models';
+
+/**
+ * История сумм источника; без истории текущая сумма действует с месяца создания
+ */
+function getAmountHistory(source: IncomeSource): IncomeAmountChange[] {
+  if (source.amountHistory && source.amountHistory.length > 0) {
+    return source.amountHistory;
+  }
+  const createdAt = new Date(source.createdAt);
+  return [{ year: createdAt.getFullYear(), month: createdAt.getMonth() + 1, amount: source.amount }];
+}
+
+/**
+ * Изменения месячного дохода, чтобы он соответствовал паузам источника
+ * Месяц паузы выключается с причиной; после снятия паузы включается обратно
+ */
+function getPauseChanges(source: IncomeSource, income: MonthlyIncome): Partial<MonthlyIncome> {
+  const pause = getSourcePause(source, income.year, income.month);
+  if (pause) {
+    const inactiveReason = pause.reason || 'Paused';
+    return income.isActive || income.inactiveReason !== inactiveReason
+      ? { isActive: false, inactiveReason }
+      : {};
+  }
+
+  // Месяцы, выключенные пользователем вручную (без причины), не трогаем
+  return income.inactiveReason ? { isActive: source.isActive, inactiveReason: undefined } : {};
+}
 
 /**
  * Сервис для работы с источниками дохода
  */
 export const incomeService = {
   /**
-   * Получить все источники дохода
+   * Получить все источники дохода
+   */
+  async getAll(): Promise<IncomeSource[]> {
+    return await db.incomeSources.toArray();
+  },
+
+  /**
+   * Получить активные источники дохода
+   */
+  async getActive(): Promise<IncomeSource[]> {
+    return await db.incomeSources.where('isActive').equals(1).toArray();
+  },
+
+  /**
+   * Получить источник дохода по ID
+   */
+  async getById(id: string): Promise<IncomeSource | undefined> {
+    return await db.incomeSources.get(id);
+  },
+
+  /**
+   * Добавить новый источник дохода
+   */
+  async add(source: Omit<IncomeSource, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.incomeSources.add({
+      amountHistory: [{ year: now.getFullYear(), month: now.getMonth() + 1, amount: source.amount }],
+      ...source,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
+  },
+
+  /**
+   * Обновить источник дохода
+   * Новая сумма записывается в историю с текущего месяца, прошлые месяцы сохраняют прежнюю
+   */
+  async update(id: string, updates: Partial<IncomeSource>): Promise<void> {
+    const changes = { ...updates };
+
+    if (updates.amount !== undefined && updates.amountHistory === undefined) {
+      const existing = await this.getById(id);
+      if (existing && existing.amount !== updates.amount) {
+        const now = new Date();
+        changes.amountHistory = upsertAmountChange(getAmountHistory(existing), {
+          year: now.getFullYear(),
+          month: now.getMonth() + 1,
+          amount: updates.amount,
+        });
+      }
+    }
+
+    await db.incomeSources.update(id, {
+      ...changes,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Запланировать изменение суммы с указанного месяца (в том числе будущее повышение)
+   * Изменение с того же месяца заменяется
+   */
+  async setAmountChange(id: string, change: IncomeAmountChange): Promise<void> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      throw new Error('Income source not found');
+    }
+
+    const amountHistory = upsertAmountChange(getAmountHistory(existing), change);
+    await this.saveAmountHistory(id, amountHistory);
+  },
+
+  /**
+   * Удалить изменение суммы с указанного месяца
+   */
+  async removeAmountChange(id: string, year: number, month: number): Promise<void> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      throw new Error('Income source not found');
+    }
+
+    const amountHistory = getAmountHistory(existing).filter(
+      (change) => compareMonths(change, { year, month }) !== 0
+    );
+    if (amountHistory.length === 0) {
+      throw new Error('An income source must keep at least one amount');
+    }
+
+    await this.saveAmountHistory(id, amountHistory);
+  },
+
+  /**
+   * Сохранить историю сумм и синхронизировать с ней текущую сумму
+   */
+  async saveAmountHistory(id: string, amountHistory: IncomeAmountChange[]): Promise<void> {
+    const now = new Date();
+    const amount = getEffectiveAmount(
+      { amount: amountHistory[0].amount, amountHistory },
+      now.getFullYear(),
+      now.getMonth() + 1
+    );
+
+    await db.incomeSources.update(id, {
+      amount,
+      amountHistory,
+      updatedAt: now,
+    });
+  },
+
+  /**
+   * Обновить текущие суммы источников, у которых наступило запланированное изменение
+   */
+  async syncCurrentAmounts(): Promise<void> {
+    const now = new Date();
+    const sources = await this.getAll();
+
+    for (const source of sources) {
+      const amount = getEffectiveAmount(source, now.getFullYear(), now.getMonth() + 1);
+      if (amount !== source.amount) {
+        await db.incomeSources.update(source.id, { amount, updatedAt: now });
+      }
+    }
+  },
+
+  /**
+   * Удалить источник дохода
+   */
+  async delete(id: string): Promise<void> {
+    await db.incomeSources.delete(id);
+  },
+
+  /**
+   * Получить источники по типу
+   */
+  async getByType(type: IncomeType): Promise<IncomeSource[]> {
+    return await db.incomeSources.where('type').equals(type).toArray();
+  },
+};
+
+/**
+ * Сервис для работы со счетами накоплений
+ */
+export const accountService = {
+  /**
+   * Получить все счета в порядке создания
+   */
+  async getAll(): Promise<Account[]> {
+    return await db.accounts.orderBy('createdAt').toArray();
+  },
+
+  /**
+   * Получить счёт по ID
+   */
+  async getById(id: string): Promise<Account | undefined> {
+    return await db.accounts.get(id);
+  },
+
+  /**
+   * Добавить счёт
+   * Начальный баланс записывается снимком на сегодня
+   */
+  async add(
+    account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>,
+    openingBalance: number = 0
+  ): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.accounts.add({
+      ...account,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await accountSnapshotService.add({
+      accountId: id,
+      date: now,
+      balance: openingBalance,
+      note: 'Opening balance',
+    });
+
+    return id;
+  },
+
+  /**
+   * Обновить счёт
+   */
+  async update(id: string, updates: Partial<Account>): Promise<void> {
+    await db.accounts.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Удалить счёт вместе со снимками и переводами; цели отвязываются от счёта
+   */
+  async delete(id: string): Promise<void> {
+    await db.accountSnapshots.where('accountId').equals(id).delete();
+    await db.accountTransfers.where('fromAccountId').equals(id).delete();
+    await db.accountTransfers.where('toAccountId').equals(id).delete();
+    await db.goals.where('accountId').equals(id).modify((goal) => {
+      delete goal.accountId;
+    });
+    await db.accounts.delete(id);
+  },
+};
+
+/**
+ * Сервис для работы со снимками балансов счетов
+ */
+export const accountSnapshotService = {
+  /**
+   * Получить все снимки по дате
+   */
+  async getAll(): Promise<AccountSnapshot[]> {
+    return await db.accountSnapshots.orderBy('date').toArray();
+  },
+
+  /**
+   * Записать баланс счёта на дату
+   */
+  async add(snapshot: Omit<AccountSnapshot, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.accountSnapshots.add({
+      ...snapshot,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
+  },
+
+  /**
+   * Удалить снимок
+   */
+  async delete(id: string): Promise<void> {
+    await db.accountSnapshots.delete(id);
+  },
+};
+
+/**
+ * Сервис для работы с переводами между счетами
+ */
+export const accountTransferService = {
+  /**
+   * Получить все переводы по дате
+   */
+  async getAll(): Promise<AccountTransfer[]> {
+    return await db.accountTransfers.orderBy('date').toArray();
+  },
+
+  /**
+   * Добавить перевод
+   */
+  async add(transfer: Omit<AccountTransfer, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    if (transfer.fromAccountId === transfer.toAccountId) {
+      throw new Error('Cannot transfer to the same account');
+    }
+    if (!(transfer.amount > 0) || (transfer.receivedAmount !== undefined && !(transfer.receivedAmount > 0))) {
+      throw new Error('Transfer amount must be positive');
+    }
+
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.accountTransfers.add({
+      ...transfer,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
+  },
+
+  /**
+   * Удалить перевод
+   */
+  async delete(id: string): Promise<void> {
+    await db.accountTransfers.delete(id);
+  },
+};
+
+/**
+ * Сервис для работы с активами и обязательствами
+ */
+export const netWorthItemService = {
+  /**
+   * Получить все позиции в порядке создания
+   */
+  async getAll(): Promise<NetWorthItem[]> {
+    return await db.netWorthItems.orderBy('createdAt').toArray();
+  },
+
+  /**
+   * Добавить позицию
+   * Начальная стоимость записывается оценкой текущего месяца
+   */
+  async add(item: Omit<NetWorthItem, 'id' | 'createdAt' | 'updatedAt'>, value: number = 0): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.netWorthItems.add({
+      ...item,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await netWorthValuationService.setValue(id, now.getFullYear(), now.getMonth() + 1, value);
+
+    return id;
+  },
+
+  /**
+   * Обновить позицию
+   */
+  async update(id: string, updates: Partial<NetWorthItem>): Promise<void> {
+    await db.netWorthItems.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Удалить позицию вместе с её оценками
+   */
+  async delete(id: string): Promise<void> {
+    await db.netWorthValuations.where('itemId').equals(id).delete();
+    await db.netWorthItems.delete(id);
+  },
+};
+
+/**
+ * Сервис для работы с помесячными оценками активов и обязательств
+ */
+export const netWorthValuationService = {
+  /**
+   * Получить все оценки
+   */
+  async getAll(): Promise<NetWorthValuation[]> {
+    return await db.netWorthValuations.toArray();
+  },
+
+  /**
+   * Получить оценку позиции за конкретный месяц
+   */
+  async getByMonth(itemId: string, year: number, month: number): Promise<NetWorthValuation | undefined> {
+    return await db.netWorthValuations
+      .where('[itemId+year+month]')
+      .equals([itemId, year, month])
+      .first();
+  },
+
+  /**
+   * Установить/обновить оценку позиции за месяц
+   */
+  async setValue(itemId: string, year: number, month: number, value: number): Promise<void> {
+    const existing = await this.getByMonth(itemId, year, month);
+
+    if (existing) {
+      await db.netWorthValuations.update(existing.id, {
+        value,
+        updatedAt: new Date(),
+      });
+    } else {
+      const id = crypto.randomUUID();
+      const now = new Date();
+      await db.netWorthValuations.add({
+        id,
+        itemId,
+        year,
+        month,
+        value,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+
+  /**
+   * Удалить оценку позиции за месяц (будет действовать предыдущая)
+   */
+  async deleteByMonth(itemId: string, year: number, month: number): Promise<void> {
+    const existing = await this.getByMonth(itemId, year, month);
+    if (existing) {
+      await db.netWorthValuations.delete(existing.id);
+    }
+  },
+};
+
+/**
+ * Сервис для работы с долгами
+ */
+export const debtService = {
+  /**
+   * Получить все долги в заданном пользователем порядке
+   */
+  async getAll(): Promise<Debt[]> {
+    return await db.debts.orderBy('customOrder').toArray();
+  },
+
+  /**
+   * Добавить долг в конец пользовательского порядка
+   */
+  async add(debt: Omit<Debt, 'id' | 'customOrder' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+    const last = await db.debts.orderBy('customOrder').last();
+
+    await db.debts.add({
+      ...debt,
+      id,
+      customOrder: (last?.customOrder ?? 0) + 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
+  },
+
+  /**
+   * Обновить долг
+   */
+  async update(id: string, updates: Partial<Debt>): Promise<void> {
+    await db.debts.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Переставить долги в пользовательском порядке
+   */
+  async reorder(ids: string[]): Promise<void> {
+    const now = new Date();
+    await db.transaction('rw', db.debts, async () => {
+      for (const [index, id] of ids.entries()) {
+        await db.debts.update(id, { customOrder: index + 1, updatedAt: now });
+      }
+    });
+  },
+
+  /**
+   * Удалить долг
+   */
+  async delete(id: string): Promise<void> {
+    await db.debts.delete(id);
+  },
+};
+
+/**
+ * Сервис для работы с целями
+ */
+export const goalsService = {
+  /**
+   * Получить все цели в порядке приоритета
+   */
+  async getAll(): Promise<Goal[]> {
+    return await db.goals.orderBy('priority').toArray();
+  },
+
+  /**
+   * Получить цель по ID
+   */
+  async getById(id: string): Promise<Goal | undefined> {
+    return await db.goals.get(id);
+  },
+
+  /**
+   * Добавить новую цель
+   * Начальная сумма записывается в журнал взносов
+   */
+  async add(
+    goal: Omit<Goal, 'id' | 'currentAmount' | 'createdAt' | 'updatedAt'>,
+    startingAmount: number = 0
+  ): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.goals.add({
+      ...goal,
+      id,
+      currentAmount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (startingAmount > 0) {
+      await goalContributionService.add({
+        goalId: id,
+        date: now,
+        amount: startingAmount,
+        note: 'Opening balance',
+        isOpeningBalance: true,
+      });
+    }
+
+    return id;
+  },
+
+  /**
+   * Обновить цель
+   * Текущая сумма меняется только через журнал взносов
+   */
+  async update(id: string, updates: Partial<Omit<Goal, 'currentAmount'>>): Promise<void> {
+    await db.goals.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Удалить цель вместе с её журналом взносов
+   */
+  async delete(id: string): Promise<void> {
+    await db.goalContributions.where('goalId').equals(id).delete();
+    await db.goals.delete(id);
+  },
+};
+
+/**
+ * Сервис для работы с журналом взносов в цели
+ */
+export const goalContributionService = {
+  /**
+   * Получить все взносы по дате
+   */
+  async getAll(): Promise<GoalContribution[]> {
+    return await db.goalContributions.orderBy('date').toArray();
+  },
+
+  /**
+   * Получить взносы цели по дате
+   */
+  async getByGoal(goalId: string): Promise<GoalContribution[]> {
+    return await db.goalContributions.where('goalId').equals(goalId).sortBy('date');
+  },
+
+  /**
+   * Добавить взнос (или снятие — отрицательная сумма)
+   */
+  async add(contribution: Omit<GoalContribution, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    if (contribution.amount === 0) {
+      throw new Error('Contribution amount must not be zero');
+    }
+
+    if (contribution.amount < 0) {
+      const goal = await goalsService.getById(contribution.goalId);
+      if (!goal || goal.currentAmount + contribution.amount < 0) {
+        throw new Error('Withdrawal exceeds the goal balance');
+      }
+    }
+
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.goalContributions.add({
+      ...contribution,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await this.recalculateGoal(contribution.goalId);
+
+    return id;
+  },
+
+  /**
+   * Удалить взнос
+   */
+  async delete(id: string): Promise<void> {
+    const contribution = await db.goalContributions.get(id);
+    if (!contribution) return;
+
+    await db.goalContributions.delete(id);
+    await this.recalculateGoal(contribution.goalId);
+  },
+
+  /**
+   * Распределить накопления месяца между целями по стратегии из настроек
+   * Прежнее автоматическое распределение этого месяца заменяется;
+   * взносы, вручную привязанные к месяцу, вычитаются из распределяемой суммы
+   */
+  async allocateMonthlySavings(year: number, month: number): Promise<void> {
+    const savings = await monthlySavingsService.getByMonth(year, month);
+    if (!savings) return;
+
+    const linked = await db.goalContributions.where('monthlySavingsId').equals(savings.id).toArray();
+    const previous = linked.filter((contribution) => contribution.isAutoAllocated);
+    await db.goalContributions.bulkDelete(previous.map((contribution) => contribution.id));
+    for (const goalId of new Set(previous.map((contribution) => contribution.goalId))) {
+      await this.recalculateGoal(goalId);
+    }
+
+    const settings = await settingsService.get();
+    const strategy = settings?.goalAllocation ?? 'manual';
+    const manualAmount = linked
+      .filter((contribution) => !contribution.isAutoAllocated)
+      .reduce((sum, contribution) => sum + contribution.amount, 0);
+
+    const goals = await goalsService.getAll();
+    const allocations = allocateSavings(
+      savings.savedAmount - manualAmount,
+      goals.map((goal) => ({
+        id: goal.id,
+        priority: goal.priority,
+        remaining: calculateGoalTargetAmount(goal, settings?.inflationRate ?? 0) - goal.currentAmount,
+        fixedMonthlyAmount: goal.fixedMonthlyAmount,
+      })),
+      strategy
+    );
+
+    // Взнос датируется последним днём месяца накоплений
+    const date = new Date(year, month, 0);
+    const now = new Date();
+    for (const [goalId, amount] of allocations) {
+      await db.goalContributions.add({
+        id: crypto.randomUUID(),
+        goalId,
+        date,
+        amount,
+        note: 'Allocated from monthly savings',
+        monthlySavingsId: savings.id,
+        isAutoAllocated: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await this.recalculateGoal(goalId);
+    }
+  },
+
+  /**
+   * Пересчитать текущую сумму цели по журналу
+   */
+  async recalculateGoal(goalId: string): Promise<void> {
+    const contributions = await db.goalContributions.where('goalId').equals(goalId).toArray();
+    const currentAmount = contributions.reduce((sum, contribution) => sum + contribution.amount, 0);
+
+    await db.goals.update(goalId, {
+      currentAmount,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Пересчитать текущие суммы всех целей (например, после восстановления копии)
+   */
+  async recalculateAll(): Promise<void> {
+    const goals = await db.goals.toArray();
+    for (const goal of goals) {
+      await this.recalculateGoal(goal.id);
+    }
+  },
+};
+
+/**
+ * Сервис для работы с настройками
+ */
+export const settingsService = {
+  /**
+   * Получить настройки
+   */
+  async get(): Promise<AppSettings | undefined> {
+    const all = await db.settings.toArray();
+    return all[0]; // Должна быть только одна запись
+  },
+
+  /**
+   * Обновить настройки
+   */
+  async update(data: Partial<AppSettings>): Promise<void> {
+    const existing = await this.get();
+
+    if (existing) {
+      await db.settings.update(existing.id, {
+        ...data,
+        updatedAt: new Date(),
+      });
+    } else {
+      const id = crypto.randomUUID();
+      await db.settings.add({
+        savingsPercentage: 20,
+        expectedReturnRate: DEFAULT_EXPECTED_RETURN_RATE,
+        inflationRate: DEFAULT_INFLATION_RATE,
+        realTerms: false,
+        goalAllocation: DEFAULT_GOAL_ALLOCATION,
+        taxReserveRates: { ...DEFAULT_TAX_RESERVE_RATES },
+        currency: 'USD',
+        locale: 'en-US',
+        theme: 'light',
+        ...data,
+        id,
+        updatedAt: new Date(),
+      });
+    }
+  },
+
+  /**
+   * Инициализировать настройки по умолчанию
+   */
+  async initialize(): Promise<void> {
+    const existing = await this.get();
+    if (!existing) {
+      await this.update({
+        savingsPercentage: 20,
+        expectedReturnRate: DEFAULT_EXPECTED_RETURN_RATE,
+        inflationRate: DEFAULT_INFLATION_RATE,
+        realTerms: false,
+        goalAllocation: DEFAULT_GOAL_ALLOCATION,
+        taxReserveRates: { ...DEFAULT_TAX_RESERVE_RATES },
+        currency: 'USD',
+        locale: 'en-US',
+        theme: 'light',
+      });
+    }
+  },
+};
+
+/**
+ * Сервис для работы с месячными доходами
+ */
+export const monthlyIncomeService = {
+  /**
+   * Получить все месячные доходы
+   */
+  async getAll(): Promise<MonthlyIncome[]> {
+    return await db.monthlyIncomes.toArray();
+  },
+
+  /**
+   * Получить доходы за конкретный месяц
+   */
+  async getByMonth(year: number, month: number): Promise<MonthlyIncome[]> {
+    return await db.monthlyIncomes
+      .where('[year+month]')
+      .equals([year, month])
+      .toArray();
+  },
+
+  /**
+   * Получить доходы за год
+   */
+  async getByYear(year: number): Promise<MonthlyIncome[]> {
+    return await db.monthlyIncomes.where('year').equals(year).sortBy('month');
+  },
+
+  /**
+   * Добавить месячный доход (разовый)
+   */
+  async addOneTime(data: {
+    year: number;
+    month: number;
+    amount: number;
+    name: string;
+    type: IncomeType;
+    amountBasis: AmountBasis;
+    memberId?: string;
+  }): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.monthlyIncomes.add({
+      id,
+      year: data.year,
+      month: data.month,
+      incomeSourceId: null,
+      amount: data.amount,
+      name: data.name,
+      type: data.type,
+      amountBasis: data.amountBasis,
+      ...(data.memberId && { memberId: data.memberId }),
+      isActive: true,
+      isRecurring: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
+  },
+
+  /**
+   * Получить отпечатки всех импортированных из выписок доходов
+   * Отпечаток шифруется вместе с записью, поэтому индекс по нему не используется
+   */
+  async getImportFingerprints(): Promise<Set<string>> {
+    const incomes = await db.monthlyIncomes.toArray();
+    return new Set(incomes.flatMap((income) => (income.importFingerprint ? [income.importFingerprint] : [])));
+  },
+
+  /**
+   * Импортировать строки банковской выписки как разовые доходы
+   * Уже импортированные строки (по отпечатку) пропускаются
+   */
+  async importRows(rows: CsvImportRow[]): Promise<number> {
+    const existing = await this.getImportFingerprints();
+    const now = new Date();
+
+    const toAdd: MonthlyIncome[] = rows
+      .filter((row) => row.status === 'new' && !existing.has(row.fingerprint))
+      .map((row) => ({
+        id: crypto.randomUUID(),
+        year: row.year,
+        month: row.month,
+        incomeSourceId: null,
+        amount: row.amount,
+        name: row.description,
+        type: row.type,
+        amountBasis: 'net', // Поступления по выписке — уже на руки
+        isActive: true,
+        isRecurring: false,
+        importFingerprint: row.fingerprint,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+    await db.monthlyIncomes.bulkAdd(toAdd);
+    return toAdd.length;
+  },
+
+  /**
+   * Переключить активность месячного дохода
+   */
+  async toggleActive(id: string): Promise<void> {
+    const income = await db.monthlyIncomes.get(id);
+    if (income) {
+      await db.monthlyIncomes.update(id, {
+        isActive: !income.isActive,
+        inactiveReason: undefined, // Ручное переключение отменяет автоматическую причину
+        updatedAt: new Date(),
+      });
+    }
+  },
+
+  /**
+   * Отметить сумму месячного дохода как gross или net
+   */
+  async setAmountBasis(id: string, amountBasis: AmountBasis): Promise<void> {
+    await db.monthlyIncomes.update(id, {
+      amountBasis,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Обновить сумму месячного дохода
+   */
+  async updateAmount(id: string, amount: number): Promise<void> {
+    await db.monthlyIncomes.update(id, {
+      amount,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Удалить месячный доход
+   */
+  async delete(id: string): Promise<void> {
+    await db.monthlyIncomes.delete(id);
+  },
+
+  /**
+   * Генерировать месячные доходы из регулярных источников
+   * Сумма за месяц зависит от периодичности (см. calculateSourceAmountForMonth),
+   * месяцы без выплат пропускаются. Разовый доход создаётся только в месяц выплаты.
+   */
+  async generateFromSource(source: IncomeSource, startYear: number, startMonth: number, monthsCount: number = 12): Promise<void> {
+    const now = new Date();
+
+    const months: { year: number; month: number }[] = [];
+    if (source.frequency === 'one_time') {
+      const payoutDate = new Date(source.payoutDate ?? source.createdAt);
+      months.push({ year: payoutDate.getFullYear(), month: payoutDate.getMonth() + 1 });
+    } else {
+      for (let i = 0; i < monthsCount; i++) {
+        let year = startYear;
+        let month = startMonth + i;
+
+        // Корректировка года
+        while (month > 12) {
+          month -= 12;
+          year += 1;
+        }
+
+        months.push({ year, month });
+      }
+    }
+
+    for (const { year, month } of months) {
+      const amount = calculateSourceAmountForMonth(source, year, month);
+      if (amount === 0) continue;
+
+      // Проверить, существует ли уже запись
+      const existing = await db.monthlyIncomes
+        .where('[year+month]')
+        .equals([year, month])
+        .and((income) => income.incomeSourceId === source.id)
+        .first();
+
+      if (!existing) {
+        const id = crypto.randomUUID();
+        const pause = getSourcePause(source, year, month);
+        await db.monthlyIncomes.add({
+          id,
+          year,
+          month,
+          incomeSourceId: source.id,
+          amount,
+          name: source.name,
+          type: source.type,
+          amountBasis: source.amountBasis,
+          // Месяц паузы создаётся выключенным, чтобы было видно, почему нет дохода
+          isActive: source.isActive && !pause,
+          ...(pause && { inactiveReason: pause.reason || 'Paused' }),
+          ...(source.memberId && { memberId: source.memberId }),
+          isRecurring: true,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    }
+  },
+
+  /**
+   * Удалить месячные доходы, связанные с источником
+   * С after удаляются только месяцы после указанного
+   */
+  async deleteBySource(sourceId: string, after?: { year: number; month: number }): Promise<void> {
+    const toDelete = await db.monthlyIncomes
+      .where('incomeSourceId')
+      .equals(sourceId)
+      .filter((income) => !after || compareMonths(income, after) > 0)
+      .toArray();
+
+    const ids = toDelete.map((item) => item.id);
+    await db.monthlyIncomes.bulkDelete(ids);
+  },
+
+  /**
+   * Отвязать месячные доходы от источника: они остаются в истории как разовые
+   */
+  async detachBySource(sourceId: string): Promise<void> {
+    await db.monthlyIncomes
+      .where('incomeSourceId')
+      .equals(sourceId)
+      .modify({ incomeSourceId: null, isRecurring: false, updatedAt: new Date() });
+  },
+
+  /**
+   * Найти месячные доходы удалённых источников и повторные записи источника за один месяц
+   * Из повторов остаётся запись, изменённая последней
+   */
+  async checkIntegrity(): Promise<IntegrityReport> {
+    const [sources, incomes] = await Promise.all([db.incomeSources.toArray(), db.monthlyIncomes.toArray()]);
+    const sourceIds = new Set(sources.map((source) => source.id));
+
+    const orphanedIncomes = incomes.filter(
+      (income) => income.incomeSourceId !== null && !sourceIds.has(income.incomeSourceId)
+    );
+
+    const byMonth = new Map<string, MonthlyIncome[]>();
+    for (const income of incomes) {
+      if (income.incomeSourceId === null || !sourceIds.has(income.incomeSourceId)) continue;
+      const key = `${income.incomeSourceId}:${income.year}-${income.month}`;
+      byMonth.set(key, [...(byMonth.get(key) ?? []), income]);
+    }
+
+    const duplicateIncomes = [...byMonth.values()]
+      .filter((group) => group.length > 1)
+      .flatMap((group) =>
+        [...group].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()).slice(1)
+      );
+
+    return { orphanedIncomes, duplicateIncomes };
+  },
+
+  /**
+   * Исправить найденные нарушения целостности
+   * Будущие месяцы удалённых источников удаляются, прошлые остаются как разовые доходы; повторы удаляются
+   */
+  async repairIntegrity(): Promise<IntegrityReport> {
+    const report = await this.checkIntegrity();
+    const now = new Date();
+    const currentMonth = { year: now.getFullYear(), month: now.getMonth() + 1 };
+
+    const futureOrphans = report.orphanedIncomes.filter((income) => compareMonths(income, currentMonth) > 0);
+    const pastOrphans = report.orphanedIncomes.filter((income) => compareMonths(income, currentMonth) <= 0);
+
+    await db.monthlyIncomes.bulkDelete([...futureOrphans, ...report.duplicateIncomes].map((income) => income.id));
+    for (const income of pastOrphans) {
+      await db.monthlyIncomes.update(income.id, { incomeSourceId: null, isRecurring: false, updatedAt: now });
+    }
+
+    return report;
+  },
+
+  /**
+   * Обновить месячные доходы при изменении источника
+   * Сумма, название, тип и база суммы меняются только с месяца from (по умолчанию текущий), история не переписывается
+   * Период действия, паузы и член семьи применяются ко всем месяцам
+   */
+  async updateFromSource(source: IncomeSource, from?: { year: number; month: number }): Promise<void> {
+    const now = new Date();
+    const fromMonth = from ?? { year: now.getFullYear(), month: now.getMonth() + 1 };
+
+    const existing = await db.monthlyIncomes
+      .where('incomeSourceId')
+      .equals(source.id)
+      .toArray();
+
+    for (const income of existing) {
+      if (!isSourceInRange(source, income.year, income.month)) {
+        await db.monthlyIncomes.delete(income.id);
+        continue;
+      }
+
+      const changes: Partial<MonthlyIncome> = getPauseChanges(source, income);
+      if (income.memberId !== source.memberId) {
+        changes.memberId = source.memberId;
+      }
+
+      if (compareMonths(income, fromMonth) >= 0) {
+        // После смены периодичности в месяце может не остаться выплат
+        const amount = calculateSourceAmountForMonth(source, income.year, income.month);
+        if (amount === 0) {
+          await db.monthlyIncomes.delete(income.id);
+          continue;
+        }
+
+        Object.assign(changes, { amount, name: source.name, type: source.type, amountBasis: source.amountBasis });
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await db.monthlyIncomes.update(income.id, {
+          ...changes,
+          updatedAt: now,
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Сервис для работы с месячными накоплениями
+ */
+export const monthlySavingsService = {
+  /**
+   * Получить накопления за конкретный месяц
+   */
+  async getByMonth(year: number, month: number): Promise<MonthlySavings | undefined> {
+    const result = await db.monthlySavings
+      .where('[year+month]')
+      .equals([year, month])
+      .first();
+    return result;
+  },
+
+  /**
+   * Установить/обновить накопления за месяц и распределить их между целями
+   */
+  async setSavings(year: number, month: number, savedAmount: number, notes?: string): Promise<void> {
+    const existing = await this.getByMonth(year, month);
+
+    if (existing) {
+      await db.monthlySavings.update(existing.id, {
+        savedAmount,
+        notes,
+        updatedAt: new Date(),
+      });
+    } else {
+      const id = crypto.randomUUID();
+      const now = new Date();
+      await db.monthlySavings.add({
+        id,
+        year,
+        month,
+        savedAmount,
+        notes,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await goalContributionService.allocateMonthlySavings(year, month);
+  },
+
+  /**
+   * Записать накопления месяца по членам семьи
+   * Общая сумма — взносы членов семьи плюс общая часть, ни за кем не числящаяся
+   */
+  async setMemberSavings(
+    year: number,
+    month: number,
+    memberAmounts: Record<string, number>,
+    sharedAmount: number = 0
+  ): Promise<void> {
+    const savedAmount = Object.values(memberAmounts).reduce((sum, amount) => sum + amount, sharedAmount);
+    const existing = await this.getByMonth(year, month);
+    const now = new Date();
+
+    if (existing) {
+      await db.monthlySavings.update(existing.id, { savedAmount, memberAmounts, updatedAt: now });
+    } else {
+      await db.monthlySavings.add({
+        id: crypto.randomUUID(),
+        year,
+        month,
+        savedAmount,
+        memberAmounts,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await goalContributionService.allocateMonthlySavings(year, month);
+  },
+
+  /**
+   * Получить все накопления за год
+   */
+  async getByYear(year: number): Promise<MonthlySavings[]> {
+    return await db.monthlySavings.where('year').equals(year).sortBy('month');
+  },
+};
+
+/**
+ * Сервис для работы с правилами импорта выписок
+ */
+export const importRulesService = {
+  /**
+   * Получить все правила
+   */
+  async getAll(): Promise<ImportRule[]> {
+    return await db.importRules.orderBy('createdAt').toArray();
+  },
+
+  /**
+   * Сохранить правило (обновляет существующее с тем же шаблоном)
+   */
+  async save(pattern: string, type: IncomeType): Promise<void> {
+    const normalized = pattern.trim().toLowerCase();
+    if (!normalized) return;
+
+    const existing = await db.importRules
+      .filter((rule) => rule.pattern === normalized)
+      .first();
+
+    if (existing) {
+      await db.importRules.update(existing.id, {
+        type,
+        updatedAt: new Date(),
+      });
+    } else {
+      const now = new Date();
+      await db.importRules.add({
+        id: crypto.randomUUID(),
+        pattern: normalized,
+        type,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+
+  /**
+   * Удалить правило
+   */
+  async delete(id: string): Promise<void> {
+    await db.importRules.delete(id);
+  },
+};
+
+/**
+ * Категории расходов по умолчанию
+ */
+const DEFAULT_EXPENSE_CATEGORIES: { name: string; color: string }[] = [
+  { name: 'Housing', color: '#8b5cf6' },
+  { name: 'Food', color: '#10b981' },
+  { name: 'Transport', color: '#3b82f6' },
+  { name: 'Utilities', color: '#f59e0b' },
+  { name: 'Entertainment', color: '#ec4899' },
+  { name: 'Other', color: '#9ca3af' },
+];
+
+/**
+ * Сервис для работы с категориями расходов
+ */
+export const expenseCategoryService = {
+  /**
+   * Получить все категории
+   */
+  async getAll(): Promise<ExpenseCategory[]> {
+    return await db.expenseCategories.orderBy('createdAt').toArray();
+  },
+
+  /**
+   * Добавить категорию
+   */
+  async add(category: Omit<ExpenseCategory, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.expenseCategories.add({
+      ...category,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
+  },
+
+  /**
+   * Обновить категорию
+   */
+  async update(id: string, updates: Partial<ExpenseCategory>): Promise<void> {
+    await db.expenseCategories.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Удалить категорию
+   * Расходы удалённой категории переносятся в replacementId
    */
-  async getAll(): Promise<IncomeSource[]> {
-    return await db.incomeSources.toArray();
+  async delete(id: string, replacementId: string): Promise<void> {
+    await db.transaction('rw', [db.expenseCategories, db.recurringExpenses, db.monthlyExpenses], async () => {
+      await db.recurringExpenses.where('categoryId').equals(id).modify({ categoryId: replacementId });
+      await db.monthlyExpenses.where('categoryId').equals(id).modify({ categoryId: replacementId });
+      await db.expenseCategories.delete(id);
+    });
   },
 
   /**
-   * Получить активные источники дохода
+   * Создать категории по умолчанию (если их нет)
    */
-  async getActive(): Promise<IncomeSource[]> {
-    return await db.incomeSources.where('isActive').equals(1).toArray();
+  async initialize(): Promise<void> {
+    const count = await db.expenseCategories.count();
+    if (count === 0) {
+      for (const category of DEFAULT_EXPENSE_CATEGORIES) {
+        await this.add(category);
+      }
+    }
+  },
+};
+
+/**
+ * Налоговые профили по умолчанию (редактируемые)
+ * Ставки упрощены: только общие правила, без льгот и региональных надбавок
+ */
+const DEFAULT_TAX_PROFILES: Omit<TaxProfile, 'id' | 'createdAt' | 'updatedAt'>[] = [
+  {
+    name: 'Flat 13%',
+    deduction: 0,
+    brackets: [{ upTo: null, rate: 13 }],
+    flatRates: {},
+    socialRate: 0,
+    socialTypes: [],
+  },
+  {
+    name: 'Russia (NDFL 2025)',
+    deduction: 0,
+    brackets: [
+      { upTo: 2_400_000, rate: 13 },
+      { upTo: 5_000_000, rate: 15 },
+      { upTo: 20_000_000, rate: 18 },
+      { upTo: 50_000_000, rate: 20 },
+      { upTo: null, rate: 22 },
+    ],
+    // Самозанятость: 6% с юрлиц, 4% с физлиц
+    flatRates: { [IncomeType.FREELANCE]: 6, [IncomeType.SIDE_HUSTLE]: 4, [IncomeType.INVESTMENT]: 13 },
+    socialRate: 0,
+    socialTypes: [],
   },
+  {
+    name: 'US single (federal 2024)',
+    deduction: 14_600,
+    brackets: [
+      { upTo: 11_600, rate: 10 },
+      { upTo: 47_150, rate: 12 },
+      { upTo: 100_525, rate: 22 },
+      { upTo: 191_950, rate: 24 },
+      { upTo: 243_725, rate: 32 },
+      { upTo: 609_350, rate: 35 },
+      { upTo: null, rate: 37 },
+    ],
+    flatRates: { [IncomeType.INVESTMENT]: 15 },
+    // FICA: Social Security 6.2% до потолка и Medicare 1.45%
+    socialRate: 7.65,
+    socialCap: 168_600,
+    socialTypes: [IncomeType.SALARY, IncomeType.FREELANCE, IncomeType.SIDE_HUSTLE],
+  },
+];
 
+/**
+ * Сервис для работы с налоговыми профилями
+ */
+export const taxProfileService = {
   /**
-   * Получить источник дохода по ID
+   * Получить все профили
    */
-  async getById(id: string): Promise<IncomeSource | undefined> {
-    return await db.incomeSources.get(id);
+  async getAll(): Promise<TaxProfile[]> {
+    return await db.taxProfiles.orderBy('createdAt').toArray();
   },
 
   /**
-   * Добавить новый источник дохода
+   * Добавить профиль
    */
-  async add(source: Omit<IncomeSource, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  async add(profile: Omit<TaxProfile, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     const id = crypto.randomUUID();
     const now = new Date();
 
-    await db.incomeSources.add({
-      ...source,
+    await db.taxProfiles.add({
+      ...profile,
       id,
       createdAt: now,
       updatedAt: now,
@@ -52,104 +1408,103 @@ export const incomeService = {
   },
 
   /**
-   * Обновить источник дохода
+   * Обновить профиль
    */
-  async update(id: string, updates: Partial<IncomeSource>): Promise<void> {
-    await db.incomeSources.update(id, {
+  async update(id: string, updates: Partial<TaxProfile>): Promise<void> {
+    await db.taxProfiles.update(id, {
       ...updates,
       updatedAt: new Date(),
     });
   },
 
   /**
-   * Удалить источник дохода
+   * Удалить профиль; если он выбран в настройках, налоги перестают учитываться
    */
   async delete(id: string): Promise<void> {
-    await db.incomeSources.delete(id);
+    await db.transaction('rw', [db.taxProfiles, db.settings], async () => {
+      await db.settings.toCollection().modify((settings) => {
+        if (settings.taxProfileId === id) delete settings.taxProfileId;
+      });
+      await db.taxProfiles.delete(id);
+    });
   },
 
   /**
-   * Получить источники по типу
+   * Создать профили по умолчанию (если их нет)
    */
-  async getByType(type: IncomeType): Promise<IncomeSource[]> {
-    return await db.incomeSources.where('type').equals(type).toArray();
+  async initialize(): Promise<void> {
+    const count = await db.taxProfiles.count();
+    if (count === 0) {
+      for (const profile of DEFAULT_TAX_PROFILES) {
+        await this.add(profile);
+      }
+    }
   },
 };
 
 /**
- * Сервис для работы со сбережениями
+ * Сервис для работы с уплаченными квартальными налогами
  */
-export const savingsService = {
+export const taxPaymentService = {
   /**
-   * Получить текущие сбережения
+   * Получить все платежи
    */
-  async get(): Promise<Savings | undefined> {
-    const all = await db.savings.toArray();
-    return all[0]; // Должна быть только одна запись
+  async getAll(): Promise<TaxPayment[]> {
+    return await db.taxPayments.orderBy('date').toArray();
   },
 
   /**
-   * Обновить сбережения
+   * Добавить платёж
    */
-  async update(data: Omit<Savings, 'id' | 'updatedAt'>): Promise<void> {
-    const existing = await this.get();
+  async add(payment: Omit<TaxPayment, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
 
-    if (existing) {
-      await db.savings.update(existing.id, {
-        ...data,
-        updatedAt: new Date(),
-      });
-    } else {
-      const id = crypto.randomUUID();
-      await db.savings.add({
-        ...data,
-        id,
-        updatedAt: new Date(),
-      });
-    }
+    await db.taxPayments.add({
+      ...payment,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
   },
 
   /**
-   * Инициализировать сбережения (если их нет)
+   * Удалить платёж
    */
-  async initialize(): Promise<void> {
-    const existing = await this.get();
-    if (!existing) {
-      await this.update({
-        currentSavings: 0,
-        alreadySaved: 0,
-      });
-    }
+  async delete(id: string): Promise<void> {
+    await db.taxPayments.delete(id);
   },
 };
 
 /**
- * Сервис для работы с целями
+ * Сервис для работы с регулярными расходами
  */
-export const goalsService = {
+export const recurringExpenseService = {
   /**
-   * Получить все цели
+   * Получить все регулярные расходы
    */
-  async getAll(): Promise<Goal[]> {
-    return await db.goals.orderBy('createdAt').reverse().toArray();
+  async getAll(): Promise<RecurringExpense[]> {
+    return await db.recurringExpenses.orderBy('createdAt').toArray();
   },
 
   /**
-   * Получить цель по ID
+   * Получить регулярный расход по ID
    */
-  async getById(id: string): Promise<Goal | undefined> {
-    return await db.goals.get(id);
+  async getById(id: string): Promise<RecurringExpense | undefined> {
+    return await db.recurringExpenses.get(id);
   },
 
   /**
-   * Добавить новую цель
+   * Добавить регулярный расход
    */
-  async add(goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  async add(expense: Omit<RecurringExpense, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     const id = crypto.randomUUID();
     const now = new Date();
 
-    await db.goals.add({
-      ...goal,
+    await db.recurringExpenses.add({
+      ...expense,
       id,
       createdAt: now,
       updatedAt: now,
@@ -159,128 +1514,65 @@ export const goalsService = {
   },
 
   /**
-   * Обновить цель
+   * Обновить регулярный расход
    */
-  async update(id: string, updates: Partial<Goal>): Promise<void> {
-    await db.goals.update(id, {
+  async update(id: string, updates: Partial<RecurringExpense>): Promise<void> {
+    await db.recurringExpenses.update(id, {
       ...updates,
       updatedAt: new Date(),
     });
   },
 
   /**
-   * Удалить цель
+   * Удалить регулярный расход
    */
   async delete(id: string): Promise<void> {
-    await db.goals.delete(id);
-  },
-
-  /**
-   * Обновить прогресс цели
-   */
-  async updateProgress(id: string, amount: number): Promise<void> {
-    await db.goals.update(id, {
-      currentAmount: amount,
-      updatedAt: new Date(),
-    });
-  },
-};
-
-/**
- * Сервис для работы с настройками
- */
-export const settingsService = {
-  /**
-   * Получить настройки
-   */
-  async get(): Promise<AppSettings | undefined> {
-    const all = await db.settings.toArray();
-    return all[0]; // Должна быть только одна запись
-  },
-
-  /**
-   * Обновить настройки
-   */
-  async update(data: Partial<AppSettings>): Promise<void> {
-    const existing = await this.get();
-
-    if (existing) {
-      await db.settings.update(existing.id, {
-        ...data,
-        updatedAt: new Date(),
-      });
-    } else {
-      const id = crypto.randomUUID();
-      await db.settings.add({
-        savingsPercentage: 20,
-        currency: 'USD',
-        locale: 'en-US',
-        theme: 'light',
-        ...data,
-        id,
-        updatedAt: new Date(),
-      });
-    }
-  },
-
-  /**
-   * Инициализировать настройки по умолчанию
-   */
-  async initialize(): Promise<void> {
-    const existing = await this.get();
-    if (!existing) {
-      await this.update({
-        savingsPercentage: 20,
-        currency: 'USD',
-        locale: 'en-US',
-        theme: 'light',
-      });
-    }
+    await db.recurringExpenses.delete(id);
   },
 };
 
 /**
- * Сервис для работы с месячными доходами
+ * Сервис для работы с месячными расходами
  */
-export const monthlyIncomeService = {
+export const monthlyExpenseService = {
   /**
-   * Получить доходы за конкретный месяц
+   * Получить расходы за конкретный месяц
    */
-  async getByMonth(year: number, month: number): Promise<MonthlyIncome[]> {
-    return await db.monthlyIncomes
+  async getByMonth(year: number, month: number): Promise<MonthlyExpense[]> {
+    return await db.monthlyExpenses
       .where('[year+month]')
       .equals([year, month])
       .toArray();
   },
 
   /**
-   * Получить доходы за год
+   * Получить расходы за год
    */
-  async getByYear(year: number): Promise<MonthlyIncome[]> {
-    return await db.monthlyIncomes.where('year').equals(year).sortBy('month');
+  async getByYear(year: number): Promise<MonthlyExpense[]> {
+    return await db.monthlyExpenses.where('year').equals(year).sortBy('month');
   },
 
   /**
-   * Добавить месячный доход (разовый)
+   * Добавить разовый расход
    */
   async addOneTime(data: {
     year: number;
     month: number;
     amount: number;
     name: string;
-    type: IncomeType;
+    categoryId: string;
   }): Promise<string> {
     const id = crypto.randomUUID();
     const now = new Date();
 
-    await db.monthlyIncomes.add({
+    await db.monthlyExpenses.add({
       id,
       year: data.year,
       month: data.month,
-      incomeSourceId: null,
+      recurringExpenseId: null,
+      categoryId: data.categoryId,
       amount: data.amount,
       name: data.name,
-      type: data.type,
       isActive: true,
       isRecurring: false,
       createdAt: now,
@@ -291,42 +1583,35 @@ export const monthlyIncomeService = {
   },
 
   /**
-   * Переключить активность месячного дохода
+   * Переключить активность месячного расхода
    */
   async toggleActive(id: string): Promise<void> {
-    const income = await db.monthlyIncomes.get(id);
-    if (income) {
-      await db.monthlyIncomes.update(id, {
-        isActive: !income.isActive,
+    const expense = await db.monthlyExpenses.get(id);
+    if (expense) {
+      await db.monthlyExpenses.update(id, {
+        isActive: !expense.isActive,
         updatedAt: new Date(),
       });
     }
   },
 
   /**
-   * Обновить сумму месячного дохода
-   */
-  async updateAmount(id: string, amount: number): Promise<void> {
-    await db.monthlyIncomes.update(id, {
-      amount,
-      updatedAt: new Date(),
-    });
-  },
-
-  /**
-   * Удалить месячный доход
+   * Удалить месячный расход
    */
   async delete(id: string): Promise<void> {
-    await db.monthlyIncomes.delete(id);
+    await db.monthlyExpenses.delete(id);
   },
 
   /**
-   * Генерировать месячные доходы из регулярных источников
-   * Вызывается при добавлении/изменении IncomeSource с frequency=monthly
+   * Генерировать месячные расходы из регулярного расхода
+   * Работает так же, как monthlyIncomeService.generateFromSource
    */
-  async generateFromSource(source: IncomeSource, startYear: number, startMonth: number, monthsCount: number = 12): Promise<void> {
-    if (source.frequency !== 'monthly') return;
-
+  async generateFromRecurring(
+    expense: RecurringExpense,
+    startYear: number,
+    startMonth: number,
+    monthsCount: number = 12
+  ): Promise<void> {
     const now = new Date();
 
     for (let i = 0; i < monthsCount; i++) {
@@ -340,23 +1625,22 @@ export const monthlyIncomeService = {
       }
 
       // Проверить, существует ли уже запись
-      const existing = await db.monthlyIncomes
+      const existing = await db.monthlyExpenses
         .where('[year+month]')
         .equals([year, month])
-        .and((income) => income.incomeSourceId === source.id)
+        .and((item) => item.recurringExpenseId === expense.id)
         .first();
 
       if (!existing) {
-        const id = crypto.randomUUID();
-        await db.monthlyIncomes.add({
-          id,
+        await db.monthlyExpenses.add({
+          id: crypto.randomUUID(),
           year,
           month,
-          incomeSourceId: source.id,
-          amount: source.amount,
-          name: source.name,
-          type: source.type,
-          isActive: source.isActive,
+          recurringExpenseId: expense.id,
+          categoryId: expense.categoryId,
+          amount: expense.amount,
+          name: expense.name,
+          isActive: expense.isActive,
           isRecurring: true,
           createdAt: now,
           updatedAt: now,
@@ -366,85 +1650,112 @@ export const monthlyIncomeService = {
   },
 
   /**
-   * Удалить все месячные доходы связанные с источником
+   * Удалить все месячные расходы, связанные с регулярным расходом
    */
-  async deleteBySource(sourceId: string): Promise<void> {
-    const toDelete = await db.monthlyIncomes
-      .where('incomeSourceId')
-      .equals(sourceId)
-      .toArray();
-
-    const ids = toDelete.map((item) => item.id);
-    await db.monthlyIncomes.bulkDelete(ids);
+  async deleteByRecurring(recurringExpenseId: string): Promise<void> {
+    await db.monthlyExpenses.where('recurringExpenseId').equals(recurringExpenseId).delete();
   },
 
   /**
-   * Обновить все месячные доходы при изменении источника
+   * Обновить все месячные расходы при изменении регулярного расхода
    */
-  async updateFromSource(source: IncomeSource): Promise<void> {
-    const existing = await db.monthlyIncomes
-      .where('incomeSourceId')
-      .equals(source.id)
-      .toArray();
-
-    for (const income of existing) {
-      await db.monthlyIncomes.update(income.id, {
-        amount: source.amount,
-        name: source.name,
-        type: source.type,
+  async updateFromRecurring(expense: RecurringExpense): Promise<void> {
+    await db.monthlyExpenses
+      .where('recurringExpenseId')
+      .equals(expense.id)
+      .modify({
+        amount: expense.amount,
+        name: expense.name,
+        categoryId: expense.categoryId,
         updatedAt: new Date(),
       });
-    }
   },
 };
 
 /**
- * Сервис для работы с месячными накоплениями
+ * Сервис для работы с членами семьи
  */
-export const monthlySavingsService = {
+export const householdMemberService = {
   /**
-   * Получить накопления за конкретный месяц
+   * Получить всех членов семьи в порядке добавления
    */
-  async getByMonth(year: number, month: number): Promise<MonthlySavings | undefined> {
-    const result = await db.monthlySavings
-      .where('[year+month]')
-      .equals([year, month])
-      .first();
-    return result;
+  async getAll(): Promise<HouseholdMember[]> {
+    return await db.householdMembers.orderBy('createdAt').toArray();
   },
 
   /**
-   * Установить/обновить накопления за месяц
+   * Добавить члена семьи
    */
-  async setSavings(year: number, month: number, savedAmount: number, notes?: string): Promise<void> {
-    const existing = await this.getByMonth(year, month);
+  async add(member: Omit<HouseholdMember, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
 
-    if (existing) {
-      await db.monthlySavings.update(existing.id, {
-        savedAmount,
-        notes,
-        updatedAt: new Date(),
-      });
-    } else {
-      const id = crypto.randomUUID();
-      const now = new Date();
-      await db.monthlySavings.add({
-        id,
-        year,
-        month,
-        savedAmount,
-        notes,
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
+    await db.householdMembers.add({
+      ...member,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
   },
 
   /**
-   * Получить все накопления за год
+   * Обновить члена семьи
    */
-  async getByYear(year: number): Promise<MonthlySavings[]> {
-    return await db.monthlySavings.where('year').equals(year).sortBy('month');
+  async update(id: string, updates: Partial<HouseholdMember>): Promise<void> {
+    await db.householdMembers.update(id, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  },
+
+  /**
+   * Удалить члена семьи
+   * Его доходы и взносы становятся общими, а доля в правилах деления убирается
+   */
+  async delete(id: string): Promise<void> {
+    const now = new Date();
+    const detach = (row: { memberId?: string; updatedAt: Date }) => {
+      delete row.memberId;
+      row.updatedAt = now;
+    };
+    const withoutMember = (split: SplitRule | undefined): SplitRule | undefined => {
+      if (!split?.shares || !(id in split.shares)) return split;
+      const shares = { ...split.shares };
+      delete shares[id];
+      return { ...split, shares };
+    };
+
+    await db.incomeSources.where('memberId').equals(id).modify(detach);
+    await db.monthlyIncomes.where('memberId').equals(id).modify(detach);
+    await db.goalContributions.where('memberId').equals(id).modify(detach);
+
+    // Отложенная сумма остаётся в накоплениях месяца, но больше ни за кем не числится
+    await db.monthlySavings
+      .filter((savings) => savings.memberAmounts !== undefined && id in savings.memberAmounts)
+      .modify((savings) => {
+        const memberAmounts = { ...savings.memberAmounts };
+        delete memberAmounts[id];
+        savings.memberAmounts = memberAmounts;
+        savings.updatedAt = now;
+      });
+
+    const goals = await db.goals.toArray();
+    for (const goal of goals) {
+      const split = withoutMember(goal.split);
+      if (split !== goal.split) {
+        await db.goals.update(goal.id, { split, updatedAt: now });
+      }
+    }
+
+    const settings = await settingsService.get();
+    const savingsSplit = withoutMember(settings?.savingsSplit);
+    if (settings && savingsSplit !== settings.savingsSplit) {
+      await settingsService.update({ savingsSplit });
+    }
+
+    await db.householdMembers.delete(id);
   },
 };
 
@@ -452,8 +1763,10 @@ export const monthlySavingsService = {
  * Инициализация базы данных с данными по умолчанию
  */
 export async function initializeDatabase(): Promise<void> {
-  await savingsService.initialize();
   await settingsService.initialize();
+  await expenseCategoryService.initialize();
+  await taxProfileService.initialize();
+  await incomeService.syncCurrentAmounts();
 
   // Генерируем месячные доходы для текущего года
   const now = new Date();
@@ -462,8 +1775,15 @@ export async function initializeDatabase(): Promise<void> {
 
   const sources = await incomeService.getAll();
   for (const source of sources) {
-    if (source.frequency === 'monthly' && source.isActive) {
+    if (source.isActive) {
       await monthlyIncomeService.generateFromSource(source, currentYear, currentMonth, 12);
     }
   }
+
+  const expenses = await recurringExpenseService.getAll();
+  for (const expense of expenses) {
+    if (expense.isActive) {
+      await monthlyExpenseService.generateFromRecurring(expense, currentYear, currentMonth, 12);
+    }
+  }
 }
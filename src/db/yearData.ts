@@ -0,0 +1,118 @@
+import { db, WisprFlowDatabase } from './database';
+import type { MonthlyIncome, MonthlySavings, MonthlyExpense } from '@/types/models';
+
+/**
+ * Месячные данные года, разложенные по месяцам (1-12)
+ */
+export interface YearData {
+  year: number;
+  incomes: Map<number, MonthlyIncome[]>;
+  savings: MonthlySavings[];
+  expenses: Map<number, MonthlyExpense[]>;
+}
+
+/**
+ * Загруженные годы по базам данных
+ */
+const yearCache = new WeakMap<WisprFlowDatabase, Map<number, YearData>>();
+
+function getYearCache(database: WisprFlowDatabase): Map<number, YearData> {
+  let cache = yearCache.get(database);
+  if (!cache) {
+    cache = new Map();
+    yearCache.set(database, cache);
+  }
+  return cache;
+}
+
+/**
+ * Совпадают ли записи поле в поле (даты сравниваются по времени)
+ */
+function isSameRecord(a: object, b: object): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  if (keys.length !== Object.keys(right).length) return false;
+
+  return keys.every((key) => {
+    const x = left[key];
+    const y = right[key];
+    if (x instanceof Date && y instanceof Date) return x.getTime() === y.getTime();
+    return x === y;
+  });
+}
+
+/**
+ * Разложить записи года по месяцам
+ * Если записи месяца не изменились, остаётся прежний массив: по нему помесячные расчёты берутся из кэша
+ */
+function groupByMonth<T extends { id: string; month: number }>(
+  items: T[],
+  previous?: Map<number, T[]>
+): Map<number, T[]> {
+  const byMonth = new Map<number, T[]>();
+  for (let month = 1; month <= 12; month++) {
+    byMonth.set(month, []);
+  }
+  items.forEach((item) => byMonth.get(item.month)?.push(item));
+
+  for (const [month, rows] of byMonth) {
+    const cached = previous?.get(month);
+    if (cached && cached.length === rows.length && cached.every((row, i) => isSameRecord(row, rows[i]))) {
+      byMonth.set(month, cached);
+    }
+  }
+  return byMonth;
+}
+
+/**
+ * Последние загруженные данные года (без обращения к базе)
+ */
+export function getCachedYearData(year: number, database: WisprFlowDatabase = db): YearData | undefined {
+  return getYearCache(database).get(year);
+}
+
+/**
+ * Загрузить месячные доходы, накопления и расходы за год
+ * По одному диапазонному запросу на таблицу; неизменившиеся месяцы переиспользуются из кэша
+ */
+export async function loadYearData(year: number, database: WisprFlowDatabase = db): Promise<YearData> {
+  const [incomes, savings, expenses] = await database.transaction(
+    'r',
+    [database.monthlyIncomes, database.monthlySavings, database.monthlyExpenses],
+    () =>
+      Promise.all([
+        database.monthlyIncomes.where('[year+month]').between([year, 1], [year, 12], true, true).toArray(),
+        database.monthlySavings.where('[year+month]').between([year, 1], [year, 12], true, true).toArray(),
+        database.monthlyExpenses.where('[year+month]').between([year, 1], [year, 12], true, true).toArray(),
+      ])
+  );
+
+  const cache = getYearCache(database);
+  const previous = cache.get(year);
+  const data: YearData = {
+    year,
+    incomes: groupByMonth(incomes, previous?.incomes),
+    savings,
+    expenses: groupByMonth(expenses, previous?.expenses),
+  };
+  cache.set(year, data);
+  return data;
+}
+
+/**
+ * Разложить уже загруженные записи по месяцам года (без кэша)
+ */
+export function groupYearData(
+  year: number,
+  incomes: MonthlyIncome[],
+  savings: MonthlySavings[],
+  expenses: MonthlyExpense[]
+): YearData {
+  return {
+    year,
+    incomes: groupByMonth(incomes.filter((item) => item.year === year)),
+    savings: savings.filter((item) => item.year === year).sort((a, b) => a.month - b.month),
+    expenses: groupByMonth(expenses.filter((item) => item.year === year)),
+  };
+}
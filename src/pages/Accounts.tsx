@@ -0,0 +1,553 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useAppStore } from '@/store/useAppStore';
+import type { Account, AccountKind } from '@/types/models';
+import { Plus, Trash2, Edit2, Landmark, ArrowRightLeft, RefreshCw, X, AlertTriangle } from 'lucide-react';
+import { formatCurrency } from '@/utils/calculations';
+import { calculateAccountBalance, getTransferDelta, toBaseCurrency } from '@/utils/accounts';
+
+const kindLabels: Record<AccountKind, string> = {
+  deposit: 'Deposit',
+  brokerage: 'Brokerage',
+  cash: 'Cash',
+  checking: 'Checking',
+  other: 'Other',
+};
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'RUB', 'JPY', 'CNY'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const Accounts: React.FC = () => {
+  const {
+    accounts,
+    accountSnapshots,
+    accountTransfers,
+    goals,
+    settings,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    recordAccountBalance,
+    deleteAccountSnapshot,
+    addAccountTransfer,
+    deleteAccountTransfer,
+  } = useAppStore();
+
+  const baseCurrency = settings?.currency ?? 'USD';
+
+  // Account modal state
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AccountKind>('deposit');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [exchangeRate, setExchangeRate] = useState('');
+  const [interestRate, setInterestRate] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('');
+
+  const resetForm = () => {
+    setName('');
+    setKind('deposit');
+    setCurrency(baseCurrency);
+    setExchangeRate('');
+    setInterestRate('');
+    setOpeningBalance('');
+    setEditingId(null);
+  };
+
+  const handleOpenModal = (account?: Account) => {
+    if (account) {
+      setName(account.name);
+      setKind(account.kind);
+      setCurrency(account.currency);
+      setExchangeRate(account.exchangeRate?.toString() ?? '');
+      setInterestRate(account.interestRate?.toString() ?? '');
+      setEditingId(account.id);
+    } else {
+      resetForm();
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    resetForm();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = {
+      name,
+      kind,
+      currency,
+      // Курс нужен, только если валюта счёта отличается от основной
+      exchangeRate: currency !== baseCurrency && exchangeRate ? parseFloat(exchangeRate) : undefined,
+      // Пустое поле — использовать общую ожидаемую доходность
+      interestRate: interestRate === '' ? undefined : parseFloat(interestRate),
+    };
+
+    if (editingId) {
+      await updateAccount(editingId, data);
+    } else {
+      await addAccount(data, parseFloat(openingBalance) || 0);
+    }
+
+    handleCloseModal();
+  };
+
+  const handleDelete = async (account: Account) => {
+    await deleteAccount(account.id);
+  };
+
+  // Balance modal state
+  const [balanceAccount, setBalanceAccount] = useState<Account | null>(null);
+  const [balanceDate, setBalanceDate] = useState('');
+  const [balance, setBalance] = useState('');
+  const [balanceNote, setBalanceNote] = useState('');
+
+  const handleOpenBalance = (account: Account) => {
+    setBalanceAccount(account);
+    setBalanceDate(today());
+    setBalance(calculateAccountBalance(account.id, accountSnapshots, accountTransfers).toString());
+    setBalanceNote('');
+  };
+
+  const handleBalanceSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!balanceAccount) return;
+
+    await recordAccountBalance({
+      accountId: balanceAccount.id,
+      date: new Date(balanceDate),
+      balance: parseFloat(balance) || 0,
+      note: balanceNote || undefined,
+    });
+    setBalanceAccount(null);
+  };
+
+  // Transfer modal state
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [transferDate, setTransferDate] = useState('');
+  const [transferAmount, setTransferAmount] = useState('');
+  const [receivedAmount, setReceivedAmount] = useState('');
+  const [transferNote, setTransferNote] = useState('');
+  const [transferError, setTransferError] = useState<string | null>(null);
+
+  const fromAccount = accounts.find((account) => account.id === fromAccountId);
+  const toAccount = accounts.find((account) => account.id === toAccountId);
+  const isCrossCurrency = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  const handleOpenTransfer = (from?: Account) => {
+    const source = from ?? accounts[0];
+    setFromAccountId(source?.id ?? '');
+    setToAccountId(accounts.find((account) => account.id !== source?.id)?.id ?? '');
+    setTransferDate(today());
+    setTransferAmount('');
+    setReceivedAmount('');
+    setTransferNote('');
+    setTransferError(null);
+    setIsTransferOpen(true);
+  };
+
+  const handleCloseTransfer = () => {
+    setIsTransferOpen(false);
+    setTransferError(null);
+  };
+
+  const handleTransferSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await addAccountTransfer({
+      fromAccountId,
+      toAccountId,
+      date: new Date(transferDate),
+      amount: parseFloat(transferAmount),
+      receivedAmount: isCrossCurrency ? parseFloat(receivedAmount) : undefined,
+      note: transferNote || undefined,
+    });
+
+    // Ошибка (например, перевод на тот же счёт) остаётся в модальном окне
+    const { error } = useAppStore.getState();
+    if (error) {
+      setTransferError(error);
+      useAppStore.setState({ error: null });
+      return;
+    }
+    handleCloseTransfer();
+  };
+
+  const handleDeleteEntry = async (type: 'snapshot' | 'transfer', id: string) => {
+    if (type === 'snapshot') {
+      await deleteAccountSnapshot(id);
+    } else {
+      await deleteAccountTransfer(id);
+    }
+  };
+
+  const format = (value: number, accountCurrency: string = baseCurrency) =>
+    formatCurrency(value, accountCurrency, settings?.locale ?? 'en-US');
+
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name ?? 'Deleted account';
+
+  const balances = accounts.map((account) => {
+    const native = calculateAccountBalance(account.id, accountSnapshots, accountTransfers);
+    return { account, native, base: toBaseCurrency(native, account, baseCurrency) };
+  });
+  const total = balances.reduce((sum, item) => sum + item.base, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Accounts</h1>
+          <p className="text-gray-600">Where your savings are kept</p>
+        </div>
+        <div className="flex gap-2">
+          {accounts.length > 1 && (
+            <Button onClick={() => handleOpenTransfer()} variant="outline">
+              <ArrowRightLeft className="w-5 h-5 mr-2 inline" />
+              Transfer
+            </Button>
+          )}
+          <Button onClick={() => handleOpenModal()} variant="primary">
+            <Plus className="w-5 h-5 mr-2 inline" />
+            Add Account
+          </Button>
+        </div>
+      </div>
+
+      {accounts.length === 0 ? (
+        <Card>
+          <div className="text-center py-12">
+            <Landmark className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500 mb-4">No accounts yet</p>
+            <Button onClick={() => handleOpenModal()} variant="primary">
+              Add Your First Account
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-900 font-medium">Total across accounts</span>
+              <span className="text-2xl font-bold text-primary-600">{format(total)}</span>
+            </div>
+          </Card>
+
+          <div className="space-y-4">
+            {balances.map(({ account, native, base }) => {
+              const linkedGoals = goals.filter((goal) => goal.accountId === account.id);
+              const earmarked = linkedGoals.reduce((sum, goal) => sum + goal.currentAmount, 0);
+
+              // История счёта: снимки и переводы, новые сверху
+              const history = [
+                ...accountSnapshots
+                  .filter((snapshot) => snapshot.accountId === account.id)
+                  .map((snapshot) => ({
+                    type: 'snapshot' as const,
+                    id: snapshot.id,
+                    date: new Date(snapshot.date),
+                    label: `Balance set${snapshot.note ? ` · ${snapshot.note}` : ''}`,
+                    amount: snapshot.balance,
+                  })),
+                ...accountTransfers
+                  .filter((transfer) => getTransferDelta(account.id, transfer) !== 0)
+                  .map((transfer) => ({
+                    type: 'transfer' as const,
+                    id: transfer.id,
+                    date: new Date(transfer.date),
+                    label:
+                      (transfer.toAccountId === account.id
+                        ? `From ${accountName(transfer.fromAccountId)}`
+                        : `To ${accountName(transfer.toAccountId)}`) +
+                      (transfer.note ? ` · ${transfer.note}` : ''),
+                    amount: getTransferDelta(account.id, transfer),
+                  })),
+              ].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+              return (
+                <Card key={account.id}>
+                  <div className="space-y-4">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h3 className="font-semibold text-xl text-gray-900">{account.name}</h3>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {kindLabels[account.kind]} · {account.currency} ·{' '}
+                          {account.interestRate !== undefined
+                            ? `${account.interestRate}% per year`
+                            : `Default return (${settings?.expectedReturnRate ?? 0}%)`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button onClick={() => handleOpenModal(account)} variant="outline" size="sm">
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button onClick={() => handleDelete(account)} variant="danger" size="sm">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <p className="text-sm text-gray-600">Balance</p>
+                        <p className="text-2xl font-bold">{format(native, account.currency)}</p>
+                        {account.currency !== baseCurrency && (
+                          <p className="text-xs text-gray-500">≈ {format(base)}</p>
+                        )}
+                      </div>
+                      {linkedGoals.length > 0 && (
+                        <div>
+                          <p className="text-sm text-gray-600">Earmarked for goals</p>
+                          <p className="text-2xl font-bold">{format(earmarked)}</p>
+                          <p className="text-xs text-gray-500">
+                            {linkedGoals.map((goal) => goal.name).join(', ')}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+
+                    {earmarked > base && (
+                      <div className="flex items-center gap-2 text-sm p-3 rounded-lg bg-yellow-50 text-yellow-800">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        Linked goals hold more than this account's balance.
+                      </div>
+                    )}
+
+                    {history.length > 0 && (
+                      <div className="max-h-48 overflow-y-auto border-t pt-3 space-y-1">
+                        {history.map((entry) => (
+                          <div key={entry.id} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-600 truncate">
+                              {entry.date.toLocaleDateString()} · {entry.label}
+                            </span>
+                            <span className="flex items-center gap-2">
+                              <span
+                                className={`font-semibold ${
+                                  entry.type === 'snapshot'
+                                    ? 'text-gray-900'
+                                    : entry.amount < 0
+                                    ? 'text-red-600'
+                                    : 'text-green-600'
+                                }`}
+                              >
+                                {entry.type === 'transfer' && entry.amount > 0 ? '+' : ''}
+                                {format(entry.amount, account.currency)}
+                              </span>
+                              <button
+                                onClick={() => handleDeleteEntry(entry.type, entry.id)}
+                                className="p-0.5 rounded text-gray-400 hover:text-red-600"
+                                title="Delete entry"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => handleOpenBalance(account)}
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                      >
+                        <RefreshCw className="w-4 h-4 mr-1 inline" />
+                        Update Balance
+                      </Button>
+                      {accounts.length > 1 && (
+                        <Button
+                          onClick={() => handleOpenTransfer(account)}
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                        >
+                          <ArrowRightLeft className="w-4 h-4 mr-1 inline" />
+                          Transfer
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingId ? 'Edit Account' : 'Add Account'}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input label="Name" value={name} onChange={setName} placeholder="e.g., Savings deposit" required />
+
+          <Select
+            label="Kind"
+            value={kind}
+            onChange={(value) => setKind(value as AccountKind)}
+            options={Object.entries(kindLabels).map(([value, label]) => ({ value, label }))}
+          />
+
+          <Select
+            label="Currency"
+            value={currency}
+            onChange={setCurrency}
+            options={CURRENCIES.map((code) => ({ value: code, label: code }))}
+          />
+
+          {currency !== baseCurrency && (
+            <Input
+              label={`Exchange Rate (${baseCurrency} per 1 ${currency})`}
+              type="number"
+              value={exchangeRate}
+              onChange={setExchangeRate}
+              step="any"
+              min="0"
+              required
+            />
+          )}
+
+          <Input
+            label="Interest Rate (%/yr, optional)"
+            type="number"
+            value={interestRate}
+            onChange={setInterestRate}
+            placeholder={`Default (${settings?.expectedReturnRate ?? 0}%)`}
+            step="0.1"
+          />
+
+          {!editingId && (
+            <Input
+              label="Current Balance"
+              type="number"
+              value={openingBalance}
+              onChange={setOpeningBalance}
+              placeholder="0.00"
+              step="0.01"
+            />
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              {editingId ? 'Update' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={balanceAccount !== null}
+        onClose={() => setBalanceAccount(null)}
+        title={`Update ${balanceAccount?.name ?? ''} Balance`}
+      >
+        <form onSubmit={handleBalanceSubmit} className="space-y-4">
+          <Input label="Date" type="date" value={balanceDate} onChange={setBalanceDate} required />
+
+          <Input
+            label={`Balance (${balanceAccount?.currency ?? baseCurrency})`}
+            type="number"
+            value={balance}
+            onChange={setBalance}
+            step="0.01"
+            required
+          />
+
+          <Input
+            label="Note (optional)"
+            value={balanceNote}
+            onChange={setBalanceNote}
+            placeholder="e.g., Monthly statement"
+          />
+
+          <p className="text-xs text-gray-500">
+            The balance replaces everything recorded before this date. Transfers after it are added on top.
+          </p>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={() => setBalanceAccount(null)} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              Save
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isTransferOpen} onClose={handleCloseTransfer} title="Transfer Between Accounts">
+        <form onSubmit={handleTransferSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="From"
+              value={fromAccountId}
+              onChange={setFromAccountId}
+              options={accounts.map((account) => ({ value: account.id, label: account.name }))}
+            />
+            <Select
+              label="To"
+              value={toAccountId}
+              onChange={setToAccountId}
+              options={accounts.map((account) => ({ value: account.id, label: account.name }))}
+            />
+          </div>
+
+          <Input label="Date" type="date" value={transferDate} onChange={setTransferDate} required />
+
+          <Input
+            label={`Amount${fromAccount ? ` (${fromAccount.currency})` : ''}`}
+            type="number"
+            value={transferAmount}
+            onChange={setTransferAmount}
+            placeholder="0.00"
+            step="0.01"
+            min="0.01"
+            required
+          />
+
+          {isCrossCurrency && (
+            <Input
+              label={`Received (${toAccount!.currency})`}
+              type="number"
+              value={receivedAmount}
+              onChange={setReceivedAmount}
+              placeholder="0.00"
+              step="0.01"
+              min="0.01"
+              required
+            />
+          )}
+
+          <Input
+            label="Note (optional)"
+            value={transferNote}
+            onChange={setTransferNote}
+            placeholder="e.g., Move to brokerage"
+          />
+
+          {transferError && <div className="text-sm p-3 rounded-lg bg-red-50 text-red-800">{transferError}</div>}
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseTransfer} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              Transfer
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
@@ -1,12 +1,26 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card } from '@/components/ui/Card';
-import { useAppStore } from '@/store/useAppStore';
-import { formatCurrency, createWhatIfScenarios } from '@/utils/calculations';
+import { useAppStore, useFigures } from '@/store/useAppStore';
+import { RealTermsToggle } from '@/components/RealTermsToggle';
+import { MonteCarloSimulation } from '@/components/MonteCarloSimulation';
+import {
+  formatCurrency,
+  createWhatIfScenarios,
+  getProjectionOptions,
+  calculateProjectionSeries,
+  calculateIncomeSchedule,
+  INCOME_SCHEDULE_MONTHS,
+} from '@/utils/calculations';
+import { calculateSavingsBalances } from '@/utils/accounts';
+import { calculateNetWorthSeries } from '@/utils/netWorth';
 import {
   BarChart,
   Bar,
+  ComposedChart,
   LineChart,
   Line,
+  AreaChart,
+  Area,
   PieChart,
   Pie,
   Cell,
@@ -21,9 +35,22 @@ import {
 const COLORS = ['#8b5cf6', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#ec4899'];
 
 export const Analytics: React.FC = () => {
-  const { calculations, settings, savings, yearlySavings } = useAppStore();
+  const {
+    calculations,
+    settings,
+    accounts,
+    accountSnapshots,
+    accountTransfers,
+    netWorthItems,
+    netWorthValuations,
+    yearlySavings,
+    incomeSources,
+    currentMonthIncomes,
+  } = useFigures();
+  const asOf = useAppStore((state) => state.asOf);
+  const [whatIfMode, setWhatIfMode] = useState<'deterministic' | 'simulation'>('deterministic');
 
-  if (!calculations || !settings || !savings) {
+  if (!calculations || !settings) {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="text-gray-500">Loading...</div>
@@ -31,7 +58,21 @@ export const Analytics: React.FC = () => {
     );
   }
 
-  const { incomeBreakdown, monthlyIncome } = calculations;
+  const { incomeBreakdown, memberBreakdown, expenseBreakdown, monthlyAvailableIncome, projections } = calculations;
+  const now = asOf ?? new Date();
+  const balances = calculateSavingsBalances(accounts, accountSnapshots, accountTransfers, settings);
+  const projectionOptions = getProjectionOptions(
+    settings,
+    calculateIncomeSchedule(
+      incomeSources,
+      currentMonthIncomes,
+      now.getFullYear(),
+      now.getMonth() + 1,
+      INCOME_SCHEDULE_MONTHS,
+      calculations.taxRates,
+      settings.taxReserveRates
+    )
+  );
 
   // Prepare data for charts
   const breakdownData = incomeBreakdown.map((item) => ({
@@ -40,6 +81,20 @@ export const Analytics: React.FC = () => {
     percentage: item.percentage,
   }));
 
+  const memberData = memberBreakdown.map((item) => ({
+    name: item.name,
+    value: item.amount,
+    percentage: item.percentage,
+    color: item.color,
+  }));
+
+  const spendingData = expenseBreakdown.map((item) => ({
+    name: item.name,
+    value: item.amount,
+    percentage: item.percentage,
+    color: item.color,
+  }));
+
   // Реальная динамика накоплений по месяцам
   const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
   const savingsOverTimeData = monthNames.map((monthName, index) => {
@@ -59,52 +114,143 @@ export const Analytics: React.FC = () => {
     };
   });
 
-  const whatIfScenarios = createWhatIfScenarios(
-    monthlyIncome,
-    savings.currentSavings,
-    savings.alreadySaved
-  );
+  // Собственный капитал по месяцам
+  const netWorthData = calculateNetWorthSeries(
+    netWorthItems,
+    netWorthValuations,
+    accounts,
+    accountSnapshots,
+    accountTransfers,
+    settings,
+    now.getFullYear(),
+    now.getMonth() + 1
+  ).map((point) => ({
+    name: `${monthNames[point.month - 1]} ${point.year}`,
+    assets: point.accounts + point.assets,
+    liabilities: -point.liabilities,
+    netWorth: point.netWorth,
+  }));
+
+  // Рост накоплений по годам: вложенное + сложный процент
+  const growthData = calculateProjectionSeries(
+    balances,
+    monthlyAvailableIncome,
+    settings.savingsPercentage,
+    10,
+    projectionOptions
+  ).map((point) => ({
+    name: `Year ${point.year}`,
+    contributed: point.contributed,
+    growth: point.growth,
+  }));
+
+  const whatIfScenarios = createWhatIfScenarios(monthlyAvailableIncome, balances, projectionOptions);
 
   const scenarioData = whatIfScenarios.map((s) => ({
     name: `${s.savingsPercentage}%`,
-    '5 Years': s.projection5Years,
-    '10 Years': s.projection10Years,
+    '5 Years Contributed': s.projection5Years - s.growth5Years,
+    '5 Years Growth': s.growth5Years,
+    '10 Years Contributed': s.projection10Years - s.growth10Years,
+    '10 Years Growth': s.growth10Years,
   }));
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Analytics</h1>
-        <p className="text-gray-600">Visualize your financial data</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Analytics</h1>
+          <p className="text-gray-600">Visualize your financial data</p>
+        </div>
+        <RealTermsToggle />
       </div>
 
-      {/* Income Breakdown Pie Chart */}
-      <Card title="Income Breakdown by Type">
-        <ResponsiveContainer width="100%" height={300}>
-          <PieChart>
-            <Pie
-              data={breakdownData}
-              cx="50%"
-              cy="50%"
-              labelLine={false}
-              label={(entry) => `${entry.name}: ${entry.percentage.toFixed(1)}%`}
-              outerRadius={100}
-              fill="#8884d8"
-              dataKey="value"
-            >
-              {breakdownData.map((_, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-              ))}
-            </Pie>
-            <Tooltip
-              formatter={(value: number) =>
-                formatCurrency(value, settings.currency, settings.locale)
-              }
-            />
-          </PieChart>
-        </ResponsiveContainer>
-      </Card>
+      {/* Income Breakdown and Spending Pie Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="Income Breakdown by Type">
+          <ResponsiveContainer width="100%" height={300}>
+            <PieChart>
+              <Pie
+                data={breakdownData}
+                cx="50%"
+                cy="50%"
+                labelLine={false}
+                label={(entry) => `${entry.name}: ${entry.percentage.toFixed(1)}%`}
+                outerRadius={100}
+                fill="#8884d8"
+                dataKey="value"
+              >
+                {breakdownData.map((_, index) => (
+                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip
+                formatter={(value: number) =>
+                  formatCurrency(value, settings.currency, settings.locale)
+                }
+              />
+            </PieChart>
+          </ResponsiveContainer>
+        </Card>
+
+        {memberData.length > 0 && (
+          <Card title="Income Breakdown by Member">
+            <ResponsiveContainer width="100%" height={300}>
+              <PieChart>
+                <Pie
+                  data={memberData}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={(entry) => `${entry.name}: ${entry.percentage.toFixed(1)}%`}
+                  outerRadius={100}
+                  dataKey="value"
+                >
+                  {memberData.map((item, index) => (
+                    <Cell key={`cell-${index}`} fill={item.color} />
+                  ))}
+                </Pie>
+                <Tooltip
+                  formatter={(value: number) =>
+                    formatCurrency(value, settings.currency, settings.locale)
+                  }
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          </Card>
+        )}
+
+        <Card title="Spending by Category">
+          {spendingData.length === 0 ? (
+            <div className="flex items-center justify-center h-[300px] text-gray-400">
+              No expenses this month
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <PieChart>
+                <Pie
+                  data={spendingData}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={(entry) => `${entry.name}: ${entry.percentage.toFixed(1)}%`}
+                  outerRadius={100}
+                  dataKey="value"
+                >
+                  {spendingData.map((item, index) => (
+                    <Cell key={`cell-${index}`} fill={item.color} />
+                  ))}
+                </Pie>
+                <Tooltip
+                  formatter={(value: number) =>
+                    formatCurrency(value, settings.currency, settings.locale)
+                  }
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+      </div>
 
       {/* Savings Over Time */}
       <Card title="Savings Over Time">
@@ -125,10 +271,37 @@ export const Analytics: React.FC = () => {
         </ResponsiveContainer>
       </Card>
 
-      {/* What-If Scenarios */}
-      <Card title='What-If Scenarios: "What if I save X%?"'>
-        <ResponsiveContainer width="100%" height={350}>
-          <BarChart data={scenarioData}>
+      {/* Net Worth Over Time */}
+      {netWorthData.length > 0 && (
+        <Card title="Net Worth Over Time">
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={netWorthData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <Tooltip
+                formatter={(value: number, name: string) =>
+                  // Обязательства рисуются вниз от нуля, но показываются суммой долга
+                  formatCurrency(name === 'Liabilities' ? -value : value, settings.currency, settings.locale)
+                }
+              />
+              <Legend />
+              <Bar dataKey="assets" fill="#10b981" name="Assets" stackId="position" />
+              <Bar dataKey="liabilities" fill="#ef4444" name="Liabilities" stackId="position" />
+              <Line type="monotone" dataKey="netWorth" stroke="#8b5cf6" strokeWidth={2} name="Net Worth" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </Card>
+      )}
+
+      {/* Savings Projections */}
+      <Card
+        title={`Savings Projections (${projectionOptions.annualReturnRate}% expected annual return${
+          projectionOptions.realTerms ? `, in today's money at ${projectionOptions.inflationRate}% inflation` : ''
+        })`}
+      >
+        <ResponsiveContainer width="100%" height={300}>
+          <AreaChart data={growthData}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis dataKey="name" />
             <YAxis />
@@ -138,10 +311,72 @@ export const Analytics: React.FC = () => {
               }
             />
             <Legend />
-            <Bar dataKey="5 Years" fill="#8b5cf6" />
-            <Bar dataKey="10 Years" fill="#10b981" />
-          </BarChart>
+            <Area type="monotone" dataKey="contributed" stackId="1" stroke="#8b5cf6" fill="#c4b5fd" name="Contributed" />
+            <Area type="monotone" dataKey="growth" stackId="1" stroke="#10b981" fill="#6ee7b7" name="Growth" />
+          </AreaChart>
         </ResponsiveContainer>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+          {projections.map((projection) => (
+            <div key={projection.years} className="p-3 rounded-xl bg-gray-50">
+              <p className="text-sm text-gray-600">
+                {projection.years} {projection.years === 1 ? 'Year' : 'Years'}
+              </p>
+              <p className="text-lg font-bold text-primary-600">
+                {formatCurrency(projection.total, settings.currency, settings.locale)}
+              </p>
+              <p className="text-xs text-gray-500">
+                Contributed {formatCurrency(projection.contributed, settings.currency, settings.locale)}
+              </p>
+              <p className="text-xs text-green-600">
+                Growth {formatCurrency(projection.growth, settings.currency, settings.locale)}
+              </p>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* What-If Scenarios */}
+      <Card
+        title={`What-If Scenarios: "What if I save X%?"${projectionOptions.realTerms ? " (in today's money)" : ''}`}
+      >
+        <div className="inline-flex items-center gap-1 p-1 bg-gray-100 rounded-xl mb-4">
+          {(['deterministic', 'simulation'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setWhatIfMode(mode)}
+              className={`px-3 py-1.5 text-sm rounded-lg transition-all ${
+                whatIfMode === mode
+                  ? 'bg-white text-primary-700 font-medium shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {mode === 'deterministic' ? 'Fixed Returns' : 'Monte Carlo'}
+            </button>
+          ))}
+        </div>
+
+        {whatIfMode === 'simulation' ? (
+          <MonteCarloSimulation />
+        ) : (
+          <ResponsiveContainer width="100%" height={350}>
+            <BarChart data={scenarioData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <Tooltip
+                formatter={(value: number) =>
+                  formatCurrency(value, settings.currency, settings.locale)
+                }
+              />
+              <Legend />
+              <Bar dataKey="5 Years Contributed" stackId="5y" fill="#8b5cf6" />
+              <Bar dataKey="5 Years Growth" stackId="5y" fill="#c4b5fd" />
+              <Bar dataKey="10 Years Contributed" stackId="10y" fill="#10b981" />
+              <Bar dataKey="10 Years Growth" stackId="10y" fill="#6ee7b7" />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
       </Card>
 
       {/* Comparison Table */}
@@ -153,7 +388,9 @@ export const Analytics: React.FC = () => {
                 <th className="text-left py-3 px-4">Savings %</th>
                 <th className="text-right py-3 px-4">Monthly</th>
                 <th className="text-right py-3 px-4">5 Years</th>
+                <th className="text-right py-3 px-4">of which Growth</th>
                 <th className="text-right py-3 px-4">10 Years</th>
+                <th className="text-right py-3 px-4">of which Growth</th>
               </tr>
             </thead>
             <tbody>
@@ -166,9 +403,15 @@ export const Analytics: React.FC = () => {
                   <td className="text-right py-3 px-4">
                     {formatCurrency(scenario.projection5Years, settings.currency, settings.locale)}
                   </td>
+                  <td className="text-right py-3 px-4 text-green-600">
+                    {formatCurrency(scenario.growth5Years, settings.currency, settings.locale)}
+                  </td>
                   <td className="text-right py-3 px-4">
                     {formatCurrency(scenario.projection10Years, settings.currency, settings.locale)}
                   </td>
+                  <td className="text-right py-3 px-4 text-green-600">
+                    {formatCurrency(scenario.growth10Years, settings.currency, settings.locale)}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -1,13 +1,34 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/Card';
-import { useAppStore } from '@/store/useAppStore';
+import { useAppStore, useFigures } from '@/store/useAppStore';
+import { RealTermsToggle } from '@/components/RealTermsToggle';
+import { GoalStatusBadge } from '@/components/GoalStatusBadge';
 import { formatCurrency } from '@/utils/calculations';
-import { Wallet, TrendingUp, Target } from 'lucide-react';
+import { calculateAccountBalance, toBaseCurrency } from '@/utils/accounts';
+import { calculateNetWorthSeries } from '@/utils/netWorth';
+import { analyzeGoalFeasibility, calculateSavingsPace } from '@/utils/goalFeasibility';
+import { calculateTaxReserveLedger, getQuarter } from '@/utils/taxReserve';
+import { Wallet, TrendingUp, Target, Receipt, ArrowDownUp, AlertTriangle } from 'lucide-react';
 
 export const Dashboard: React.FC = () => {
-  const { calculations, settings, savings, currentMonthSavings, yearlySavings, yearlyIncomes } = useAppStore();
+  const {
+    calculations,
+    settings,
+    accounts,
+    accountSnapshots,
+    accountTransfers,
+    netWorthItems,
+    netWorthValuations,
+    goals,
+    currentMonthSavings,
+    yearlySavings,
+    yearlyIncomes,
+    taxPayments,
+  } = useFigures();
+  const asOf = useAppStore((state) => state.asOf);
 
-  if (!calculations || !settings || !savings) {
+  if (!calculations || !settings) {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="text-gray-500">Loading...</div>
@@ -15,11 +36,36 @@ export const Dashboard: React.FC = () => {
     );
   }
 
-  const { monthlyIncome, yearlyIncome } = calculations;
+  const {
+    monthlyGrossIncome,
+    monthlyTax,
+    monthlyIncome,
+    monthlyTaxReserve,
+    yearlyGrossIncome,
+    yearlyTax,
+    yearlyIncome,
+    monthlyExpenses,
+    netCashFlow,
+    incomeBreakdown,
+    memberBreakdown,
+    expenseBreakdown,
+    projections,
+  } = calculations;
 
-  // Total Savings = alreadySaved + currentSavings + сумма всех monthly savings
+  // Балансы счетов в основной валюте
+  const accountBalances = accounts.map((account) => ({
+    account,
+    balance: toBaseCurrency(
+      calculateAccountBalance(account.id, accountSnapshots, accountTransfers),
+      account,
+      settings.currency
+    ),
+  }));
+  const accountsTotal = accountBalances.reduce((sum, item) => sum + item.balance, 0);
+
+  // Total Savings = балансы счетов + сумма всех monthly savings
   const yearlySavingsTotal = yearlySavings.reduce((sum, s) => sum + s.savedAmount, 0);
-  const totalSavings = savings.currentSavings + savings.alreadySaved + yearlySavingsTotal;
+  const totalSavings = accountsTotal + yearlySavingsTotal;
 
   // Реальные накопления текущего месяца
   const realMonthlySavings = currentMonthSavings?.savedAmount || 0;
@@ -27,14 +73,75 @@ export const Dashboard: React.FC = () => {
     ? (realMonthlySavings / monthlyIncome) * 100
     : 0;
 
+  // Собственный капитал за текущий и прошлый месяц
+  const now = asOf ?? new Date();
+  const netWorthSeries = calculateNetWorthSeries(
+    netWorthItems,
+    netWorthValuations,
+    accounts,
+    accountSnapshots,
+    accountTransfers,
+    settings,
+    now.getFullYear(),
+    now.getMonth() + 1,
+    2
+  );
+  const netWorth = netWorthSeries[netWorthSeries.length - 1];
+  const netWorthChange = netWorthSeries.length === 2 ? netWorth.netWorth - netWorthSeries[0].netWorth : null;
+
+  // Цели с дедлайном: успеваем ли при фактическом темпе накоплений
+  const feasibility = analyzeGoalFeasibility(goals, {
+    savingsPace: calculateSavingsPace(yearlySavings, now.getMonth() + 1) ?? calculations.monthlySavings,
+    monthlyIncome: calculations.monthlyAvailableIncome,
+    strategy: settings.goalAllocation,
+    inflationRate: settings.inflationRate,
+  });
+  // Налоговый резерв: просроченные кварталы и нехватка резерва на текущий квартал
+  const taxLedger = calculateTaxReserveLedger(
+    Array.from(yearlyIncomes.values()).flat(),
+    taxPayments,
+    settings.taxReserveRates,
+    calculations.taxRates,
+    now.getFullYear(),
+    now
+  );
+  const overdueQuarters = taxLedger.filter((row) => row.isOverdue);
+  const currentQuarter = taxLedger[getQuarter(now.getMonth() + 1) - 1];
+
+  const statusCounts = {
+    on_track: feasibility.filter((item) => item.status === 'on_track').length,
+    at_risk: feasibility.filter((item) => item.status === 'at_risk').length,
+    off_track: feasibility.filter((item) => item.status === 'off_track').length,
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Dashboard</h1>
-        <p className="text-gray-600">Your financial overview</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Dashboard</h1>
+          <p className="text-gray-600">Your financial overview</p>
+        </div>
+        <RealTermsToggle />
       </div>
 
+      {(overdueQuarters.length > 0 || currentQuarter.shortfall >= 0.01) && (
+        <Link
+          to="/tax-reserve"
+          className="flex items-center gap-3 text-sm p-4 rounded-xl bg-yellow-50 text-yellow-800 hover:bg-yellow-100"
+        >
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {overdueQuarters.length > 0 &&
+              `Estimated tax for ${overdueQuarters.map((row) => `Q${row.quarter}`).join(', ')} is overdue: ` +
+                `${formatCurrency(overdueQuarters[overdueQuarters.length - 1].unpaid, settings.currency, settings.locale)} unpaid. `}
+            {currentQuarter.shortfall >= 0.01 &&
+              `Your tax reserve is ${formatCurrency(currentQuarter.shortfall, settings.currency, settings.locale)} ` +
+                `behind the tax owed. Raise the set-aside rate or move money into the reserve.`}
+          </span>
+        </Link>
+      )}
+
       {/* Main Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <Card>
@@ -44,6 +151,17 @@ export const Dashboard: React.FC = () => {
               <p className="text-2xl font-bold text-gray-900">
                 {formatCurrency(monthlyIncome, settings.currency, settings.locale)}
               </p>
+              {monthlyTax > 0 && (
+                <p className="text-xs text-gray-500">
+                  {formatCurrency(monthlyGrossIncome, settings.currency, settings.locale)} before{' '}
+                  {formatCurrency(monthlyTax, settings.currency, settings.locale)} tax
+                </p>
+              )}
+              {monthlyTaxReserve > 0 && (
+                <p className="text-xs text-gray-500">
+                  {formatCurrency(monthlyTaxReserve, settings.currency, settings.locale)} set aside for taxes
+                </p>
+              )}
             </div>
             <div className="p-3 bg-primary-100 rounded-xl">
               <Wallet className="w-6 h-6 text-primary-600" />
@@ -58,6 +176,12 @@ export const Dashboard: React.FC = () => {
               <p className="text-2xl font-bold text-gray-900">
                 {formatCurrency(yearlyIncome, settings.currency, settings.locale)}
               </p>
+              {yearlyTax > 0 && (
+                <p className="text-xs text-gray-500">
+                  {formatCurrency(yearlyGrossIncome, settings.currency, settings.locale)} before{' '}
+                  {formatCurrency(yearlyTax, settings.currency, settings.locale)} tax
+                </p>
+              )}
             </div>
             <div className="p-3 bg-green-100 rounded-xl">
               <TrendingUp className="w-6 h-6 text-green-600" />
@@ -86,21 +210,127 @@ export const Dashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Cash Flow */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Monthly Expenses</p>
+              <p className="text-2xl font-bold text-red-600">
+                {formatCurrency(monthlyExpenses, settings.currency, settings.locale)}
+              </p>
+              {monthlyIncome > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {((monthlyExpenses / monthlyIncome) * 100).toFixed(1)}% of income
+                </p>
+              )}
+            </div>
+            <div className="p-3 bg-red-100 rounded-xl">
+              <Receipt className="w-6 h-6 text-red-600" />
+            </div>
+          </div>
+        </Card>
+
+        <Card>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Net Cash Flow</p>
+              <p className={`text-2xl font-bold ${netCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatCurrency(netCashFlow, settings.currency, settings.locale)}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">Income minus expenses this month</p>
+            </div>
+            <div className="p-3 bg-primary-100 rounded-xl">
+              <ArrowDownUp className="w-6 h-6 text-primary-600" />
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      {/* Income vs Spending */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card title="Income by Type">
+          {incomeBreakdown.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">No income this month</p>
+          ) : (
+            <div className="space-y-3">
+              {incomeBreakdown.map((item) => (
+                <div key={item.type} className="flex justify-between items-center">
+                  <span className="text-gray-600 capitalize">{item.type.replace('_', ' ')}</span>
+                  <span className="font-semibold">
+                    {formatCurrency(item.amount, settings.currency, settings.locale)}
+                    <span className="text-xs text-gray-500 ml-2">{item.percentage.toFixed(1)}%</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Разбивка по членам семьи */}
+          {memberBreakdown.length > 0 && (
+            <div className="mt-4 pt-4 border-t space-y-3">
+              <p className="text-sm font-medium text-gray-700">By Member</p>
+              {memberBreakdown.map((item) => (
+                <div key={item.memberId ?? 'shared'}>
+                  <div className="flex justify-between items-center text-sm mb-1">
+                    <span className="text-gray-600">{item.name}</span>
+                    <span className="font-semibold">
+                      {formatCurrency(item.amount, settings.currency, settings.locale)}
+                      <span className="text-xs text-gray-500 ml-2">{item.percentage.toFixed(1)}%</span>
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full"
+                      style={{ width: `${item.percentage}%`, backgroundColor: item.color }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card title="Spending by Category">
+          {expenseBreakdown.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">No expenses this month</p>
+          ) : (
+            <div className="space-y-3">
+              {expenseBreakdown.map((item) => (
+                <div key={item.categoryId}>
+                  <div className="flex justify-between items-center text-sm mb-1">
+                    <span className="text-gray-600">{item.name}</span>
+                    <span className="font-semibold">
+                      {formatCurrency(item.amount, settings.currency, settings.locale)}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full"
+                      style={{ width: `${item.percentage}%`, backgroundColor: item.color }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
       {/* Current Savings */}
       <Card title="Current Savings">
         <div className="space-y-4">
-          <div className="flex justify-between items-center">
-            <span className="text-gray-600">Current Savings</span>
-            <span className="text-xl font-semibold">
-              {formatCurrency(savings.currentSavings, settings.currency, settings.locale)}
-            </span>
-          </div>
-          <div className="flex justify-between items-center">
-            <span className="text-gray-600">Already Saved</span>
-            <span className="text-xl font-semibold">
-              {formatCurrency(savings.alreadySaved, settings.currency, settings.locale)}
-            </span>
-          </div>
+          {accountBalances.length === 0 && (
+            <p className="text-sm text-gray-500">No accounts yet. Add them on the Accounts page.</p>
+          )}
+          {accountBalances.map(({ account, balance }) => (
+            <div key={account.id} className="flex justify-between items-center">
+              <span className="text-gray-600">{account.name}</span>
+              <span className="text-xl font-semibold">
+                {formatCurrency(balance, settings.currency, settings.locale)}
+              </span>
+            </div>
+          ))}
           <div className="flex justify-between items-center">
             <span className="text-gray-600">This Year Savings</span>
             <span className="text-xl font-semibold text-green-600">
@@ -118,6 +348,104 @@ export const Dashboard: React.FC = () => {
         </div>
       </Card>
 
+      {/* Net Worth */}
+      {netWorth && (
+        <Card title="Net Worth">
+          <div className="space-y-4">
+            <div className="flex justify-between items-end">
+              <span
+                className={`text-3xl font-bold ${netWorth.netWorth < 0 ? 'text-red-600' : 'text-primary-600'}`}
+              >
+                {formatCurrency(netWorth.netWorth, settings.currency, settings.locale)}
+              </span>
+              {netWorthChange !== null && (
+                <span className={`text-sm ${netWorthChange < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {netWorthChange >= 0 ? '+' : ''}
+                  {formatCurrency(netWorthChange, settings.currency, settings.locale)} vs last month
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-4 border-t pt-4">
+              <div>
+                <p className="text-sm text-gray-600">Accounts</p>
+                <p className="font-semibold">{formatCurrency(netWorth.accounts, settings.currency, settings.locale)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Other Assets</p>
+                <p className="font-semibold text-green-600">
+                  {formatCurrency(netWorth.assets, settings.currency, settings.locale)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Liabilities</p>
+                <p className="font-semibold text-red-600">
+                  {formatCurrency(netWorth.liabilities, settings.currency, settings.locale)}
+                </p>
+              </div>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Goal Deadlines */}
+      {feasibility.length > 0 && (
+        <Card title="Goal Deadlines">
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-gray-600">On track</p>
+                <p className="text-2xl font-bold text-green-600">{statusCounts.on_track}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">At risk</p>
+                <p className="text-2xl font-bold text-yellow-600">{statusCounts.at_risk}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Off track</p>
+                <p className="text-2xl font-bold text-red-600">{statusCounts.off_track}</p>
+              </div>
+            </div>
+            <div className="border-t pt-4 space-y-2">
+              {feasibility.map((item) => {
+                const goal = goals.find((g) => g.id === item.goalId)!;
+                return (
+                  <div key={item.goalId} className="flex justify-between items-center gap-2">
+                    <span className="text-gray-600">{goal.name}</span>
+                    <div className="flex items-center gap-3">
+                      {item.requiredMonthly > 0 && (
+                        <span className="text-sm text-gray-500">
+                          {formatCurrency(item.requiredMonthly, settings.currency, settings.locale)} / month
+                        </span>
+                      )}
+                      <GoalStatusBadge status={item.status} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Projections */}
+      <Card title={settings.realTerms ? "Savings Projections (in today's money)" : 'Savings Projections'}>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {projections.map((projection) => (
+            <div key={projection.years}>
+              <p className="text-sm text-gray-600">
+                In {projection.years} {projection.years === 1 ? 'year' : 'years'}
+              </p>
+              <p className="text-xl font-bold text-primary-600">
+                {formatCurrency(projection.total, settings.currency, settings.locale)}
+              </p>
+              <p className="text-xs text-green-600">
+                +{formatCurrency(projection.growth, settings.currency, settings.locale)} growth
+              </p>
+            </div>
+          ))}
+        </div>
+      </Card>
+
       {/* Savings Over Time */}
       <Card title="Savings Over Time">
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
@@ -131,7 +459,7 @@ export const Dashboard: React.FC = () => {
               .reduce((total, income) => total + income.amount, 0);
             const savedAmount = monthSavings?.savedAmount || 0;
             const percentage = monthIncome > 0 ? (savedAmount / monthIncome) * 100 : 0;
-            const now = new Date();
+            const now = asOf ?? new Date();
             const currentMonth = now.getMonth() + 1;
             const isCurrent = month === currentMonth;
 
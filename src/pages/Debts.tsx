@@ -0,0 +1,404 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useAppStore } from '@/store/useAppStore';
+import type { Debt, DebtPayoffPlan, DebtPayoffStrategy } from '@/types/models';
+import { Plus, Trash2, Edit2, ArrowUp, ArrowDown, CreditCard } from 'lucide-react';
+import { formatCurrency } from '@/utils/calculations';
+import { orderDebts, simulateDebtPayoff } from '@/utils/debtPayoff';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+const COLORS = ['#ef4444', '#f59e0b', '#8b5cf6', '#3b82f6', '#10b981', '#ec4899'];
+
+const strategyLabels: Record<DebtPayoffStrategy, string> = {
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+  custom: 'Custom order',
+};
+
+const strategyDescriptions: Record<DebtPayoffStrategy, string> = {
+  avalanche: 'Highest interest rate first',
+  snowball: 'Smallest balance first',
+  custom: 'Your own order',
+};
+
+const STRATEGIES: DebtPayoffStrategy[] = ['avalanche', 'snowball', 'custom'];
+
+export const Debts: React.FC = () => {
+  const { debts, calculations, settings, addDebt, updateDebt, reorderDebts, deleteDebt } = useAppStore();
+
+  const [strategy, setStrategy] = useState<DebtPayoffStrategy>('avalanche');
+  // null — берём ежемесячные накопления из расчётов
+  const [extraInput, setExtraInput] = useState<string | null>(null);
+  const [tableDebtId, setTableDebtId] = useState('all');
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [balance, setBalance] = useState('');
+  const [apr, setApr] = useState('');
+  const [minimumPayment, setMinimumPayment] = useState('');
+
+  const resetForm = () => {
+    setName('');
+    setBalance('');
+    setApr('');
+    setMinimumPayment('');
+    setEditingId(null);
+  };
+
+  const handleOpenModal = (debt?: Debt) => {
+    if (debt) {
+      setName(debt.name);
+      setBalance(debt.balance.toString());
+      setApr(debt.apr.toString());
+      setMinimumPayment(debt.minimumPayment.toString());
+      setEditingId(debt.id);
+    } else {
+      resetForm();
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    resetForm();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = {
+      name,
+      balance: parseFloat(balance) || 0,
+      apr: parseFloat(apr) || 0,
+      minimumPayment: parseFloat(minimumPayment) || 0,
+    };
+
+    if (editingId) {
+      await updateDebt(editingId, data);
+    } else {
+      await addDebt(data);
+    }
+
+    handleCloseModal();
+  };
+
+  const handleDelete = async (debt: Debt) => {
+    await deleteDebt(debt.id);
+    if (tableDebtId === debt.id) setTableDebtId('all');
+  };
+
+  // Сдвинуть долг в пользовательском порядке на одну позицию
+  const handleMove = async (index: number, delta: number) => {
+    const ids = debts.map((debt) => debt.id);
+    [ids[index], ids[index + delta]] = [ids[index + delta], ids[index]];
+    await reorderDebts(ids);
+  };
+
+  const format = (amount: number) =>
+    settings ? formatCurrency(amount, settings.currency, settings.locale) : amount.toFixed(2);
+
+  // Месяц плана 1 — следующий календарный месяц
+  const today = new Date();
+  const formatPlanMonth = (month: number) =>
+    new Date(today.getFullYear(), today.getMonth() + month, 1).toLocaleDateString(settings?.locale, {
+      month: 'short',
+      year: 'numeric',
+    });
+  const formatPayoff = (months: number) => (isFinite(months) ? formatPlanMonth(months) : 'Never');
+
+  const monthlySavings = Math.max(calculations?.monthlySavings ?? 0, 0);
+  const extraPayment = extraInput === null ? monthlySavings : Math.max(parseFloat(extraInput) || 0, 0);
+
+  const plans = Object.fromEntries(
+    STRATEGIES.map((item) => [item, simulateDebtPayoff(debts, extraPayment, item)])
+  ) as Record<DebtPayoffStrategy, DebtPayoffPlan>;
+  const plan = plans[strategy];
+  const cheapest = Math.min(...STRATEGIES.map((item) => plans[item].totalInterest));
+
+  const totalBalance = debts.reduce((sum, debt) => sum + debt.balance, 0);
+  const totalMinimum = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+
+  const chartData = [
+    { name: 'Now', ...Object.fromEntries(debts.map((debt) => [debt.id, debt.balance])) },
+    ...plan.months.map((month) => ({
+      name: formatPlanMonth(month.month),
+      ...Object.fromEntries(month.payments.map((payment) => [payment.debtId, payment.balance])),
+    })),
+  ];
+
+  const tableRows = plan.months
+    .map((month) => {
+      if (tableDebtId === 'all') return month;
+      const payment = month.payments.find((item) => item.debtId === tableDebtId);
+      return payment && { month: month.month, payment: payment.payment, interest: payment.interest, balance: payment.balance };
+    })
+    .filter((row) => row !== undefined);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Debts</h1>
+          <p className="text-gray-600">Plan how to pay off loans and cards</p>
+        </div>
+        <Button onClick={() => handleOpenModal()} variant="primary">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Debt
+        </Button>
+      </div>
+
+      {debts.length === 0 ? (
+        <Card>
+          <div className="text-center py-12">
+            <CreditCard className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500 mb-4">Add your loans and credit cards to build a payoff plan</p>
+            <Button onClick={() => handleOpenModal()} variant="primary">
+              Add Your First Debt
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-gray-600">Total Owed</p>
+                <p className="text-xl font-semibold text-red-600">{format(totalBalance)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Minimum Payments</p>
+                <p className="text-xl font-semibold">{format(totalMinimum)} / month</p>
+              </div>
+              <div>
+                <Input
+                  label="Extra Payment / month"
+                  type="number"
+                  value={extraInput ?? monthlySavings.toFixed(2)}
+                  onChange={setExtraInput}
+                  step="0.01"
+                  min="0"
+                />
+                {extraInput !== null && (
+                  <button
+                    type="button"
+                    onClick={() => setExtraInput(null)}
+                    className="text-xs text-primary-600 hover:underline mt-1"
+                  >
+                    Use monthly savings ({format(monthlySavings)})
+                  </button>
+                )}
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Debt-free by</p>
+                <p className="text-xl font-semibold text-primary-600">{formatPayoff(plan.monthsToPayoff)}</p>
+              </div>
+            </div>
+          </Card>
+
+          <Card title="Your Debts">
+            <div className="space-y-3">
+              {debts.map((debt, index) => (
+                <div key={debt.id} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      <span className="text-gray-400 mr-2">{index + 1}.</span>
+                      {debt.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {format(debt.balance)} · {debt.apr}% APR · min {format(debt.minimumPayment)} / month
+                      {` · paid off ${formatPayoff(plan.debtPayoffMonths[debt.id])}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button onClick={() => handleMove(index, -1)} variant="outline" size="sm" disabled={index === 0}>
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => handleMove(index, 1)}
+                      variant="outline"
+                      size="sm"
+                      disabled={index === debts.length - 1}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button onClick={() => handleOpenModal(debt)} variant="outline" size="sm">
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button onClick={() => handleDelete(debt)} variant="danger" size="sm">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-4">The arrows set the order used by the custom strategy.</p>
+          </Card>
+
+          <Card title="Compare Strategies">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4">Strategy</th>
+                  <th className="text-left py-3 px-4">Payoff Order</th>
+                  <th className="text-right py-3 px-4">Debt-free by</th>
+                  <th className="text-right py-3 px-4">Total Interest</th>
+                  <th className="text-right py-3 px-4">Extra Interest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {STRATEGIES.map((item) => {
+                  const itemPlan = plans[item];
+                  return (
+                    <tr
+                      key={item}
+                      onClick={() => setStrategy(item)}
+                      className={`border-b cursor-pointer ${item === strategy ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <td className="py-3 px-4">
+                        <p className="font-medium">{strategyLabels[item]}</p>
+                        <p className="text-xs text-gray-500">{strategyDescriptions[item]}</p>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {orderDebts(debts, item).map((debt) => debt.name).join(' → ')}
+                      </td>
+                      <td className="text-right py-3 px-4">{formatPayoff(itemPlan.monthsToPayoff)}</td>
+                      <td className="text-right py-3 px-4">{format(itemPlan.totalInterest)}</td>
+                      <td className="text-right py-3 px-4 text-red-600">
+                        {itemPlan.totalInterest - cheapest >= 0.01 ? `+${format(itemPlan.totalInterest - cheapest)}` : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {!isFinite(plan.monthsToPayoff) && (
+              <p className="text-sm text-red-600 mt-4">
+                Payments don't cover the interest on some debts. Raise the extra payment or the minimums.
+              </p>
+            )}
+          </Card>
+
+          <Card title={`Balance Over Time · ${strategyLabels[strategy]}`}>
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => format(value)} />
+                <Legend />
+                {debts.map((debt, index) => (
+                  <Area
+                    key={debt.id}
+                    type="monotone"
+                    dataKey={debt.id}
+                    name={debt.name}
+                    stackId="balance"
+                    stroke={COLORS[index % COLORS.length]}
+                    fill={COLORS[index % COLORS.length]}
+                    fillOpacity={0.6}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </Card>
+
+          <Card>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Amortization · {strategyLabels[strategy]}</h3>
+                <div className="w-56">
+                  <Select
+                    value={tableDebtId}
+                    onChange={setTableDebtId}
+                    options={[
+                      { value: 'all', label: 'All debts' },
+                      ...debts.map((debt) => ({ value: debt.id, label: debt.name })),
+                    ]}
+                  />
+                </div>
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b">
+                      <th className="text-left py-3 px-4">Month</th>
+                      <th className="text-right py-3 px-4">Payment</th>
+                      <th className="text-right py-3 px-4">Interest</th>
+                      <th className="text-right py-3 px-4">Principal</th>
+                      <th className="text-right py-3 px-4">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tableRows.map((row) => (
+                      <tr key={row.month} className="border-b">
+                        <td className="py-2 px-4">{formatPlanMonth(row.month)}</td>
+                        <td className="text-right py-2 px-4">{format(row.payment)}</td>
+                        <td className="text-right py-2 px-4 text-red-600">{format(row.interest)}</td>
+                        <td className="text-right py-2 px-4">{format(row.payment - row.interest)}</td>
+                        <td className="text-right py-2 px-4">{format(row.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </Card>
+        </>
+      )}
+
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingId ? 'Edit Debt' : 'Add Debt'}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input label="Name" value={name} onChange={setName} placeholder="e.g., Car loan" required />
+
+          <Input
+            label="Current Balance"
+            type="number"
+            value={balance}
+            onChange={setBalance}
+            placeholder="0.00"
+            step="0.01"
+            min="0"
+            required
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Interest Rate (APR, %)"
+              type="number"
+              value={apr}
+              onChange={setApr}
+              placeholder="0"
+              step="0.01"
+              min="0"
+              required
+            />
+            <Input
+              label="Minimum Payment / month"
+              type="number"
+              value={minimumPayment}
+              onChange={setMinimumPayment}
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+              required
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              {editingId ? 'Update' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
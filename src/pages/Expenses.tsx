@@ -0,0 +1,478 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useAppStore } from '@/store/useAppStore';
+import { Plus, Trash2, Edit2, Check, X, ChevronLeft, ChevronRight, Receipt } from 'lucide-react';
+import { formatCurrency } from '@/utils/calculations';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export const Expenses: React.FC = () => {
+  const {
+    expenseCategories,
+    recurringExpenses,
+    settings,
+    viewYear: selectedYear,
+    viewYearExpenses,
+    setViewYear: setSelectedYear,
+    addOneTimeExpense,
+    toggleMonthlyExpense,
+    deleteMonthlyExpense,
+    addExpenseCategory,
+    deleteExpenseCategory,
+    addRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+  } = useAppStore();
+
+  const currentDate = new Date();
+  const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth() + 1);
+  const monthExpenses = viewYearExpenses.get(selectedMonth) || [];
+
+  // Recurring expense modal
+  const [isRecurringModalOpen, setIsRecurringModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [isActive, setIsActive] = useState(true);
+
+  // One-time expense modal
+  const [isOneTimeModalOpen, setIsOneTimeModalOpen] = useState(false);
+  const [oneTimeName, setOneTimeName] = useState('');
+  const [oneTimeAmount, setOneTimeAmount] = useState('');
+  const [oneTimeCategoryId, setOneTimeCategoryId] = useState('');
+
+  // New category form
+  const [categoryName, setCategoryName] = useState('');
+  const [categoryColor, setCategoryColor] = useState('#f59e0b');
+
+  const format = (value: number) =>
+    settings ? formatCurrency(value, settings.currency, settings.locale) : value.toString();
+
+  const getCategory = (id: string) => expenseCategories.find((c) => c.id === id);
+
+  const handlePrevMonth = () => {
+    if (selectedMonth === 1) {
+      setSelectedMonth(12);
+      setSelectedYear(selectedYear - 1);
+    } else {
+      setSelectedMonth(selectedMonth - 1);
+    }
+  };
+
+  const handleNextMonth = () => {
+    if (selectedMonth === 12) {
+      setSelectedMonth(1);
+      setSelectedYear(selectedYear + 1);
+    } else {
+      setSelectedMonth(selectedMonth + 1);
+    }
+  };
+
+  const handleOpenRecurringModal = (id?: string) => {
+    const expense = id ? recurringExpenses.find((e) => e.id === id) : undefined;
+    setName(expense?.name || '');
+    setAmount(expense ? expense.amount.toString() : '');
+    setCategoryId(expense?.categoryId || expenseCategories[0]?.id || '');
+    setIsActive(expense ? expense.isActive : true);
+    setEditingId(expense ? expense.id : null);
+    setIsRecurringModalOpen(true);
+  };
+
+  const handleCloseRecurringModal = () => {
+    setIsRecurringModalOpen(false);
+    setEditingId(null);
+  };
+
+  const handleSubmitRecurring = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = {
+      name,
+      amount: parseFloat(amount),
+      categoryId,
+      isActive,
+    };
+
+    if (editingId) {
+      await updateRecurringExpense(editingId, data);
+    } else {
+      await addRecurringExpense(data);
+    }
+
+    handleCloseRecurringModal();
+  };
+
+  const handleDeleteRecurring = async (id: string) => {
+    await deleteRecurringExpense(id);
+  };
+
+  const handleOpenOneTimeModal = () => {
+    setOneTimeName('');
+    setOneTimeAmount('');
+    setOneTimeCategoryId(expenseCategories[0]?.id || '');
+    setIsOneTimeModalOpen(true);
+  };
+
+  const handleSubmitOneTime = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await addOneTimeExpense({
+      year: selectedYear,
+      month: selectedMonth,
+      amount: parseFloat(oneTimeAmount),
+      name: oneTimeName,
+      categoryId: oneTimeCategoryId,
+    });
+
+    setIsOneTimeModalOpen(false);
+  };
+
+  const handleToggleActive = async (id: string) => {
+    await toggleMonthlyExpense(id);
+  };
+
+  const handleDeleteExpense = async (id: string) => {
+    await deleteMonthlyExpense(id);
+  };
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await addExpenseCategory({ name: categoryName, color: categoryColor });
+    setCategoryName('');
+  };
+
+  const handleDeleteCategory = async (id: string) => {
+    const replacement = expenseCategories.find((c) => c.id !== id);
+    if (!replacement) return;
+
+    await deleteExpenseCategory(id, replacement.id);
+  };
+
+  const categoryOptions = expenseCategories.map((c) => ({ value: c.id, label: c.name }));
+
+  const monthTotal = monthExpenses
+    .filter((expense) => expense.isActive)
+    .reduce((sum, expense) => sum + expense.amount, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Expenses</h1>
+          <p className="text-gray-600">Track where your money goes</p>
+        </div>
+        <Button onClick={() => handleOpenRecurringModal()} variant="primary">
+          <Plus className="w-5 h-5 mr-2 inline" />
+          Add Recurring
+        </Button>
+      </div>
+
+      {/* Month View */}
+      <Card>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button onClick={handlePrevMonth} variant="outline" size="sm">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-lg font-semibold min-w-[160px] text-center">
+                {MONTHS[selectedMonth - 1]} {selectedYear}
+              </span>
+              <Button onClick={handleNextMonth} variant="outline" size="sm">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button onClick={handleOpenOneTimeModal} variant="outline" size="sm">
+              <Plus className="w-4 h-4 mr-1 inline" />
+              One-time
+            </Button>
+          </div>
+
+          {monthExpenses.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">No expenses this month</p>
+          ) : (
+            <div className="space-y-2">
+              {monthExpenses.map((expense) => {
+                const category = getCategory(expense.categoryId);
+                return (
+                  <div
+                    key={expense.id}
+                    className={`flex items-center justify-between p-3 rounded-lg border ${
+                      expense.isActive
+                        ? 'border-gray-200 bg-white'
+                        : 'border-gray-100 bg-gray-50 opacity-60'
+                    }`}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span
+                        className="w-3 h-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: category?.color || '#9ca3af' }}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{expense.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {category?.name || 'Uncategorized'}
+                          {expense.isRecurring ? ' · Recurring' : ' · One-time'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 ml-2">
+                      <span className="font-semibold text-gray-900">{format(expense.amount)}</span>
+                      {expense.isRecurring ? (
+                        <button
+                          onClick={() => handleToggleActive(expense.id)}
+                          className={`p-1 rounded ${
+                            expense.isActive
+                              ? 'text-green-600 hover:bg-green-50'
+                              : 'text-gray-400 hover:bg-gray-100'
+                          }`}
+                          title={expense.isActive ? 'Active' : 'Inactive'}
+                        >
+                          {expense.isActive ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleDeleteExpense(expense.id)}
+                          className="p-1 rounded text-red-600 hover:bg-red-50"
+                          title="Delete"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="pt-3 border-t flex justify-between items-center">
+            <span className="text-sm font-medium text-gray-600">Total spent:</span>
+            <span className="text-lg font-bold text-red-600">{format(monthTotal)}</span>
+          </div>
+        </div>
+      </Card>
+
+      {/* Recurring Expenses */}
+      {recurringExpenses.length === 0 ? (
+        <Card>
+          <div className="text-center py-12">
+            <Receipt className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500 mb-4">No recurring expenses yet</p>
+            <Button onClick={() => handleOpenRecurringModal()} variant="primary">
+              Add Your First Expense
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {recurringExpenses.map((expense) => {
+            const category = getCategory(expense.categoryId);
+            return (
+              <Card key={expense.id} className={!expense.isActive ? 'opacity-60' : ''}>
+                <div className="space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="font-semibold text-lg text-gray-900">{expense.name}</h3>
+                      <p className="text-sm" style={{ color: category?.color }}>
+                        {category?.name || 'Uncategorized'}
+                      </p>
+                    </div>
+                    {!expense.isActive && (
+                      <span className="px-2 py-1 text-xs bg-gray-200 text-gray-600 rounded-full">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+
+                  <div>
+                    <p className="text-2xl font-bold text-red-600">{format(expense.amount)}</p>
+                    <p className="text-sm text-gray-500">Monthly</p>
+                  </div>
+
+                  <div className="flex gap-2 pt-2">
+                    <Button
+                      onClick={() => handleOpenRecurringModal(expense.id)}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                    >
+                      <Edit2 className="w-4 h-4 mr-1 inline" />
+                      Edit
+                    </Button>
+                    <Button
+                      onClick={() => handleDeleteRecurring(expense.id)}
+                      variant="danger"
+                      size="sm"
+                      className="flex-1"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1 inline" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Categories */}
+      <Card title="Categories">
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {expenseCategories.map((category) => (
+              <span
+                key={category.id}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-full border border-gray-200"
+              >
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }} />
+                {category.name}
+                {expenseCategories.length > 1 && (
+                  <button
+                    onClick={() => handleDeleteCategory(category.id)}
+                    className="p-0.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    title="Delete category"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+
+          <form onSubmit={handleAddCategory} className="flex gap-3 items-end">
+            <Input
+              label="New Category"
+              value={categoryName}
+              onChange={setCategoryName}
+              placeholder="e.g., Health, Education"
+              required
+            />
+            <input
+              type="color"
+              value={categoryColor}
+              onChange={(e) => setCategoryColor(e.target.value)}
+              className="w-12 h-11 rounded-lg cursor-pointer flex-shrink-0"
+            />
+            <Button type="submit" variant="outline">
+              Add
+            </Button>
+          </form>
+        </div>
+      </Card>
+
+      {/* Add/Edit Recurring Modal */}
+      <Modal
+        isOpen={isRecurringModalOpen}
+        onClose={handleCloseRecurringModal}
+        title={editingId ? 'Edit Recurring Expense' : 'Add Recurring Expense'}
+      >
+        <form onSubmit={handleSubmitRecurring} className="space-y-4">
+          <Input
+            label="Name"
+            value={name}
+            onChange={setName}
+            placeholder="e.g., Rent, Internet, Gym"
+            required
+          />
+
+          <Input
+            label="Monthly Amount"
+            type="number"
+            value={amount}
+            onChange={setAmount}
+            placeholder="0.00"
+            step="0.01"
+            min="0"
+            required
+          />
+
+          <Select
+            label="Category"
+            value={categoryId}
+            onChange={setCategoryId}
+            options={categoryOptions}
+            required
+          />
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="expenseIsActive"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+            />
+            <label htmlFor="expenseIsActive" className="text-sm font-medium text-gray-700">
+              Active (include in calculations)
+            </label>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseRecurringModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              {editingId ? 'Update' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Add One-Time Expense Modal */}
+      <Modal
+        isOpen={isOneTimeModalOpen}
+        onClose={() => setIsOneTimeModalOpen(false)}
+        title={`Add Expense for ${MONTHS[selectedMonth - 1]} ${selectedYear}`}
+      >
+        <form onSubmit={handleSubmitOneTime} className="space-y-4">
+          <Input
+            label="Name"
+            value={oneTimeName}
+            onChange={setOneTimeName}
+            placeholder="e.g., New Laptop, Car Repair"
+            required
+          />
+
+          <Input
+            label="Amount"
+            type="number"
+            value={oneTimeAmount}
+            onChange={setOneTimeAmount}
+            placeholder="0.00"
+            step="0.01"
+            min="0"
+            required
+          />
+
+          <Select
+            label="Category"
+            value={oneTimeCategoryId}
+            onChange={setOneTimeCategoryId}
+            options={categoryOptions}
+            required
+          />
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={() => setIsOneTimeModalOpen(false)} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              Add Expense
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
@@ -3,29 +3,86 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
 import { useAppStore } from '@/store/useAppStore';
-import { Plus, Trash2, Edit2, Target } from 'lucide-react';
-import { formatCurrency, calculateGoalProgress, calculateMonthsToGoal } from '@/utils/calculations';
+import type { Goal, GoalAllocationStrategy, SplitRule } from '@/types/models';
+import { Plus, Minus, Trash2, Edit2, Target, X } from 'lucide-react';
+import {
+  formatCurrency,
+  calculateGoalProgress,
+  calculateMonthsToGoal,
+  calculateGoalTargetAmount,
+  calculateContributionPace,
+  calculateGoalBalanceSeries,
+} from '@/utils/calculations';
+import { allocateSavings, simulateGoalTimeline, GOAL_TIMELINE_MAX_MONTHS } from '@/utils/goalAllocation';
+import { analyzeGoalFeasibility, calculateSavingsPace } from '@/utils/goalFeasibility';
+import { GoalStatusBadge } from '@/components/GoalStatusBadge';
+import { SplitRuleEditor, splitMethodLabels } from '@/components/SplitRuleEditor';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const strategyLabels: Record<GoalAllocationStrategy, string> = {
+  manual: 'Manual only',
+  waterfall: 'Priority waterfall',
+  proportional: 'Proportional split',
+  fixed: 'Fixed amount per goal',
+};
+
+const strategyDescriptions: Record<GoalAllocationStrategy, string> = {
+  manual: 'Monthly savings are not split automatically. Record contributions yourself.',
+  waterfall: 'Each month fills the highest-priority goal first, then moves on to the next.',
+  proportional: 'Each month is split in proportion to how much each goal still needs.',
+  fixed: 'Each goal gets its own monthly amount, in priority order, while money lasts.',
+};
 
 export const Goals: React.FC = () => {
-  const { goals, settings, calculations, addGoal, updateGoal, deleteGoal } = useAppStore();
+  const {
+    goals,
+    goalContributions,
+    accounts,
+    householdMembers,
+    yearlySavings,
+    settings,
+    calculations,
+    addGoal,
+    updateGoal,
+    deleteGoal,
+    addGoalContribution,
+    deleteGoalContribution,
+    setGoalAllocation,
+  } = useAppStore();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
 
   const [name, setName] = useState('');
   const [targetAmount, setTargetAmount] = useState('');
-  const [currentAmount, setCurrentAmount] = useState('');
+  const [startingAmount, setStartingAmount] = useState('');
   const [description, setDescription] = useState('');
   const [color, setColor] = useState('#8b5cf6');
   const [deadline, setDeadline] = useState('');
+  const [inflateTarget, setInflateTarget] = useState(false);
+  const [priority, setPriority] = useState('1');
+  const [fixedMonthlyAmount, setFixedMonthlyAmount] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [split, setSplit] = useState<SplitRule | undefined>(undefined);
+
+  const strategy = settings?.goalAllocation ?? 'manual';
 
   const resetForm = () => {
     setName('');
     setTargetAmount('');
-    setCurrentAmount('');
+    setStartingAmount('');
     setDescription('');
     setColor('#8b5cf6');
     setDeadline('');
+    setInflateTarget(false);
+    // Новая цель по умолчанию встаёт в конец очереди
+    setPriority((goals.reduce((max, goal) => Math.max(max, goal.priority), 0) + 1).toString());
+    setFixedMonthlyAmount('');
+    setAccountId('');
+    setSplit(undefined);
     setEditingId(null);
   };
 
@@ -35,10 +92,14 @@ export const Goals: React.FC = () => {
       if (goal) {
         setName(goal.name);
         setTargetAmount(goal.targetAmount.toString());
-        setCurrentAmount(goal.currentAmount.toString());
         setDescription(goal.description || '');
         setColor(goal.color);
         setDeadline(goal.deadline ? goal.deadline.toISOString().split('T')[0] : '');
+        setInflateTarget(goal.inflateTarget ?? false);
+        setPriority(goal.priority.toString());
+        setFixedMonthlyAmount(goal.fixedMonthlyAmount?.toString() ?? '');
+        setAccountId(goal.accountId ?? '');
+        setSplit(goal.split);
         setEditingId(id);
       }
     } else {
@@ -58,28 +119,125 @@ export const Goals: React.FC = () => {
     const data = {
       name,
       targetAmount: parseFloat(targetAmount),
-      currentAmount: parseFloat(currentAmount),
       description,
       color,
       deadline: deadline ? new Date(deadline) : undefined,
+      inflateTarget: deadline ? inflateTarget : false,
+      priority: parseInt(priority) || 1,
+      fixedMonthlyAmount: fixedMonthlyAmount ? parseFloat(fixedMonthlyAmount) : undefined,
+      accountId: accountId || undefined,
+      split: householdMembers.length > 0 ? split : undefined,
     };
 
     if (editingId) {
       await updateGoal(editingId, data);
     } else {
-      await addGoal(data);
+      await addGoal(data, parseFloat(startingAmount) || 0);
     }
 
     handleCloseModal();
   };
 
   const handleDelete = async (id: string) => {
-    if (confirm('Are you sure you want to delete this goal?')) {
-      await deleteGoal(id);
+    await deleteGoal(id);
+  };
+
+  // Contribution modal state
+  const [contributionGoal, setContributionGoal] = useState<Goal | null>(null);
+  const [isWithdrawal, setIsWithdrawal] = useState(false);
+  const [contributionDate, setContributionDate] = useState('');
+  const [contributionAmount, setContributionAmount] = useState('');
+  const [contributionNote, setContributionNote] = useState('');
+  const [monthlySavingsId, setMonthlySavingsId] = useState('');
+  const [contributionMemberId, setContributionMemberId] = useState('');
+  const [contributionError, setContributionError] = useState<string | null>(null);
+
+  const handleOpenContribution = (goal: Goal, withdrawal: boolean) => {
+    const today = new Date();
+    const currentSavings = yearlySavings.find((s) => s.month === today.getMonth() + 1);
+    setContributionGoal(goal);
+    setIsWithdrawal(withdrawal);
+    setContributionDate(today.toISOString().split('T')[0]);
+    setContributionAmount('');
+    setContributionNote('');
+    setMonthlySavingsId(!withdrawal && currentSavings ? currentSavings.id : '');
+    setContributionMemberId('');
+    setContributionError(null);
+  };
+
+  const handleCloseContribution = () => {
+    setContributionGoal(null);
+    setContributionError(null);
+  };
+
+  const handleContributionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contributionGoal) return;
+
+    const amount = Math.abs(parseFloat(contributionAmount));
+    await addGoalContribution({
+      goalId: contributionGoal.id,
+      date: new Date(contributionDate),
+      amount: isWithdrawal ? -amount : amount,
+      note: contributionNote || undefined,
+      monthlySavingsId: monthlySavingsId || undefined,
+      memberId: contributionMemberId || undefined,
+    });
+
+    // Ошибка (например, снятие больше баланса) остаётся в модальном окне
+    const { error } = useAppStore.getState();
+    if (error) {
+      setContributionError(error);
+      useAppStore.setState({ error: null });
+      return;
     }
+    handleCloseContribution();
   };
 
-  const monthlySavings = calculations?.monthlySavings || 0;
+  const handleDeleteContribution = async (id: string) => {
+    await deleteGoalContribution(id);
+  };
+
+  const format = (value: number) =>
+    settings ? formatCurrency(value, settings.currency, settings.locale) : value.toString();
+
+  const inflationRate = settings?.inflationRate ?? 0;
+
+  // График достижения целей при распределении плановых накоплений по стратегии
+  const plannedMonthlySavings = calculations?.monthlySavings || 0;
+  const allocationGoals = goals.map((goal) => ({
+    id: goal.id,
+    priority: goal.priority,
+    remaining: calculateGoalTargetAmount(goal, inflationRate) - goal.currentAmount,
+    fixedMonthlyAmount: goal.fixedMonthlyAmount,
+  }));
+  const firstMonthAllocation = allocateSavings(plannedMonthlySavings, allocationGoals, strategy);
+  const completion = simulateGoalTimeline(allocationGoals, plannedMonthlySavings, strategy);
+  const timeline = [...goals].sort(
+    (a, b) => completion.get(a.id)! - completion.get(b.id)! || a.priority - b.priority
+  );
+  const longestMonths = Math.max(
+    1,
+    ...timeline.map((goal) => completion.get(goal.id)!).filter((months) => months !== Infinity)
+  );
+
+  // Успевают ли цели к дедлайну при фактическом темпе накоплений
+  const feasibility = analyzeGoalFeasibility(goals, {
+    savingsPace: calculateSavingsPace(yearlySavings, new Date().getMonth() + 1) ?? plannedMonthlySavings,
+    monthlyIncome: calculations?.monthlyAvailableIncome || 0,
+    strategy,
+    inflationRate,
+  });
+
+  const formatMonth = (date: Date) => `${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`;
+
+  const formatCompletion = (months: number) => {
+    if (months === 0) return 'Complete';
+    if (months === Infinity) return `Not within ${GOAL_TIMELINE_MAX_MONTHS / 12} years`;
+    const date = new Date();
+    date.setMonth(date.getMonth() + months);
+    return `${formatMonth(date)} · ${months} mo`;
+  };
 
   return (
     <div className="space-y-6">
@@ -94,6 +252,68 @@ export const Goals: React.FC = () => {
         </Button>
       </div>
 
+      {goals.length > 0 && (
+        <Card>
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Savings Allocation</h3>
+                <p className="text-sm text-gray-600">{strategyDescriptions[strategy]}</p>
+              </div>
+              <div className="w-64">
+                <Select
+                  value={strategy}
+                  onChange={(value) => setGoalAllocation(value as GoalAllocationStrategy)}
+                  options={(Object.keys(strategyLabels) as GoalAllocationStrategy[]).map((value) => ({
+                    value,
+                    label: strategyLabels[value],
+                  }))}
+                />
+              </div>
+            </div>
+
+            {strategy !== 'manual' && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Completion timeline with{' '}
+                  <span className="font-semibold">{format(plannedMonthlySavings)}</span> saved per month
+                </p>
+                {timeline.map((goal) => {
+                  const months = completion.get(goal.id)!;
+                  return (
+                    <div key={goal.id}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-700">
+                          <span className="text-gray-400 mr-2">#{goal.priority}</span>
+                          {goal.name}
+                          {firstMonthAllocation.has(goal.id) && (
+                            <span className="text-gray-500">
+                              {' '}
+                              · {format(firstMonthAllocation.get(goal.id)!)} / month now
+                            </span>
+                          )}
+                        </span>
+                        <span className="font-semibold">{formatCompletion(months)}</span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2">
+                        <div
+                          className="h-2 rounded-full"
+                          style={{
+                            width: months === Infinity ? '100%' : `${Math.max((months / longestMonths) * 100, 2)}%`,
+                            backgroundColor: goal.color,
+                            opacity: months === Infinity ? 0.3 : 1,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
       {goals.length === 0 ? (
         <Card>
           <div className="text-center py-12">
@@ -107,19 +327,28 @@ export const Goals: React.FC = () => {
       ) : (
         <div className="space-y-4">
           {goals.map((goal) => {
-            const progress = calculateGoalProgress(goal.currentAmount, goal.targetAmount);
-            const monthsToGoal = calculateMonthsToGoal(
-              goal.currentAmount,
-              goal.targetAmount,
-              monthlySavings
-            );
+            // С учётом инфляции цель к дедлайну обойдётся дороже
+            const targetAmount = calculateGoalTargetAmount(goal, inflationRate);
+            const progress = calculateGoalProgress(goal.currentAmount, targetAmount);
+            const contributions = goalContributions.filter((c) => c.goalId === goal.id);
+            // Срок считается по фактическому темпу взносов в эту цель
+            const pace = calculateContributionPace(contributions);
+            const monthsToGoal = calculateMonthsToGoal(goal.currentAmount, targetAmount, pace);
+            const balanceData = calculateGoalBalanceSeries(contributions).map((point) => ({
+              name: point.date.toLocaleDateString(),
+              balance: point.balance,
+            }));
+            const deadlineCheck = feasibility.find((item) => item.goalId === goal.id);
 
             return (
               <Card key={goal.id}>
                 <div className="space-y-4">
                   <div className="flex items-start justify-between">
                     <div>
-                      <h3 className="font-semibold text-xl text-gray-900">{goal.name}</h3>
+                      <h3 className="font-semibold text-xl text-gray-900">
+                        <span className="text-gray-400 font-normal mr-2">#{goal.priority}</span>
+                        {goal.name}
+                      </h3>
                       {goal.description && (
                         <p className="text-sm text-gray-600 mt-1">{goal.description}</p>
                       )}
@@ -165,27 +394,37 @@ export const Goals: React.FC = () => {
                       <p className="text-sm text-gray-600">Target</p>
                       <p className="font-semibold">
                         {settings
-                          ? formatCurrency(goal.targetAmount, settings.currency, settings.locale)
-                          : goal.targetAmount}
+                          ? formatCurrency(targetAmount, settings.currency, settings.locale)
+                          : targetAmount}
                       </p>
+                      {targetAmount !== goal.targetAmount && (
+                        <p className="text-xs text-gray-500">
+                          {settings
+                            ? formatCurrency(goal.targetAmount, settings.currency, settings.locale)
+                            : goal.targetAmount}{' '}
+                          today
+                        </p>
+                      )}
                     </div>
                     <div>
                       <p className="text-sm text-gray-600">Remaining</p>
                       <p className="font-semibold">
                         {settings
                           ? formatCurrency(
-                              goal.targetAmount - goal.currentAmount,
+                              targetAmount - goal.currentAmount,
                               settings.currency,
                               settings.locale
                             )
-                          : goal.targetAmount - goal.currentAmount}
+                          : targetAmount - goal.currentAmount}
                       </p>
                     </div>
                     <div>
                       <p className="text-sm text-gray-600">Est. Time</p>
                       <p className="font-semibold">
                         {monthsToGoal === Infinity
-                          ? '∞'
+                          ? pace < 0
+                            ? 'Shrinking'
+                            : '∞'
                           : monthsToGoal === 0
                           ? 'Complete!'
                           : `${monthsToGoal} months`}
@@ -193,11 +432,122 @@ export const Goals: React.FC = () => {
                     </div>
                   </div>
 
-                  {goal.deadline && (
-                    <div className="text-sm text-gray-600">
-                      Deadline: {new Date(goal.deadline).toLocaleDateString()}
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+                    <span>
+                      Avg. pace:{' '}
+                      <span className="font-semibold">{format(pace)}</span> / month
+                      {contributions.every((c) => c.isOpeningBalance) && ' · no contributions yet'}
+                    </span>
+                    {goal.accountId && (
+                      <span>Kept in: {accounts.find((account) => account.id === goal.accountId)?.name}</span>
+                    )}
+                    {goal.split && <span>Shared: {splitMethodLabels[goal.split.method].toLowerCase()}</span>}
+                    {goal.deadline && <span>Deadline: {new Date(goal.deadline).toLocaleDateString()}</span>}
+                  </div>
+
+                  {deadlineCheck && deadlineCheck.monthsNeeded > 0 && (
+                    <div className="p-3 rounded-lg bg-gray-50 space-y-2 text-sm">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <span className="text-gray-600">
+                          Needs <span className="font-semibold">{format(deadlineCheck.requiredMonthly)}</span> /
+                          month · on pace for{' '}
+                          <span className="font-semibold">{format(deadlineCheck.projectedMonthly)}</span> / month
+                        </span>
+                        <GoalStatusBadge status={deadlineCheck.status} />
+                      </div>
+                      {deadlineCheck.status !== 'on_track' && (
+                        <ul className="list-disc list-inside text-gray-600">
+                          {deadlineCheck.fixes.savingsPercentage !== undefined && (
+                            <li>
+                              Raise your savings rate to {deadlineCheck.fixes.savingsPercentage}%
+                              {settings && ` (now ${settings.savingsPercentage}%)`}
+                            </li>
+                          )}
+                          {deadlineCheck.fixes.fixedMonthlyAmount !== undefined && (
+                            <li>Set this goal's monthly amount to {format(deadlineCheck.fixes.fixedMonthlyAmount)}</li>
+                          )}
+                          {deadlineCheck.fixes.deadline && (
+                            <li>Move the deadline to {formatMonth(deadlineCheck.fixes.deadline)}</li>
+                          )}
+                          {deadlineCheck.fixes.targetAmount !== undefined && (
+                            <li>Lower the target to {format(deadlineCheck.fixes.targetAmount)}</li>
+                          )}
+                        </ul>
+                      )}
                     </div>
                   )}
+
+                  {balanceData.length > 1 && (
+                    <ResponsiveContainer width="100%" height={160}>
+                      <AreaChart data={balanceData}>
+                        <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                        <YAxis tick={{ fontSize: 12 }} width={70} />
+                        <Tooltip formatter={(value: number) => format(value)} />
+                        <Area
+                          type="stepAfter"
+                          dataKey="balance"
+                          stroke={goal.color}
+                          fill={goal.color}
+                          fillOpacity={0.2}
+                          name="Balance"
+                        />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  )}
+
+                  {contributions.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto border-t pt-3 space-y-1">
+                      {[...contributions].reverse().map((contribution) => (
+                        <div key={contribution.id} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600 truncate">
+                            {new Date(contribution.date).toLocaleDateString()}
+                            {contribution.memberId &&
+                              ` · ${householdMembers.find((member) => member.id === contribution.memberId)?.name ?? ''}`}
+                            {contribution.note && ` · ${contribution.note}`}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            <span
+                              className={`font-semibold ${
+                                contribution.amount < 0 ? 'text-red-600' : 'text-green-600'
+                              }`}
+                            >
+                              {contribution.amount > 0 ? '+' : ''}
+                              {format(contribution.amount)}
+                            </span>
+                            <button
+                              onClick={() => handleDeleteContribution(contribution.id)}
+                              className="p-0.5 rounded text-gray-400 hover:text-red-600"
+                              title="Delete entry"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => handleOpenContribution(goal, false)}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                    >
+                      <Plus className="w-4 h-4 mr-1 inline" />
+                      Add Contribution
+                    </Button>
+                    <Button
+                      onClick={() => handleOpenContribution(goal, true)}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      disabled={goal.currentAmount <= 0}
+                    >
+                      <Minus className="w-4 h-4 mr-1 inline" />
+                      Withdraw
+                    </Button>
+                  </div>
                 </div>
               </Card>
             );
@@ -230,16 +580,31 @@ export const Goals: React.FC = () => {
             required
           />
 
-          <Input
-            label="Current Amount"
-            type="number"
-            value={currentAmount}
-            onChange={setCurrentAmount}
-            placeholder="0.00"
-            step="0.01"
-            min="0"
-            required
-          />
+          {!editingId && (
+            <Input
+              label="Starting Amount (optional)"
+              type="number"
+              value={startingAmount}
+              onChange={setStartingAmount}
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="Priority" type="number" value={priority} onChange={setPriority} step="1" min="1" required />
+            <Input
+              label="Fixed Monthly Amount"
+              type="number"
+              value={fixedMonthlyAmount}
+              onChange={setFixedMonthlyAmount}
+              placeholder={strategy === 'fixed' ? '0.00' : 'Fixed strategy only'}
+              step="0.01"
+              min="0"
+              disabled={strategy !== 'fixed'}
+            />
+          </div>
 
           <Input
             label="Description (optional)"
@@ -258,6 +623,28 @@ export const Goals: React.FC = () => {
             />
           </div>
 
+          {accounts.length > 0 && (
+            <Select
+              label="Account (optional)"
+              value={accountId}
+              onChange={setAccountId}
+              options={[
+                { value: '', label: 'Not linked' },
+                ...accounts.map((account) => ({ value: account.id, label: account.name })),
+              ]}
+            />
+          )}
+
+          {householdMembers.length > 0 && (
+            <SplitRuleEditor
+              members={householdMembers}
+              value={split}
+              onChange={setSplit}
+              label="Shared Between Members"
+              allowNone
+            />
+          )}
+
           <Input
             label="Deadline (optional)"
             type="date"
@@ -265,6 +652,21 @@ export const Goals: React.FC = () => {
             onChange={setDeadline}
           />
 
+          {deadline && (
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="inflateTarget"
+                checked={inflateTarget}
+                onChange={(e) => setInflateTarget(e.target.checked)}
+                className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+              />
+              <label htmlFor="inflateTarget" className="text-sm font-medium text-gray-700">
+                Adjust target for inflation until the deadline ({inflationRate}% per year)
+              </label>
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
               Cancel
@@ -275,6 +677,74 @@ export const Goals: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <Modal
+        isOpen={contributionGoal !== null}
+        onClose={handleCloseContribution}
+        title={`${isWithdrawal ? 'Withdraw from' : 'Contribute to'} ${contributionGoal?.name ?? ''}`}
+      >
+        <form onSubmit={handleContributionSubmit} className="space-y-4">
+          <Input label="Date" type="date" value={contributionDate} onChange={setContributionDate} required />
+
+          <Input
+            label="Amount"
+            type="number"
+            value={contributionAmount}
+            onChange={setContributionAmount}
+            placeholder="0.00"
+            step="0.01"
+            min="0.01"
+            required
+          />
+
+          <Input
+            label="Note (optional)"
+            value={contributionNote}
+            onChange={setContributionNote}
+            placeholder={isWithdrawal ? 'e.g., Car repair' : 'e.g., Bonus'}
+          />
+
+          {householdMembers.length > 0 && (
+            <Select
+              label={isWithdrawal ? 'Withdrawn By' : 'Contributed By'}
+              value={contributionMemberId}
+              onChange={setContributionMemberId}
+              options={[
+                { value: '', label: 'Shared' },
+                ...householdMembers.map((member) => ({ value: member.id, label: member.name })),
+              ]}
+            />
+          )}
+
+          {!isWithdrawal && (
+            <Select
+              label="From Monthly Savings"
+              value={monthlySavingsId}
+              onChange={setMonthlySavingsId}
+              options={[
+                { value: '', label: 'Not linked' },
+                ...yearlySavings.map((s) => ({
+                  value: s.id,
+                  label: `${MONTH_NAMES[s.month - 1]} ${s.year} (saved ${format(s.savedAmount)})`,
+                })),
+              ]}
+            />
+          )}
+
+          {contributionError && (
+            <div className="text-sm p-3 rounded-lg bg-red-50 text-red-800">{contributionError}</div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseContribution} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              {isWithdrawal ? 'Withdraw' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { changeLogService } from '@/db/changeLog';
+import { useAppStore } from '@/store/useAppStore';
+import type { ChangeLogEntry, ChangeOperation } from '@/types/models';
+import { Clock, X } from 'lucide-react';
+
+/**
+ * Сколько записей журнала показывается за раз
+ */
+const PAGE_SIZE = 100;
+
+const entityLabels: Record<string, string> = {
+  incomeSources: 'Income source',
+  accounts: 'Account',
+  accountSnapshots: 'Account balance',
+  accountTransfers: 'Transfer',
+  netWorthItems: 'Net worth item',
+  netWorthValuations: 'Net worth value',
+  debts: 'Debt',
+  taxProfiles: 'Tax profile',
+  taxPayments: 'Tax payment',
+  goals: 'Goal',
+  settings: 'Settings',
+  monthlyIncomes: 'Monthly income',
+  monthlySavings: 'Monthly savings',
+  importRules: 'Import rule',
+  expenseCategories: 'Expense category',
+  recurringExpenses: 'Recurring expense',
+  monthlyExpenses: 'Monthly expense',
+  goalContributions: 'Goal contribution',
+  householdMembers: 'Household member',
+};
+
+const operationStyles: Record<ChangeOperation, { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-green-100 text-green-700' },
+  update: { label: 'Updated', className: 'bg-blue-100 text-blue-700' },
+  delete: { label: 'Deleted', className: 'bg-red-100 text-red-700' },
+};
+
+/**
+ * Поля, которые меняются при каждом изменении и не несут смысла в журнале
+ */
+const IGNORED_FIELDS = ['updatedAt'];
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Название записи для журнала: имя, если оно есть, иначе месяц или начало id
+ */
+const describeRecord = (entry: ChangeLogEntry): string => {
+  const record = (entry.after ?? entry.before) as Record<string, unknown> | undefined;
+  if (typeof record?.name === 'string') return record.name;
+  if (typeof record?.year === 'number' && typeof record?.month === 'number') {
+    return `${record.year}-${String(record.month).padStart(2, '0')}`;
+  }
+  return entry.entityId.slice(0, 8);
+};
+
+/**
+ * Поля, изменившиеся в записи: [поле, до, после]
+ */
+const getFieldChanges = (entry: ChangeLogEntry): [string, unknown, unknown][] => {
+  const before = (entry.before ?? {}) as Record<string, unknown>;
+  const after = (entry.after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => formatValue(before[field]) !== formatValue(after[field]))
+    .map((field) => [field, before[field], after[field]]);
+};
+
+export const History: React.FC = () => {
+  const navigate = useNavigate();
+  const { asOf, setAsOf } = useAppStore();
+  const [entity, setEntity] = useState('');
+  const [entityId, setEntityId] = useState('');
+  const [operation, setOperation] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [asOfDate, setAsOfDate] = useState('');
+
+  const entries = useLiveQuery(
+    () =>
+      changeLogService.query({
+        entity: entity || undefined,
+        entityId: entityId || undefined,
+        operation: (operation || undefined) as ChangeOperation | undefined,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+        to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+        limit: limit + 1,
+      }),
+    [entity, entityId, operation, fromDate, toDate, limit]
+  );
+
+  const visibleEntries = entries?.slice(0, limit) ?? [];
+  const hasMore = (entries?.length ?? 0) > limit;
+
+  const resetLimit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setLimit(PAGE_SIZE);
+  };
+
+  // Данные на конец выбранного дня
+  const handleViewAsOf = () => {
+    if (!asOfDate) return;
+    setAsOf(new Date(`${asOfDate}T23:59:59.999`));
+    navigate('/');
+  };
+
+  const entityOptions = [
+    { value: '', label: 'All records' },
+    ...Object.entries(entityLabels).map(([value, label]) => ({ value, label })),
+  ];
+  const operationOptions = [
+    { value: '', label: 'All changes' },
+    ...Object.entries(operationStyles).map(([value, style]) => ({ value, label: style.label })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">History</h1>
+        <p className="text-gray-600">Every change to your data, and how your figures looked on a past date</p>
+      </div>
+
+      <Card title="View as of a Date">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <Input
+            label="Date"
+            type="date"
+            value={asOfDate}
+            onChange={setAsOfDate}
+            max={new Date().toISOString().slice(0, 10)}
+            className="md:max-w-xs"
+          />
+          <Button onClick={handleViewAsOf} disabled={!asOfDate}>
+            <Clock className="w-4 h-4 mr-2 inline" />
+            View Dashboard
+          </Button>
+          {asOf && (
+            <Button onClick={() => setAsOf(null)} variant="secondary">
+              Back to Today
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 mt-3">
+          Dashboard and Analytics show the data as it was at the end of that day. Changes made before the history
+          log existed are not known.
+        </p>
+      </Card>
+
+      <Card title="Changes">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <Select label="Record" value={entity} onChange={resetLimit(setEntity)} options={entityOptions} />
+          <Select label="Change" value={operation} onChange={resetLimit(setOperation)} options={operationOptions} />
+          <Input label="From" type="date" value={fromDate} onChange={resetLimit(setFromDate)} />
+          <Input label="To" type="date" value={toDate} onChange={resetLimit(setToDate)} />
+        </div>
+
+        {entityId && (
+          <div className="flex items-center gap-2 mb-4 text-sm">
+            <span className="text-gray-600">Showing the history of one record</span>
+            <button
+              onClick={() => resetLimit(setEntityId)('')}
+              className="flex items-center gap-1 text-primary-600 hover:text-primary-700"
+            >
+              <X className="w-4 h-4" />
+              Clear
+            </button>
+          </div>
+        )}
+
+        {visibleEntries.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">{entries ? 'No changes found' : 'Loading...'}</p>
+        ) : (
+          <div className="space-y-3">
+            {visibleEntries.map((entry) => {
+              const style = operationStyles[entry.operation];
+              const fieldChanges = entry.operation === 'update' ? getFieldChanges(entry) : [];
+
+              return (
+                <div key={entry.id} className="p-4 rounded-xl border border-gray-100 bg-gray-50">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${style.className}`}>
+                      {style.label}
+                    </span>
+                    <span className="text-sm text-gray-600">{entityLabels[entry.entity] ?? entry.entity}</span>
+                    <button
+                      onClick={() => resetLimit(setEntityId)(entry.entityId)}
+                      className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                      title="Show the history of this record"
+                    >
+                      {describeRecord(entry)}
+                    </button>
+                    <span className="ml-auto text-xs text-gray-500">{entry.timestamp.toLocaleString()}</span>
+                  </div>
+                  {entry.reason && <p className="text-xs text-gray-500 mt-1">{entry.reason}</p>}
+                  {fieldChanges.length > 0 && (
+                    <div className="mt-2 space-y-1">
+                      {fieldChanges.map(([field, before, after]) => (
+                        <p key={field} className="text-sm text-gray-700 break-all">
+                          <span className="font-medium">{field}:</span>{' '}
+                          <span className="text-red-600 line-through">{formatValue(before)}</span>{' '}
+                          → <span className="text-green-700">{formatValue(after)}</span>
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="flex justify-center mt-6">
+            <Button onClick={() => setLimit(limit + PAGE_SIZE)} variant="outline" size="sm">
+              Load More
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
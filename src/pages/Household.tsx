@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { SplitRuleEditor, splitMethodLabels } from '@/components/SplitRuleEditor';
+import { useAppStore } from '@/store/useAppStore';
+import type { HouseholdMember, SplitRule } from '@/types/models';
+import { Plus, Trash2, Edit2, Home, ArrowRight, ChevronLeft, ChevronRight } from 'lucide-react';
+import { formatCurrency, calculateMemberBreakdownFromData } from '@/utils/calculations';
+import {
+  DEFAULT_SPLIT_RULE,
+  calculateIncomeByMember,
+  calculateSplitShares,
+  calculateSavingsByMember,
+  calculateContributionsByMember,
+  calculateSettlements,
+  calculateSettleUpTransfers,
+} from '@/utils/household';
+
+const COLORS = ['#3b82f6', '#ec4899', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444'];
+
+/**
+ * Общий фонд, взносы в который делятся по правилу: накопления или общая цель
+ */
+interface SharedPool {
+  id: string;
+  name: string;
+  rule: SplitRule;
+  contributed: Map<string, number>;
+}
+
+export const Household: React.FC = () => {
+  const {
+    householdMembers: members,
+    goals,
+    goalContributions,
+    settings,
+    viewYear,
+    viewYearIncomes,
+    viewYearSavings,
+    setViewYear,
+    addHouseholdMember,
+    updateHouseholdMember,
+    deleteHouseholdMember,
+    updateSettings,
+  } = useAppStore();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(COLORS[0]);
+
+  const handleOpenModal = (member?: HouseholdMember) => {
+    setEditingId(member?.id ?? null);
+    setName(member?.name ?? '');
+    setColor(member?.color ?? COLORS[members.length % COLORS.length]);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId) {
+      await updateHouseholdMember(editingId, { name, color });
+    } else {
+      await addHouseholdMember({ name, color });
+    }
+    handleCloseModal();
+  };
+
+  const format = (amount: number) =>
+    settings ? formatCurrency(amount, settings.currency, settings.locale) : amount.toFixed(2);
+
+  const memberName = (id: string) => members.find((member) => member.id === id)?.name ?? 'Unknown';
+
+  // Доходы года по членам семьи — основа деления пропорционально доходам
+  const yearIncomes = [...viewYearIncomes.values()].flat();
+  const incomeBreakdown = calculateMemberBreakdownFromData(yearIncomes, members);
+  const incomeByMember = calculateIncomeByMember(yearIncomes);
+
+  const savingsSplit = settings?.savingsSplit ?? DEFAULT_SPLIT_RULE;
+  const savingsShares = calculateSplitShares(savingsSplit, members, incomeByMember);
+
+  // Взаиморасчёты по накоплениям и общим целям за выбранный год
+  const pools: SharedPool[] = [
+    { id: 'savings', name: 'Monthly Savings', rule: savingsSplit, contributed: calculateSavingsByMember(viewYearSavings) },
+    ...goals.flatMap((goal) =>
+      goal.split
+        ? [
+            {
+              id: goal.id,
+              name: goal.name,
+              rule: goal.split,
+              contributed: calculateContributionsByMember(
+                goalContributions.filter(
+                  (contribution) =>
+                    contribution.goalId === goal.id && new Date(contribution.date).getFullYear() === viewYear
+                )
+              ),
+            },
+          ]
+        : []
+    ),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Household</h1>
+          <p className="text-gray-600">Who earns what and who contributes how much</p>
+        </div>
+
+        {/* Year Selector */}
+        <div className="flex items-center gap-3">
+          <Button onClick={() => setViewYear(viewYear - 1)} variant="outline" size="sm">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-xl font-semibold min-w-[80px] text-center">{viewYear}</span>
+          <Button onClick={() => setViewYear(viewYear + 1)} variant="outline" size="sm">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Members</h3>
+          <Button onClick={() => handleOpenModal()} size="sm">
+            <Plus className="w-4 h-4 mr-1 inline" />
+            Add Member
+          </Button>
+        </div>
+        {members.length === 0 ? (
+          <div className="text-center py-8">
+            <Home className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">
+              Add the people in your household, then assign income sources and contributions to them.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center gap-3 p-3 rounded-xl border border-gray-100 bg-gray-50">
+                <span className="w-4 h-4 rounded-full" style={{ backgroundColor: member.color }} />
+                <span className="flex-1 font-medium text-gray-900">{member.name}</span>
+                <button
+                  onClick={() => handleOpenModal(member)}
+                  className="p-2 text-gray-600 hover:bg-gray-200 rounded-lg transition-colors"
+                  title="Edit"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => deleteHouseholdMember(member.id)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {members.length > 0 && (
+        <>
+          <Card title={`Income by Member in ${viewYear}`}>
+            {incomeBreakdown.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No income recorded for this year</p>
+            ) : (
+              <div className="space-y-3">
+                {incomeBreakdown.map((item) => (
+                  <div key={item.memberId ?? 'shared'}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-700">{item.name}</span>
+                      <span className="text-gray-600">
+                        {format(item.amount)} · {item.percentage.toFixed(1)}%
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full"
+                        style={{ width: `${item.percentage}%`, backgroundColor: item.color }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          <Card title="Savings Split">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <SplitRuleEditor
+                members={members}
+                value={savingsSplit}
+                onChange={(rule) => updateSettings({ savingsSplit: rule })}
+                label="Monthly savings are split"
+              />
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Shares in {viewYear}</p>
+                {members.map((member) => (
+                  <div key={member.id} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{member.name}</span>
+                    <span className="font-semibold">{((savingsShares.get(member.id) ?? 0) * 100).toFixed(1)}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mt-4">
+              Record each member's savings on the Monthly Income page. Shared goals get their own split in the goal
+              settings.
+            </p>
+          </Card>
+
+          <Card title={`Settle Up for ${viewYear}`}>
+            <div className="space-y-6">
+              {pools.map((pool) => {
+                const shares = calculateSplitShares(pool.rule, members, incomeByMember);
+                const settlements = calculateSettlements(members, pool.contributed, shares);
+                const transfers = calculateSettleUpTransfers(settlements);
+                const total = settlements.reduce((sum, item) => sum + item.contributed, 0);
+
+                return (
+                  <div key={pool.id} className="space-y-3">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <h4 className="font-semibold text-gray-900">{pool.name}</h4>
+                      <span className="text-sm text-gray-500">
+                        {splitMethodLabels[pool.rule.method]} · {format(total)} contributed
+                      </span>
+                    </div>
+
+                    {total === 0 ? (
+                      <p className="text-sm text-gray-500">No contributions by members this year</p>
+                    ) : (
+                      <>
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500 border-b">
+                                <th className="py-2 pr-4 font-medium">Member</th>
+                                <th className="py-2 pr-4 font-medium text-right">Contributed</th>
+                                <th className="py-2 pr-4 font-medium text-right">Fair share</th>
+                                <th className="py-2 font-medium text-right">Balance</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {settlements.map((item) => (
+                                <tr key={item.memberId} className="border-b border-gray-100">
+                                  <td className="py-2 pr-4 text-gray-900">{memberName(item.memberId)}</td>
+                                  <td className="py-2 pr-4 text-right">{format(item.contributed)}</td>
+                                  <td className="py-2 pr-4 text-right">{format(item.fairShare)}</td>
+                                  <td
+                                    className={`py-2 text-right font-semibold ${
+                                      item.balance >= 0 ? 'text-green-600' : 'text-red-600'
+                                    }`}
+                                  >
+                                    {item.balance >= 0 ? 'Ahead ' : 'Behind '}
+                                    {format(Math.abs(item.balance))}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+
+                        {transfers.length === 0 ? (
+                          <p className="text-sm text-green-700">Everyone is even</p>
+                        ) : (
+                          <div className="space-y-1">
+                            {transfers.map((transfer) => (
+                              <p
+                                key={`${transfer.fromMemberId}-${transfer.toMemberId}`}
+                                className="flex items-center gap-2 text-sm text-gray-700"
+                              >
+                                <span className="font-medium">{memberName(transfer.fromMemberId)}</span>
+                                <ArrowRight className="w-4 h-4 text-gray-400" />
+                                <span className="font-medium">{memberName(transfer.toMemberId)}</span>
+                                <span className="ml-auto font-semibold">{format(transfer.amount)}</span>
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-sm text-gray-500 mt-4">
+              Only contributions assigned to a member count. Income-based splits use each member's income for the year.
+            </p>
+          </Card>
+        </>
+      )}
+
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingId ? 'Edit Member' : 'Add Member'} size="sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input label="Name" value={name} onChange={setName} placeholder="e.g., Alex" required />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+            <div className="flex gap-2">
+              {COLORS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  className={`w-8 h-8 rounded-full ${color === option ? 'ring-2 ring-offset-2 ring-gray-400' : ''}`}
+                  style={{ backgroundColor: option }}
+                  aria-label={option}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              {editingId ? 'Update' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
@@ -6,28 +6,133 @@ import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { useAppStore } from '@/store/useAppStore';
 import { IncomeType, IncomeFrequency } from '@/types/models';
-import { Plus, Trash2, Edit2, DollarSign } from 'lucide-react';
-import { formatCurrency, convertToMonthly } from '@/utils/calculations';
+import type { IncomeSource, IncomeAmountChange, AmountBasis, IncomeSourceDeletion } from '@/types/models';
+import { Plus, Trash2, Edit2, DollarSign, TrendingUp, X } from 'lucide-react';
+import {
+  formatCurrency,
+  convertToMonthly,
+  compareMonths,
+  getSourcePause,
+  isSourceInRange,
+} from '@/utils/calculations';
+import { getDefaultAmountBasis } from '@/utils/tax';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+interface PauseFormState {
+  start: string;
+  end: string;
+  reason: string;
+}
+
+// Значение поля type="month" (YYYY-MM) и обратно
+const toMonthInput = (date?: Date) => {
+  if (!date) return '';
+  const value = new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const fromMonthInput = (value: string) => {
+  const [year, month] = value.split('-').map(Number);
+  return new Date(year, month - 1, 1);
+};
+
+// Значение поля type="date" (YYYY-MM-DD) и обратно, по местному времени:
+// расчёты выплат читают дату через getFullYear/getMonth/getDate
+const toDateInput = (date?: Date) => {
+  if (!date) return '';
+  const value = new Date(date);
+  return `${toMonthInput(value)}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const deletionOptions: { value: IncomeSourceDeletion; label: string; description: string }[] = [
+  {
+    value: 'end',
+    label: 'End this month',
+    description: 'Keep the source and its past months as history. Future months are removed.',
+  },
+  {
+    value: 'future',
+    label: 'Delete, keep past months',
+    description: 'Remove the source and its future months. Past months stay as one-time income.',
+  },
+  {
+    value: 'purge',
+    label: 'Delete everything',
+    description: 'Remove the source and every month it generated, including past months.',
+  },
+];
+
+const toMonthOf = (date: Date) => {
+  const value = new Date(date);
+  return { year: value.getFullYear(), month: value.getMonth() + 1 };
+};
 
 export const IncomeSources: React.FC = () => {
-  const { incomeSources, settings, addIncomeSource, updateIncomeSource, deleteIncomeSource } =
-    useAppStore();
+  const {
+    incomeSources,
+    householdMembers,
+    settings,
+    addIncomeSource,
+    updateIncomeSource,
+    deleteIncomeSource,
+    scheduleAmountChange,
+    removeAmountChange,
+  } = useAppStore();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
 
+  // Schedule change state
+  const [changeSourceId, setChangeSourceId] = useState<string | null>(null);
+  const [changeMonth, setChangeMonth] = useState('');
+  const [changeAmount, setChangeAmount] = useState('');
+
+  // Delete modal state
+  const [deletingSource, setDeletingSource] = useState<IncomeSource | null>(null);
+  const [deletionMode, setDeletionMode] = useState<IncomeSourceDeletion>('end');
+
+  const now = new Date();
+  const currentMonth = { year: now.getFullYear(), month: now.getMonth() + 1 };
+
   // Form state
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
   const [type, setType] = useState<IncomeType>(IncomeType.SALARY);
+  const [amountBasis, setAmountBasis] = useState<AmountBasis>(getDefaultAmountBasis(IncomeType.SALARY));
   const [frequency, setFrequency] = useState<IncomeFrequency>(IncomeFrequency.MONTHLY);
   const [isActive, setIsActive] = useState(true);
+  const [anchorDate, setAnchorDate] = useState('');
+  const [payoutMonth, setPayoutMonth] = useState('12');
+  const [spreadYearly, setSpreadYearly] = useState(false);
+  const [payoutDate, setPayoutDate] = useState('');
+  const [startMonth, setStartMonth] = useState('');
+  const [endMonth, setEndMonth] = useState('');
+  const [pauses, setPauses] = useState<PauseFormState[]>([]);
+  const [memberId, setMemberId] = useState('');
 
   const resetForm = () => {
     setName('');
     setAmount('');
     setType(IncomeType.SALARY);
+    setAmountBasis(getDefaultAmountBasis(IncomeType.SALARY));
     setFrequency(IncomeFrequency.MONTHLY);
     setIsActive(true);
+    setAnchorDate('');
+    setPayoutMonth('12');
+    setSpreadYearly(false);
+    setPayoutDate('');
+    setStartMonth('');
+    setEndMonth('');
+    setPauses([]);
+    setMemberId('');
     setEditingId(null);
   };
 
@@ -38,8 +143,23 @@ export const IncomeSources: React.FC = () => {
         setName(source.name);
         setAmount(source.amount.toString());
         setType(source.type);
+        setAmountBasis(source.amountBasis);
         setFrequency(source.frequency);
         setIsActive(source.isActive);
+        setAnchorDate(toDateInput(source.anchorDate));
+        setPayoutMonth((source.payoutMonth ?? 12).toString());
+        setSpreadYearly(source.spreadYearly ?? false);
+        setPayoutDate(toDateInput(source.payoutDate));
+        setStartMonth(toMonthInput(source.startDate));
+        setEndMonth(toMonthInput(source.endDate));
+        setPauses(
+          (source.pauses || []).map((pause) => ({
+            start: toMonthInput(pause.startDate),
+            end: toMonthInput(pause.endDate),
+            reason: pause.reason,
+          }))
+        );
+        setMemberId(source.memberId ?? '');
         setEditingId(id);
       }
     } else {
@@ -53,15 +173,55 @@ export const IncomeSources: React.FC = () => {
     resetForm();
   };
 
+  // Для нового источника база суммы следует за типом, пока пользователь не выбрал её сам
+  const handleTypeChange = (newType: IncomeType) => {
+    if (!editingId && amountBasis === getDefaultAmountBasis(type)) {
+      setAmountBasis(getDefaultAmountBasis(newType));
+    }
+    setType(newType);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const isRecurring = frequency !== IncomeFrequency.ONE_TIME;
+    const validPauses = pauses.filter((pause) => pause.start && pause.end);
+
+    // Строки YYYY-MM сравниваются как даты
+    if (startMonth && endMonth && endMonth < startMonth) {
+      alert('The end month must not be before the start month');
+      return;
+    }
+    if (validPauses.some((pause) => pause.end < pause.start)) {
+      alert('Each pause must end on or after its start month');
+      return;
+    }
+
     const data = {
       name,
       amount: parseFloat(amount),
       type,
+      amountBasis,
       frequency,
       isActive,
+      // Поля расписания храним только для соответствующей периодичности
+      anchorDate:
+        (frequency === IncomeFrequency.WEEKLY || frequency === IncomeFrequency.BIWEEKLY) && anchorDate
+          ? fromDateInput(anchorDate)
+          : undefined,
+      payoutMonth: frequency === IncomeFrequency.YEARLY && !spreadYearly ? parseInt(payoutMonth) : undefined,
+      spreadYearly: frequency === IncomeFrequency.YEARLY ? spreadYearly : undefined,
+      payoutDate: frequency === IncomeFrequency.ONE_TIME && payoutDate ? fromDateInput(payoutDate) : undefined,
+      startDate: isRecurring && startMonth ? fromMonthInput(startMonth) : undefined,
+      endDate: isRecurring && endMonth ? fromMonthInput(endMonth) : undefined,
+      pauses: isRecurring
+        ? validPauses.map((pause) => ({
+            startDate: fromMonthInput(pause.start),
+            endDate: fromMonthInput(pause.end),
+            reason: pause.reason.trim(),
+          }))
+        : [],
+      memberId: memberId || undefined,
     };
 
     if (editingId) {
@@ -73,10 +233,47 @@ export const IncomeSources: React.FC = () => {
     handleCloseModal();
   };
 
-  const handleDelete = async (id: string) => {
-    if (confirm('Are you sure you want to delete this income source?')) {
-      await deleteIncomeSource(id);
-    }
+  const formatMonth = (change: { year: number; month: number }) =>
+    `${MONTHS[change.month - 1].slice(0, 3)} ${change.year}`;
+
+  const formatAmount = (value: number) =>
+    settings ? formatCurrency(value, settings.currency, settings.locale) : value;
+
+  const updatePause = (index: number, updates: Partial<PauseFormState>) => {
+    setPauses((prev) => prev.map((pause, i) => (i === index ? { ...pause, ...updates } : pause)));
+  };
+
+  const handleOpenChangeModal = (source: IncomeSource) => {
+    // По умолчанию — следующий месяц
+    const next = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    setChangeMonth(`${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`);
+    setChangeAmount(source.amount.toString());
+    setChangeSourceId(source.id);
+  };
+
+  const handleCloseChangeModal = () => {
+    setChangeSourceId(null);
+    setChangeMonth('');
+    setChangeAmount('');
+  };
+
+  const handleScheduleChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!changeSourceId) return;
+
+    const [year, month] = changeMonth.split('-').map(Number);
+    await scheduleAmountChange(changeSourceId, { year, month, amount: parseFloat(changeAmount) });
+    handleCloseChangeModal();
+  };
+
+  const handleRemoveChange = async (source: IncomeSource, change: IncomeAmountChange) => {
+    await removeAmountChange(source.id, change.year, change.month);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingSource) return;
+    await deleteIncomeSource(deletingSource.id, deletionMode);
+    setDeletingSource(null);
   };
 
   const typeLabels: Record<IncomeType, string> = {
@@ -91,6 +288,7 @@ export const IncomeSources: React.FC = () => {
   const frequencyLabels: Record<IncomeFrequency, string> = {
     [IncomeFrequency.MONTHLY]: 'Monthly',
     [IncomeFrequency.WEEKLY]: 'Weekly',
+    [IncomeFrequency.BIWEEKLY]: 'Bi-weekly',
     [IncomeFrequency.YEARLY]: 'Yearly',
     [IncomeFrequency.ONE_TIME]: 'One-time',
   };
@@ -128,12 +326,28 @@ export const IncomeSources: React.FC = () => {
                 <div className="flex items-start justify-between">
                   <div>
                     <h3 className="font-semibold text-lg text-gray-900">{source.name}</h3>
-                    <p className="text-sm text-gray-500">{typeLabels[source.type]}</p>
+                    <p className="text-sm text-gray-500">
+                      {typeLabels[source.type]}
+                      {source.memberId && ` · ${householdMembers.find((m) => m.id === source.memberId)?.name ?? ''}`}
+                    </p>
                   </div>
-                  {!source.isActive && (
+                  {!source.isActive ? (
                     <span className="px-2 py-1 text-xs bg-gray-200 text-gray-600 rounded-full">
                       Inactive
                     </span>
+                  ) : source.frequency !== IncomeFrequency.ONE_TIME &&
+                    !isSourceInRange(source, currentMonth.year, currentMonth.month) ? (
+                    <span className="px-2 py-1 text-xs bg-gray-200 text-gray-600 rounded-full">
+                      {source.startDate && compareMonths(currentMonth, toMonthOf(source.startDate)) < 0
+                        ? 'Not started'
+                        : 'Ended'}
+                    </span>
+                  ) : (
+                    getSourcePause(source, currentMonth.year, currentMonth.month) && (
+                      <span className="px-2 py-1 text-xs bg-yellow-100 text-yellow-700 rounded-full">
+                        Paused
+                      </span>
+                    )
                   )}
                 </div>
 
@@ -143,7 +357,29 @@ export const IncomeSources: React.FC = () => {
                       ? formatCurrency(source.amount, settings.currency, settings.locale)
                       : source.amount}
                   </p>
-                  <p className="text-sm text-gray-500">{frequencyLabels[source.frequency]}</p>
+                  <p className="text-sm text-gray-500">
+                    {frequencyLabels[source.frequency]}
+                    {source.amountBasis === 'gross' && ' · before tax'}
+                    {source.frequency === IncomeFrequency.YEARLY &&
+                      (source.spreadYearly
+                        ? ' · spread evenly'
+                        : ` · paid in ${MONTHS[(source.payoutMonth ?? 12) - 1]}`)}
+                    {source.frequency === IncomeFrequency.ONE_TIME &&
+                      source.payoutDate &&
+                      ` · ${new Date(source.payoutDate).toLocaleDateString()}`}
+                  </p>
+                  {(source.startDate || source.endDate) && (
+                    <p className="text-sm text-gray-500">
+                      {source.startDate ? formatMonth(toMonthOf(source.startDate)) : 'Ongoing'} –{' '}
+                      {source.endDate ? formatMonth(toMonthOf(source.endDate)) : 'ongoing'}
+                    </p>
+                  )}
+                  {source.pauses?.map((pause) => (
+                    <p key={`${pause.startDate}`} className="text-xs text-yellow-700">
+                      Paused {formatMonth(toMonthOf(pause.startDate))} – {formatMonth(toMonthOf(pause.endDate))}
+                      {pause.reason && ` · ${pause.reason}`}
+                    </p>
+                  ))}
                 </div>
 
                 <div className="pt-3 border-t">
@@ -161,6 +397,61 @@ export const IncomeSources: React.FC = () => {
                   </p>
                 </div>
 
+                {source.amountHistory && source.amountHistory.length > 0 && (
+                  <div className="pt-3 border-t">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-sm font-medium text-gray-700">Amount History</p>
+                      <button
+                        onClick={() => handleOpenChangeModal(source)}
+                        className="inline-flex items-center gap-1 text-xs text-primary-600 hover:text-primary-700"
+                      >
+                        <TrendingUp className="w-3 h-3" />
+                        Schedule change
+                      </button>
+                    </div>
+                    <ul className="space-y-1">
+                      {source.amountHistory.map((change, index, history) => {
+                        const isFuture = compareMonths(change, currentMonth) > 0;
+                        const next = history[index + 1];
+                        const isCurrent =
+                          !isFuture && (!next || compareMonths(next, currentMonth) > 0);
+
+                        return (
+                          <li
+                            key={`${change.year}-${change.month}`}
+                            className="flex items-center justify-between text-sm"
+                          >
+                            <span className={isCurrent ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+                              from {formatMonth(change)}: {formatAmount(change.amount)}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              {isFuture && (
+                                <span className="px-2 py-0.5 text-xs bg-primary-50 text-primary-700 rounded-full">
+                                  Scheduled
+                                </span>
+                              )}
+                              {isCurrent && (
+                                <span className="px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded-full">
+                                  Current
+                                </span>
+                              )}
+                              {history.length > 1 && (
+                                <button
+                                  onClick={() => handleRemoveChange(source, change)}
+                                  className="p-0.5 rounded text-gray-400 hover:text-red-600"
+                                  title="Remove change"
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              )}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="flex gap-2 pt-2">
                   <Button
                     onClick={() => handleOpenModal(source.id)}
@@ -172,7 +463,10 @@ export const IncomeSources: React.FC = () => {
                     Edit
                   </Button>
                   <Button
-                    onClick={() => handleDelete(source.id)}
+                    onClick={() => {
+                      setDeletionMode('end');
+                      setDeletingSource(source);
+                    }}
                     variant="danger"
                     size="sm"
                     className="flex-1"
@@ -213,10 +507,16 @@ export const IncomeSources: React.FC = () => {
             required
           />
 
+          {editingId && (
+            <p className="text-xs text-gray-500 -mt-2">
+              A new amount applies from this month on. Earlier months keep their recorded amounts.
+            </p>
+          )}
+
           <Select
             label="Type"
             value={type}
-            onChange={(value) => setType(value as IncomeType)}
+            onChange={(value) => handleTypeChange(value as IncomeType)}
             options={Object.values(IncomeType).map((t) => ({
               value: t,
               label: typeLabels[t],
@@ -224,6 +524,28 @@ export const IncomeSources: React.FC = () => {
             required
           />
 
+          <Select
+            label="Amount Is"
+            value={amountBasis}
+            onChange={(value) => setAmountBasis(value as AmountBasis)}
+            options={[
+              { value: 'net', label: 'Take-home (after tax)' },
+              { value: 'gross', label: 'Before tax (gross)' },
+            ]}
+          />
+
+          {householdMembers.length > 0 && (
+            <Select
+              label="Earned By"
+              value={memberId}
+              onChange={setMemberId}
+              options={[
+                { value: '', label: 'Shared' },
+                ...householdMembers.map((member) => ({ value: member.id, label: member.name })),
+              ]}
+            />
+          )}
+
           <Select
             label="Frequency"
             value={frequency}
@@ -235,6 +557,117 @@ export const IncomeSources: React.FC = () => {
             required
           />
 
+          {(frequency === IncomeFrequency.WEEKLY || frequency === IncomeFrequency.BIWEEKLY) && (
+            <Input
+              label="A Recent Payday"
+              type="date"
+              value={anchorDate}
+              onChange={setAnchorDate}
+            />
+          )}
+
+          {frequency === IncomeFrequency.YEARLY && (
+            <>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="spreadYearly"
+                  checked={spreadYearly}
+                  onChange={(e) => setSpreadYearly(e.target.checked)}
+                  className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="spreadYearly" className="text-sm font-medium text-gray-700">
+                  Spread evenly across all months
+                </label>
+              </div>
+              {!spreadYearly && (
+                <Select
+                  label="Payout Month"
+                  value={payoutMonth}
+                  onChange={setPayoutMonth}
+                  options={MONTHS.map((m, i) => ({ value: (i + 1).toString(), label: m }))}
+                />
+              )}
+            </>
+          )}
+
+          {frequency === IncomeFrequency.ONE_TIME && (
+            <Input
+              label="Payout Date"
+              type="date"
+              value={payoutDate}
+              onChange={setPayoutDate}
+              required
+            />
+          )}
+
+          {frequency !== IncomeFrequency.ONE_TIME && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <Input label="Starts (optional)" type="month" value={startMonth} onChange={setStartMonth} />
+                <Input label="Ends (optional)" type="month" value={endMonth} onChange={setEndMonth} />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-700">Pauses</span>
+                  <button
+                    type="button"
+                    onClick={() => setPauses((prev) => [...prev, { start: '', end: '', reason: '' }])}
+                    className="inline-flex items-center gap-1 text-xs text-primary-600 hover:text-primary-700"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add pause
+                  </button>
+                </div>
+                {pauses.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    No pauses. Add one for parental leave, a sabbatical or any other break in payments.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {pauses.map((pause, index) => (
+                      <div key={index} className="p-3 rounded-xl border border-gray-200 space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            label="From"
+                            type="month"
+                            value={pause.start}
+                            onChange={(value) => updatePause(index, { start: value })}
+                            required
+                          />
+                          <Input
+                            label="To"
+                            type="month"
+                            value={pause.end}
+                            onChange={(value) => updatePause(index, { end: value })}
+                            required
+                          />
+                        </div>
+                        <div className="flex items-end gap-2">
+                          <Input
+                            label="Reason"
+                            value={pause.reason}
+                            onChange={(value) => updatePause(index, { reason: value })}
+                            placeholder="e.g., Parental leave"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setPauses((prev) => prev.filter((_, i) => i !== index))}
+                            className="p-2 mb-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                            title="Remove pause"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
           <div className="flex items-center gap-2">
             <input
               type="checkbox"
@@ -258,6 +691,77 @@ export const IncomeSources: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      {/* Schedule Amount Change Modal */}
+      <Modal isOpen={changeSourceId !== null} onClose={handleCloseChangeModal} title="Schedule Amount Change">
+        <form onSubmit={handleScheduleChange} className="space-y-4">
+          <Input
+            label="Effective From"
+            type="month"
+            value={changeMonth}
+            onChange={setChangeMonth}
+            required
+          />
+
+          <Input
+            label="New Amount"
+            type="number"
+            value={changeAmount}
+            onChange={setChangeAmount}
+            placeholder="0.00"
+            step="0.01"
+            min="0"
+            required
+          />
+
+          <p className="text-xs text-gray-500">
+            Months before the effective month keep their current amounts.
+          </p>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseChangeModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              Schedule
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Delete Modal */}
+      <Modal
+        isOpen={deletingSource !== null}
+        onClose={() => setDeletingSource(null)}
+        title={`Delete ${deletingSource?.name ?? 'Income Source'}`}
+      >
+        <div className="space-y-3">
+          {deletionOptions.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setDeletionMode(option.value)}
+              className={`w-full text-left p-4 rounded-xl border-2 transition-all ${
+                deletionMode === option.value
+                  ? 'border-primary-500 bg-primary-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <p className="font-medium text-gray-900">{option.label}</p>
+              <p className="text-sm text-gray-600">{option.description}</p>
+            </button>
+          ))}
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={() => setDeletingSource(null)} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleDelete} variant="danger" className="flex-1">
+              {deletionMode === 'end' ? 'End Source' : 'Delete'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </div>
   );
 };
@@ -1,14 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
-import { monthlyIncomeService, monthlySavingsService } from '@/db/services';
-import type { MonthlyIncome as MonthlyIncomeType, MonthlySavings, IncomeType } from '@/types/models';
+import { CsvImportModal } from '@/components/CsvImportModal';
+import type { MonthlyIncome as MonthlyIncomeType, MonthlySavings, IncomeType, AmountBasis } from '@/types/models';
 import { IncomeType as IncomeTypeEnum } from '@/types/models';
-import { Plus, Check, X, ChevronLeft, ChevronRight, PiggyBank } from 'lucide-react';
-import { formatCurrency } from '@/utils/calculations';
+import { Plus, Check, X, ChevronLeft, ChevronRight, PiggyBank, Upload } from 'lucide-react';
+import { formatCurrency, calculateMonthlyIncomeFromData, calculateMonthlyTaxFromData } from '@/utils/calculations';
+import { calculateAnnualGrossByType, calculateTax, getDefaultAmountBasis } from '@/utils/tax';
 import { useAppStore } from '@/store/useAppStore';
 
 const MONTHS = [
@@ -17,41 +18,39 @@ const MONTHS = [
 ];
 
 export const MonthlyIncome: React.FC = () => {
-  const { settings } = useAppStore();
+  const {
+    settings,
+    taxProfiles,
+    householdMembers,
+    viewYear: selectedYear,
+    viewYearIncomes: monthlyData,
+    viewYearSavings,
+    setViewYear: setSelectedYear,
+    setMonthlySavings,
+    setMonthlyMemberSavings,
+    addOneTimeIncome,
+    toggleMonthlyIncome,
+    setMonthlyIncomeBasis,
+    deleteMonthlyIncome,
+  } = useAppStore();
   const currentDate = new Date();
-  const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear());
-  const [monthlyData, setMonthlyData] = useState<Map<number, MonthlyIncomeType[]>>(new Map());
-  const [monthlySavingsData, setMonthlySavingsData] = useState<Map<number, MonthlySavings | undefined>>(new Map());
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState<number | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // Form state for adding one-time income
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
   const [type, setType] = useState<IncomeType>(IncomeTypeEnum.FREELANCE);
+  const [amountBasis, setAmountBasis] = useState<AmountBasis>(getDefaultAmountBasis(IncomeTypeEnum.FREELANCE));
+  const [memberId, setMemberId] = useState('');
 
-  useEffect(() => {
-    loadMonthlyData();
-  }, [selectedYear]);
-
-  const loadMonthlyData = async () => {
-    const data = new Map<number, MonthlyIncomeType[]>();
-    const savingsData = new Map<number, MonthlySavings | undefined>();
-
-    for (let month = 1; month <= 12; month++) {
-      const incomes = await monthlyIncomeService.getByMonth(selectedYear, month);
-      const savings = await monthlySavingsService.getByMonth(selectedYear, month);
-      data.set(month, incomes);
-      savingsData.set(month, savings);
-    }
-
-    setMonthlyData(data);
-    setMonthlySavingsData(savingsData);
+  const handleToggleActive = async (id: string) => {
+    await toggleMonthlyIncome(id);
   };
 
-  const handleToggleActive = async (id: string) => {
-    await monthlyIncomeService.toggleActive(id);
-    await loadMonthlyData();
+  const handleToggleBasis = async (income: MonthlyIncomeType) => {
+    await setMonthlyIncomeBasis(income.id, income.amountBasis === 'gross' ? 'net' : 'gross');
   };
 
   const handleOpenModal = (month: number) => {
@@ -59,9 +58,18 @@ export const MonthlyIncome: React.FC = () => {
     setName('');
     setAmount('');
     setType(IncomeTypeEnum.FREELANCE);
+    setAmountBasis(getDefaultAmountBasis(IncomeTypeEnum.FREELANCE));
+    setMemberId('');
     setIsModalOpen(true);
   };
 
+  const handleTypeChange = (newType: IncomeType) => {
+    if (amountBasis === getDefaultAmountBasis(type)) {
+      setAmountBasis(getDefaultAmountBasis(newType));
+    }
+    setType(newType);
+  };
+
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setSelectedMonth(null);
@@ -71,45 +79,73 @@ export const MonthlyIncome: React.FC = () => {
     e.preventDefault();
     if (selectedMonth === null) return;
 
-    await monthlyIncomeService.addOneTime({
+    await addOneTimeIncome({
       year: selectedYear,
       month: selectedMonth,
       amount: parseFloat(amount),
       name,
       type,
+      amountBasis,
+      memberId: memberId || undefined,
     });
 
-    await loadMonthlyData();
     handleCloseModal();
   };
 
-  const handleDeleteIncome = async (id: string) => {
-    if (confirm('Delete this income?')) {
-      await monthlyIncomeService.delete(id);
-      await loadMonthlyData();
-    }
+  const handleImported = (count: number) => {
+    alert(count > 0 ? `Imported ${count} income entries` : 'Nothing new to import');
   };
 
-  const calculateMonthTotal = (month: number): number => {
-    const incomes = monthlyData.get(month) || [];
-    return incomes
-      .filter(income => income.isActive)
-      .reduce((sum, income) => sum + income.amount, 0);
+  const handleDeleteIncome = async (id: string) => {
+    await deleteMonthlyIncome(id);
   };
 
+  // Эффективные ставки налога считаются по доходам выбранного года
+  const taxRates = calculateTax(
+    taxProfiles.find((profile) => profile.id === settings?.taxProfileId),
+    calculateAnnualGrossByType(monthlyData)
+  ).effectiveRates;
+
+  const calculateMonthTotal = (month: number): number => calculateMonthlyIncomeFromData(monthlyData.get(month) || []);
+
+  const calculateMonthTax = (month: number): number =>
+    calculateMonthlyTaxFromData(monthlyData.get(month) || [], taxRates);
+
+  // Процент накоплений — от дохода на руки
   const calculateSavingsPercentage = (month: number): number => {
-    const total = calculateMonthTotal(month);
-    const savings = monthlySavingsData.get(month);
-    if (!total || !savings) return 0;
-    return (savings.savedAmount / total) * 100;
+    const net = calculateMonthTotal(month) - calculateMonthTax(month);
+    const savings = viewYearSavings.find((item) => item.month === month);
+    if (net <= 0 || !savings) return 0;
+    return (savings.savedAmount / net) * 100;
   };
 
   const handleSavingsUpdate = async (month: number, amount: string) => {
     const savedAmount = parseFloat(amount) || 0;
-    await monthlySavingsService.setSavings(selectedYear, month, savedAmount);
-    await loadMonthlyData();
+    await setMonthlySavings(selectedYear, month, savedAmount);
+  };
+
+  // Часть накоплений месяца, которая ни за кем из членов семьи не числится
+  const getSharedSavings = (savings?: MonthlySavings): number =>
+    savings
+      ? savings.savedAmount - Object.values(savings.memberAmounts ?? {}).reduce((sum, value) => sum + value, 0)
+      : 0;
+
+  // memberId null — общая часть накоплений
+  const handleMemberSavingsUpdate = async (month: number, memberId: string | null, amount: string) => {
+    const savings = viewYearSavings.find((item) => item.month === month);
+    const value = parseFloat(amount) || 0;
+    const memberAmounts = { ...savings?.memberAmounts };
+    if (memberId) memberAmounts[memberId] = value;
+    await setMonthlyMemberSavings(selectedYear, month, memberAmounts, memberId ? getSharedSavings(savings) : value);
   };
 
+  const getMemberName = (id?: string) => householdMembers.find((member) => member.id === id)?.name;
+
+  const savingsRows: { id: string | null; name: string }[] = [
+    ...householdMembers.map((member) => ({ id: member.id, name: member.name })),
+    { id: null, name: 'Shared' },
+  ];
+
   const typeLabels: Record<IncomeType, string> = {
     [IncomeTypeEnum.SALARY]: 'Salary',
     [IncomeTypeEnum.FREELANCE]: 'Freelance',
@@ -130,6 +166,10 @@ export const MonthlyIncome: React.FC = () => {
 
         {/* Year Selector */}
         <div className="flex items-center gap-3">
+          <Button onClick={() => setIsImportOpen(true)} variant="outline" size="sm">
+            <Upload className="w-4 h-4 mr-1 inline" />
+            Import CSV
+          </Button>
           <Button
             onClick={() => setSelectedYear(selectedYear - 1)}
             variant="outline"
@@ -156,7 +196,8 @@ export const MonthlyIncome: React.FC = () => {
           const month = index + 1;
           const incomes = monthlyData.get(month) || [];
           const total = calculateMonthTotal(month);
-          const savings = monthlySavingsData.get(month);
+          const tax = calculateMonthTax(month);
+          const savings = viewYearSavings.find((item) => item.month === month);
           const savingsPercentage = calculateSavingsPercentage(month);
           const isCurrentMonth =
             month === currentDate.getMonth() + 1 &&
@@ -209,7 +250,20 @@ export const MonthlyIncome: React.FC = () => {
                             {settings
                               ? formatCurrency(income.amount, settings.currency, settings.locale)
                               : income.amount}
+                            <button
+                              onClick={() => handleToggleBasis(income)}
+                              className="ml-1 px-1 rounded text-gray-400 hover:bg-gray-100"
+                              title="Switch between before-tax and take-home"
+                            >
+                              {income.amountBasis}
+                            </button>
                           </p>
+                          {getMemberName(income.memberId) && (
+                            <p className="text-xs text-gray-500 truncate">{getMemberName(income.memberId)}</p>
+                          )}
+                          {!income.isActive && income.inactiveReason && (
+                            <p className="text-xs text-yellow-700 truncate">{income.inactiveReason}</p>
+                          )}
                         </div>
                         <div className="flex items-center gap-1 ml-2">
                           {income.isRecurring ? (
@@ -245,12 +299,26 @@ export const MonthlyIncome: React.FC = () => {
 
                 {/* Month Total */}
                 <div className="pt-2 border-t space-y-2">
+                  {tax > 0 && (
+                    <>
+                      <div className="flex justify-between items-center text-sm text-gray-500">
+                        <span>Income:</span>
+                        <span>{settings ? formatCurrency(total, settings.currency, settings.locale) : total}</span>
+                      </div>
+                      <div className="flex justify-between items-center text-sm text-gray-500">
+                        <span>Tax:</span>
+                        <span className="text-red-600">
+                          −{settings ? formatCurrency(tax, settings.currency, settings.locale) : tax}
+                        </span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-gray-600">Income:</span>
+                    <span className="text-sm font-medium text-gray-600">{tax > 0 ? 'Take-home:' : 'Income:'}</span>
                     <span className="text-lg font-bold text-primary-600">
                       {settings
-                        ? formatCurrency(total, settings.currency, settings.locale)
-                        : total}
+                        ? formatCurrency(total - tax, settings.currency, settings.locale)
+                        : total - tax}
                     </span>
                   </div>
 
@@ -260,22 +328,51 @@ export const MonthlyIncome: React.FC = () => {
                       <PiggyBank className="w-4 h-4 text-green-600" />
                       <span className="text-sm font-medium text-gray-600">Saved:</span>
                     </div>
-                    <div className="flex gap-2 items-center">
-                      <input
-                        type="number"
-                        value={savings?.savedAmount || ''}
-                        onChange={(e) => handleSavingsUpdate(month, e.target.value)}
-                        placeholder="0"
-                        step="0.01"
-                        min="0"
-                        className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-green-500"
-                      />
-                      {savingsPercentage > 0 && (
-                        <span className="text-sm font-semibold text-green-600 min-w-[50px]">
-                          {savingsPercentage.toFixed(1)}%
-                        </span>
-                      )}
-                    </div>
+                    {householdMembers.length > 0 ? (
+                      // Накопления по членам семьи: общая сумма складывается из их взносов
+                      <div className="space-y-1">
+                        {savingsRows.map((row) => (
+                          <div key={row.id ?? 'shared'} className="flex gap-2 items-center">
+                            <span className="text-xs text-gray-500 w-16 truncate">{row.name}</span>
+                            <input
+                              type="number"
+                              value={(row.id ? savings?.memberAmounts?.[row.id] : getSharedSavings(savings)) || ''}
+                              onChange={(e) => handleMemberSavingsUpdate(month, row.id, e.target.value)}
+                              placeholder="0"
+                              step="0.01"
+                              min="0"
+                              className="flex-1 min-w-0 px-3 py-1 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-green-500"
+                            />
+                          </div>
+                        ))}
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-gray-500">Total:</span>
+                          <span className="font-semibold text-green-600">
+                            {settings
+                              ? formatCurrency(savings?.savedAmount ?? 0, settings.currency, settings.locale)
+                              : savings?.savedAmount ?? 0}
+                            {savingsPercentage > 0 && ` · ${savingsPercentage.toFixed(1)}%`}
+                          </span>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2 items-center">
+                        <input
+                          type="number"
+                          value={savings?.savedAmount || ''}
+                          onChange={(e) => handleSavingsUpdate(month, e.target.value)}
+                          placeholder="0"
+                          step="0.01"
+                          min="0"
+                          className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-green-500"
+                        />
+                        {savingsPercentage > 0 && (
+                          <span className="text-sm font-semibold text-green-600 min-w-[50px]">
+                            {savingsPercentage.toFixed(1)}%
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -313,7 +410,7 @@ export const MonthlyIncome: React.FC = () => {
           <Select
             label="Type"
             value={type}
-            onChange={(value) => setType(value as IncomeType)}
+            onChange={(value) => handleTypeChange(value as IncomeType)}
             options={Object.values(IncomeTypeEnum).map((t) => ({
               value: t,
               label: typeLabels[t],
@@ -321,6 +418,28 @@ export const MonthlyIncome: React.FC = () => {
             required
           />
 
+          <Select
+            label="Amount Is"
+            value={amountBasis}
+            onChange={(value) => setAmountBasis(value as AmountBasis)}
+            options={[
+              { value: 'net', label: 'Take-home (after tax)' },
+              { value: 'gross', label: 'Before tax (gross)' },
+            ]}
+          />
+
+          {householdMembers.length > 0 && (
+            <Select
+              label="Earned By"
+              value={memberId}
+              onChange={setMemberId}
+              options={[
+                { value: '', label: 'Shared' },
+                ...householdMembers.map((member) => ({ value: member.id, label: member.name })),
+              ]}
+            />
+          )}
+
           <div className="flex gap-3 pt-4">
             <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
               Cancel
@@ -331,6 +450,12 @@ export const MonthlyIncome: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <CsvImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={handleImported}
+      />
     </div>
   );
 };
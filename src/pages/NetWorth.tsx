@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useAppStore } from '@/store/useAppStore';
+import type { NetWorthCategory, NetWorthItem, NetWorthItemKind } from '@/types/models';
+import { Plus, Trash2, Edit2, ChevronLeft, ChevronRight, Scale } from 'lucide-react';
+import { formatCurrency, sumBalances } from '@/utils/calculations';
+import { calculateSavingsBalances } from '@/utils/accounts';
+import { calculateNetWorth, getValuationForMonth } from '@/utils/netWorth';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const categoryLabels: Record<NetWorthCategory, string> = {
+  property: 'Property',
+  vehicle: 'Vehicle',
+  investment: 'Investment',
+  mortgage: 'Mortgage',
+  loan: 'Loan',
+  credit_card: 'Credit Card',
+  other: 'Other',
+};
+
+const categoriesByKind: Record<NetWorthItemKind, NetWorthCategory[]> = {
+  asset: ['property', 'vehicle', 'investment', 'other'],
+  liability: ['mortgage', 'loan', 'credit_card', 'other'],
+};
+
+export const NetWorth: React.FC = () => {
+  const {
+    netWorthItems,
+    netWorthValuations,
+    accounts,
+    accountSnapshots,
+    accountTransfers,
+    settings,
+    addNetWorthItem,
+    updateNetWorthItem,
+    deleteNetWorthItem,
+    setNetWorthValue,
+    clearNetWorthValue,
+  } = useAppStore();
+
+  const currentDate = new Date();
+  const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear());
+  const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth() + 1);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<NetWorthItemKind>('asset');
+  const [category, setCategory] = useState<NetWorthCategory>('property');
+  const [notes, setNotes] = useState('');
+  const [value, setValue] = useState('');
+
+  const shiftMonth = (delta: number) => {
+    const date = new Date(selectedYear, selectedMonth - 1 + delta, 1);
+    setSelectedYear(date.getFullYear());
+    setSelectedMonth(date.getMonth() + 1);
+  };
+
+  const resetForm = () => {
+    setName('');
+    setKind('asset');
+    setCategory('property');
+    setNotes('');
+    setValue('');
+    setEditingId(null);
+  };
+
+  const handleOpenModal = (item?: NetWorthItem, newKind: NetWorthItemKind = 'asset') => {
+    if (item) {
+      setName(item.name);
+      setKind(item.kind);
+      setCategory(item.category);
+      setNotes(item.notes || '');
+      setEditingId(item.id);
+    } else {
+      resetForm();
+      setKind(newKind);
+      setCategory(categoriesByKind[newKind][0]);
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    resetForm();
+  };
+
+  const handleKindChange = (newKind: NetWorthItemKind) => {
+    setKind(newKind);
+    if (!categoriesByKind[newKind].includes(category)) {
+      setCategory(categoriesByKind[newKind][0]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = { name, kind, category, notes: notes || undefined };
+
+    if (editingId) {
+      await updateNetWorthItem(editingId, data);
+    } else {
+      await addNetWorthItem(data, parseFloat(value) || 0);
+    }
+
+    handleCloseModal();
+  };
+
+  const handleDelete = async (item: NetWorthItem) => {
+    await deleteNetWorthItem(item.id);
+  };
+
+  // Пустое поле — оценка месяца удаляется, действует предыдущая
+  const handleValueChange = async (itemId: string, input: string) => {
+    if (input === '') {
+      await clearNetWorthValue(itemId, selectedYear, selectedMonth);
+    } else {
+      await setNetWorthValue(itemId, selectedYear, selectedMonth, parseFloat(input) || 0);
+    }
+  };
+
+  const format = (amount: number) =>
+    settings ? formatCurrency(amount, settings.currency, settings.locale) : amount.toString();
+
+  const endOfMonth = new Date(new Date(selectedYear, selectedMonth, 1).getTime() - 1);
+  const accountsTotal = settings
+    ? sumBalances(calculateSavingsBalances(accounts, accountSnapshots, accountTransfers, settings, endOfMonth))
+    : 0;
+  const summary = calculateNetWorth(netWorthItems, netWorthValuations, accountsTotal, selectedYear, selectedMonth);
+
+  const renderItems = (itemKind: NetWorthItemKind) => {
+    const items = netWorthItems.filter((item) => item.kind === itemKind);
+
+    if (items.length === 0) {
+      return (
+        <p className="text-sm text-gray-500">
+          {itemKind === 'asset' ? 'No assets yet' : 'No liabilities yet'}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {items.map((item) => {
+          const recorded = netWorthValuations.find(
+            (valuation) =>
+              valuation.itemId === item.id && valuation.year === selectedYear && valuation.month === selectedMonth
+          );
+          const carried = recorded ? undefined : getValuationForMonth(item.id, netWorthValuations, selectedYear, selectedMonth);
+
+          return (
+            <div key={item.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                <p className="text-xs text-gray-500">
+                  {categoryLabels[item.category]}
+                  {carried && ` · carried from ${MONTHS[carried.month - 1].slice(0, 3)} ${carried.year}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={recorded?.value ?? ''}
+                  onChange={(e) => handleValueChange(item.id, e.target.value)}
+                  placeholder={carried ? carried.value.toString() : '0'}
+                  step="0.01"
+                  min="0"
+                  className="w-36 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <Button onClick={() => handleOpenModal(item)} variant="outline" size="sm">
+                  <Edit2 className="w-4 h-4" />
+                </Button>
+                <Button onClick={() => handleDelete(item)} variant="danger" size="sm">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Net Worth</h1>
+          <p className="text-gray-600">Everything you own and owe</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Button onClick={() => shiftMonth(-1)} variant="outline" size="sm">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-xl font-semibold min-w-[160px] text-center">
+            {MONTHS[selectedMonth - 1]} {selectedYear}
+          </span>
+          <Button onClick={() => shiftMonth(1)} variant="outline" size="sm">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-600">Accounts</p>
+            <p className="text-xl font-semibold">{format(summary.accounts)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Other Assets</p>
+            <p className="text-xl font-semibold text-green-600">{format(summary.assets)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Liabilities</p>
+            <p className="text-xl font-semibold text-red-600">{format(summary.liabilities)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Net Worth</p>
+            <p className={`text-2xl font-bold ${summary.netWorth < 0 ? 'text-red-600' : 'text-primary-600'}`}>
+              {format(summary.netWorth)}
+            </p>
+          </div>
+        </div>
+      </Card>
+
+      {netWorthItems.length === 0 ? (
+        <Card>
+          <div className="text-center py-12">
+            <Scale className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500 mb-4">Add property, vehicles, loans and other debts to see your net worth</p>
+            <Button onClick={() => handleOpenModal()} variant="primary">
+              Add Your First Item
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Assets</h3>
+                <Button onClick={() => handleOpenModal(undefined, 'asset')} variant="outline" size="sm">
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              {renderItems('asset')}
+            </div>
+          </Card>
+
+          <Card>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Liabilities</h3>
+                <Button onClick={() => handleOpenModal(undefined, 'liability')} variant="outline" size="sm">
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              {renderItems('liability')}
+            </div>
+          </Card>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Enter values as of the end of the month. A month without a value uses the latest earlier one.
+        Savings accounts are counted from the Accounts page.
+      </p>
+
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingId ? 'Edit Item' : 'Add Item'}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input label="Name" value={name} onChange={setName} placeholder="e.g., Apartment" required />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Type"
+              value={kind}
+              onChange={(newKind) => handleKindChange(newKind as NetWorthItemKind)}
+              options={[
+                { value: 'asset', label: 'Asset' },
+                { value: 'liability', label: 'Liability' },
+              ]}
+            />
+            <Select
+              label="Category"
+              value={category}
+              onChange={(newCategory) => setCategory(newCategory as NetWorthCategory)}
+              options={categoriesByKind[kind].map((option) => ({ value: option, label: categoryLabels[option] }))}
+            />
+          </div>
+
+          {!editingId && (
+            <Input
+              label={kind === 'asset' ? 'Current Value' : 'Amount Owed'}
+              type="number"
+              value={value}
+              onChange={setValue}
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+            />
+          )}
+
+          <Input label="Notes (optional)" value={notes} onChange={setNotes} />
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              {editingId ? 'Update' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
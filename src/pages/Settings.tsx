@@ -4,40 +4,118 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { useAppStore } from '@/store/useAppStore';
+import { TaxProfileSettings } from '@/components/TaxProfileSettings';
+import { EncryptionSettings } from '@/components/EncryptionSettings';
+import { backupService } from '@/db/backup';
+import { MIN_PASSPHRASE_LENGTH } from '@/db/encryption';
+import { monthlyIncomeService } from '@/db/services';
+import type { RestoreMode, IntegrityReport } from '@/types/models';
+import { Download, Upload, ShieldCheck, Wrench } from 'lucide-react';
 
 export const Settings: React.FC = () => {
-  const { settings, savings, updateSettings, updateSavings } = useAppStore();
+  const { settings, updateSettings, restoreBackup, repairIntegrity } = useAppStore();
 
   const [currency, setCurrency] = useState('USD');
   const [locale, setLocale] = useState('en-US');
-  const [currentSavings, setCurrentSavings] = useState('0');
-  const [alreadySaved, setAlreadySaved] = useState('0');
+  const [expectedReturnRate, setExpectedReturnRate] = useState('0');
+  const [inflationRate, setInflationRate] = useState('0');
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('replace');
+  const [encryptBackup, setEncryptBackup] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [isBackupEncrypted, setIsBackupEncrypted] = useState(false);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [backupMessage, setBackupMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
 
   useEffect(() => {
     if (settings) {
       setCurrency(settings.currency);
       setLocale(settings.locale);
+      setExpectedReturnRate((settings.expectedReturnRate ?? 0).toString());
+      setInflationRate((settings.inflationRate ?? 0).toString());
     }
-    if (savings) {
-      setCurrentSavings(savings.currentSavings.toString());
-      setAlreadySaved(savings.alreadySaved.toString());
-    }
-  }, [settings, savings]);
+  }, [settings]);
 
   const handleSaveSettings = async () => {
     await updateSettings({
       currency,
       locale,
+      expectedReturnRate: parseFloat(expectedReturnRate) || 0,
+      inflationRate: parseFloat(inflationRate) || 0,
     });
   };
 
-  const handleSaveSavings = async () => {
-    await updateSavings({
-      currentSavings: parseFloat(currentSavings),
-      alreadySaved: parseFloat(alreadySaved),
-    });
+  const handleExport = async () => {
+    try {
+      const backup = await backupService.export();
+      const content = encryptBackup
+        ? await backupService.encrypt(backup, exportPassphrase)
+        : backupService.serialize(backup);
+      const blob = new Blob([content], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `wispr-flow-backup-${backup.exportedAt.toISOString().split('T')[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setBackupMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to export backup',
+      });
+    }
+  };
+
+  const handleBackupFileChange = async (file: File | null) => {
+    setBackupFile(file);
+    setBackupMessage(null);
+    setRestorePassphrase('');
+    setIsBackupEncrypted(file ? backupService.isEncrypted(await file.text()) : false);
+  };
+
+  const handleRestore = async () => {
+    if (!backupFile) return;
+
+    try {
+      const text = await backupFile.text();
+      const json = isBackupEncrypted ? await backupService.decrypt(text, restorePassphrase) : text;
+      const backup = backupService.parse(json);
+      if (
+        restoreMode === 'replace' &&
+        !confirm('Replace ALL current data with the backup? This cannot be undone.')
+      ) {
+        return;
+      }
+
+      await restoreBackup(backup, restoreMode);
+      const { error } = useAppStore.getState();
+      setBackupMessage(
+        error
+          ? { type: 'error', text: error }
+          : { type: 'success', text: `Backup from ${backup.exportedAt.toLocaleDateString()} restored` }
+      );
+    } catch (error) {
+      setBackupMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to read backup',
+      });
+    }
+  };
+
+  const handleCheckIntegrity = async () => {
+    setIntegrityReport(await monthlyIncomeService.checkIntegrity());
   };
 
+  const handleRepairIntegrity = async () => {
+    await repairIntegrity();
+    await handleCheckIntegrity();
+  };
+
+  const integrityIssues = integrityReport
+    ? integrityReport.orphanedIncomes.length + integrityReport.duplicateIncomes.length
+    : 0;
+
   return (
     <div className="space-y-6">
       <div className="mb-8">
@@ -45,47 +123,6 @@ export const Settings: React.FC = () => {
         <p className="text-gray-600">Configure your preferences</p>
       </div>
 
-      {/* Savings Data */}
-      <Card title="Savings Data">
-        <div className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <Input
-              label="Current Savings"
-              type="number"
-              value={currentSavings}
-              onChange={setCurrentSavings}
-              step="0.01"
-              min="0"
-            />
-
-            <Input
-              label="Already Saved"
-              type="number"
-              value={alreadySaved}
-              onChange={setAlreadySaved}
-              step="0.01"
-              min="0"
-            />
-          </div>
-
-          <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg">
-            <p>
-              <strong>Current Savings:</strong> Money you have now
-            </p>
-            <p>
-              <strong>Already Saved:</strong> Money you've saved before using this app
-            </p>
-            <p className="mt-2">
-              Both amounts are included in total savings calculations.
-            </p>
-          </div>
-
-          <Button onClick={handleSaveSavings} variant="primary" className="w-full">
-            Save Savings Data
-          </Button>
-        </div>
-      </Card>
-
       {/* App Settings */}
       <Card title="App Preferences">
         <div className="space-y-4">
@@ -117,11 +154,176 @@ export const Settings: React.FC = () => {
             ]}
           />
 
+          <Input
+            label="Expected Annual Return (%)"
+            type="number"
+            value={expectedReturnRate}
+            onChange={setExpectedReturnRate}
+            step="0.1"
+          />
+          <p className="text-xs text-gray-500 -mt-2">
+            Monthly contributions and accounts without their own interest rate are compounded at this rate in
+            projections.
+          </p>
+
+          <Input
+            label="Expected Annual Inflation (%)"
+            type="number"
+            value={inflationRate}
+            onChange={setInflationRate}
+            step="0.1"
+          />
+          <p className="text-xs text-gray-500 -mt-2">
+            Used to show projections in today's money and to inflate goal targets to their deadline.
+          </p>
+
           <Button onClick={handleSaveSettings} variant="primary">
             Save App Settings
           </Button>
         </div>
       </Card>
+
+      <TaxProfileSettings />
+
+      {/* Data Integrity */}
+      <Card title="Data Integrity">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Find monthly incomes left behind by deleted income sources and months that a source generated twice.
+          </p>
+
+          {integrityReport && (
+            <div
+              className={`text-sm p-3 rounded-lg ${
+                integrityIssues === 0 ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'
+              }`}
+            >
+              {integrityIssues === 0 ? (
+                'No problems found'
+              ) : (
+                <>
+                  <p>{integrityReport.orphanedIncomes.length} monthly incomes of deleted sources</p>
+                  <p>{integrityReport.duplicateIncomes.length} duplicate months</p>
+                  <p className="mt-2 text-xs">
+                    Repair keeps past months of deleted sources as one-time income, removes their future months and
+                    keeps the most recently edited entry of each duplicate month.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button onClick={handleCheckIntegrity} variant="outline">
+              <ShieldCheck className="w-4 h-4 mr-2 inline" />
+              Check Data
+            </Button>
+            {integrityIssues > 0 && (
+              <Button onClick={handleRepairIntegrity} variant="primary">
+                <Wrench className="w-4 h-4 mr-2 inline" />
+                Repair
+              </Button>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      <EncryptionSettings />
+
+      {/* Backup & Restore */}
+      <Card title="Backup & Restore">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            All data is stored only in this browser. Export a backup file to keep it safe
+            or move it to another device.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="encryptBackup"
+              checked={encryptBackup}
+              onChange={(e) => setEncryptBackup(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+            />
+            <label htmlFor="encryptBackup" className="text-sm font-medium text-gray-700">
+              Protect the backup file with a passphrase
+            </label>
+          </div>
+
+          {encryptBackup && (
+            <Input
+              label="Backup Passphrase"
+              type="password"
+              value={exportPassphrase}
+              onChange={setExportPassphrase}
+              placeholder="Needed to restore this file"
+            />
+          )}
+
+          <Button
+            onClick={handleExport}
+            variant="outline"
+            disabled={encryptBackup && exportPassphrase.length < MIN_PASSPHRASE_LENGTH}
+          >
+            <Download className="w-4 h-4 mr-2 inline" />
+            Export Backup
+          </Button>
+
+          <div className="border-t pt-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Backup File</label>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => handleBackupFileChange(e.target.files?.[0] ?? null)}
+                className="block w-full text-sm text-gray-600"
+              />
+            </div>
+
+            {isBackupEncrypted && (
+              <Input
+                label="Backup Passphrase"
+                type="password"
+                value={restorePassphrase}
+                onChange={setRestorePassphrase}
+                placeholder="This backup is protected with a passphrase"
+              />
+            )}
+
+            <Select
+              label="Restore Mode"
+              value={restoreMode}
+              onChange={(value) => setRestoreMode(value as RestoreMode)}
+              options={[
+                { value: 'replace', label: 'Replace all current data' },
+                { value: 'merge', label: 'Merge with current data' },
+              ]}
+            />
+
+            {backupMessage && (
+              <div
+                className={`text-sm p-3 rounded-lg ${
+                  backupMessage.type === 'success'
+                    ? 'bg-green-50 text-green-800'
+                    : 'bg-red-50 text-red-800'
+                }`}
+              >
+                {backupMessage.text}
+              </div>
+            )}
+
+            <Button
+              onClick={handleRestore}
+              variant="primary"
+              disabled={!backupFile || (isBackupEncrypted && !restorePassphrase)}
+            >
+              <Upload className="w-4 h-4 mr-2 inline" />
+              Restore Backup
+            </Button>
+          </div>
+        </div>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,330 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { IncomeType } from '@/types/models';
+import { Plus, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { formatCurrency } from '@/utils/calculations';
+import { calculateAnnualGrossByType, calculateTax } from '@/utils/tax';
+import { calculateTaxReserveLedger, getQuarter } from '@/utils/taxReserve';
+import { useAppStore } from '@/store/useAppStore';
+
+const typeLabels: Record<IncomeType, string> = {
+  [IncomeType.SALARY]: 'Salary',
+  [IncomeType.FREELANCE]: 'Freelance',
+  [IncomeType.SIDE_HUSTLE]: 'Side Hustle',
+  [IncomeType.INVESTMENT]: 'Investment',
+  [IncomeType.PASSIVE]: 'Passive',
+  [IncomeType.OTHER]: 'Other',
+};
+
+const toRateInputs = (rates: Partial<Record<IncomeType, number>>): Record<IncomeType, string> =>
+  Object.fromEntries(
+    Object.values(IncomeType).map((type) => [type, rates[type] !== undefined ? rates[type]!.toString() : ''])
+  ) as Record<IncomeType, string>;
+
+export const TaxReserve: React.FC = () => {
+  const {
+    settings,
+    taxProfiles,
+    taxPayments,
+    viewYear: selectedYear,
+    viewYearIncomes: yearData,
+    setViewYear: setSelectedYear,
+    updateSettings,
+    addTaxPayment,
+    deleteTaxPayment,
+  } = useAppStore();
+  const currentDate = new Date();
+  const [rateInputs, setRateInputs] = useState<Record<IncomeType, string>>(toRateInputs({}));
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Form state for recording a payment
+  const [quarter, setQuarter] = useState('1');
+  const [date, setDate] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (settings) setRateInputs(toRateInputs(settings.taxReserveRates));
+  }, [settings]);
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  const format = (value: number) => formatCurrency(value, settings.currency, settings.locale);
+
+  // Эффективные ставки профиля по gross-доходам выбранного года
+  const yearIncomes = Array.from(yearData.values()).flat();
+  const taxRates = calculateTax(
+    taxProfiles.find((profile) => profile.id === settings.taxProfileId),
+    calculateAnnualGrossByType(yearData)
+  ).effectiveRates;
+
+  const ledger = calculateTaxReserveLedger(
+    yearIncomes,
+    taxPayments,
+    settings.taxReserveRates,
+    taxRates,
+    selectedYear,
+    currentDate
+  );
+  const yearTotal = ledger[ledger.length - 1];
+  const yearPayments = taxPayments.filter((payment) => payment.year === selectedYear);
+  const isCurrentYear = selectedYear === currentDate.getFullYear();
+
+  const handleSaveRates = async () => {
+    await updateSettings({
+      taxReserveRates: Object.fromEntries(
+        Object.entries(rateInputs)
+          .filter(([, rate]) => rate !== '')
+          .map(([type, rate]) => [type, parseFloat(rate) || 0])
+      ),
+    });
+  };
+
+  const handleOpenModal = (forQuarter?: number) => {
+    const selected = forQuarter ?? (isCurrentYear ? getQuarter(currentDate.getMonth() + 1) : 1);
+    const row = ledger[selected - 1];
+    setQuarter(selected.toString());
+    setDate(currentDate.toISOString().split('T')[0]);
+    setAmount(row.unpaid > 0 ? row.unpaid.toFixed(2) : '');
+    setNote('');
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await addTaxPayment({
+      year: selectedYear,
+      quarter: parseInt(quarter),
+      date: new Date(date),
+      amount: parseFloat(amount) || 0,
+      note: note || undefined,
+    });
+
+    const { error } = useAppStore.getState();
+    if (error) {
+      setFormError(error);
+      useAppStore.setState({ error: null });
+      return;
+    }
+
+    handleCloseModal();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteTaxPayment(id);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Tax Reserve</h1>
+          <p className="text-gray-600">Set money aside for quarterly estimated taxes</p>
+        </div>
+
+        {/* Year Selector */}
+        <div className="flex items-center gap-3">
+          <Button onClick={() => setSelectedYear(selectedYear - 1)} variant="outline" size="sm">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-xl font-semibold min-w-[80px] text-center">{selectedYear}</span>
+          <Button onClick={() => setSelectedYear(selectedYear + 1)} variant="outline" size="sm">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-600">Tax Owed</p>
+            <p className="text-xl font-semibold">{format(ledger.reduce((sum, row) => sum + row.owed, 0))}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Set Aside</p>
+            <p className="text-xl font-semibold text-primary-600">
+              {format(ledger.reduce((sum, row) => sum + row.setAside, 0))}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Paid</p>
+            <p className="text-xl font-semibold text-green-600">
+              {format(ledger.reduce((sum, row) => sum + row.paid, 0))}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Reserve Balance</p>
+            <p className={`text-xl font-semibold ${yearTotal.shortfall > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {format(yearTotal.reserveBalance)}
+            </p>
+            {yearTotal.shortfall > 0 && (
+              <p className="text-xs text-red-600">{format(yearTotal.shortfall)} short of the tax owed</p>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      <Card title="Quarters">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-3 px-4">Quarter</th>
+                <th className="text-left py-3 px-4">Due</th>
+                <th className="text-right py-3 px-4">Income</th>
+                <th className="text-right py-3 px-4">Owed</th>
+                <th className="text-right py-3 px-4">Set Aside</th>
+                <th className="text-right py-3 px-4">Paid</th>
+                <th className="text-right py-3 px-4">Reserve</th>
+                <th className="text-right py-3 px-4">Unpaid</th>
+                <th className="py-3 px-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.map((row) => (
+                <tr key={row.quarter} className={`border-b ${row.isOverdue ? 'bg-red-50' : ''}`}>
+                  <td className="py-3 px-4 font-medium">Q{row.quarter}</td>
+                  <td className="py-3 px-4 text-sm">
+                    {row.dueDate.toLocaleDateString()}
+                    {row.isOverdue && <span className="ml-2 text-xs font-medium text-red-600">Overdue</span>}
+                  </td>
+                  <td className="text-right py-3 px-4">{format(row.income)}</td>
+                  <td className="text-right py-3 px-4">{format(row.owed)}</td>
+                  <td className="text-right py-3 px-4">{format(row.setAside)}</td>
+                  <td className="text-right py-3 px-4 text-green-600">{format(row.paid)}</td>
+                  <td className={`text-right py-3 px-4 ${row.shortfall > 0 ? 'text-red-600' : ''}`}>
+                    {format(row.reserveBalance)}
+                  </td>
+                  <td className="text-right py-3 px-4 font-semibold">{format(row.unpaid)}</td>
+                  <td className="text-right py-3 px-4">
+                    <Button onClick={() => handleOpenModal(row.quarter)} variant="outline" size="sm">
+                      Pay
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          Reserve, unpaid and shortfall are running totals since the start of the year. Owed tax uses the tax
+          profile for income entered before tax and the set-aside rate for the rest.
+        </p>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card title="Set-Aside Rates">
+          <div className="space-y-3">
+            {Object.values(IncomeType).map((type) => (
+              <div key={type} className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 w-28">{typeLabels[type]}</span>
+                <input
+                  type="number"
+                  value={rateInputs[type]}
+                  onChange={(e) => setRateInputs({ ...rateInputs, [type]: e.target.value })}
+                  placeholder="Not reserved"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-500">%</span>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              The set-aside share of this income is kept out of savings, goals and projections until the tax is
+              paid.
+            </p>
+            <Button onClick={handleSaveRates} variant="primary" size="sm">
+              Save Rates
+            </Button>
+          </div>
+        </Card>
+
+        <Card title="Payments">
+          <div className="space-y-3">
+            {yearPayments.length === 0 && <p className="text-sm text-gray-400 italic">No payments recorded</p>}
+            {yearPayments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    Q{payment.quarter} · {format(payment.amount)}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {new Date(payment.date).toLocaleDateString()}
+                    {payment.note && ` · ${payment.note}`}
+                  </p>
+                </div>
+                <Button onClick={() => handleDelete(payment.id)} variant="danger" size="sm">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button onClick={() => handleOpenModal()} variant="outline" size="sm">
+              <Plus className="w-4 h-4 mr-1 inline" />
+              Record Payment
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={`Record Tax Payment for ${selectedYear}`}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Select
+            label="Quarter"
+            value={quarter}
+            onChange={setQuarter}
+            options={ledger.map((row) => ({
+              value: row.quarter.toString(),
+              label: `Q${row.quarter} (${format(row.unpaid)} unpaid)`,
+            }))}
+          />
+
+          <Input label="Date Paid" type="date" value={date} onChange={setDate} required />
+
+          <Input
+            label="Amount"
+            type="number"
+            value={amount}
+            onChange={setAmount}
+            placeholder="0"
+            step="0.01"
+            min="0"
+            required
+          />
+
+          <Input label="Note" value={note} onChange={setNote} placeholder="Optional" />
+
+          {formError && <div className="text-sm p-3 rounded-lg bg-red-50 text-red-800">{formError}</div>}
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" onClick={handleCloseModal} variant="secondary" className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" className="flex-1">
+              Record
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
@@ -1,36 +1,113 @@
 import { create } from 'zustand';
+import { liveQuery } from 'dexie';
+import type { Subscription } from 'dexie';
 import type {
   IncomeSource,
-  Savings,
+  IncomeAmountChange,
+  IncomeSourceDeletion,
+  Account,
+  AccountSnapshot,
+  AccountTransfer,
+  NetWorthItem,
+  NetWorthValuation,
+  Debt,
+  TaxProfile,
+  TaxPayment,
   Goal,
+  GoalContribution,
+  GoalAllocationStrategy,
   AppSettings,
   MonthlyIncome,
   MonthlySavings,
   CalculationResults,
+  BackupDocument,
+  BackupTables,
+  RestoreMode,
+  HistoryEntry,
+  CsvImportRow,
+  ExpenseCategory,
+  RecurringExpense,
+  MonthlyExpense,
+  IncomeType,
+  AmountBasis,
+  HouseholdMember,
 } from '@/types/models';
 import {
   incomeService,
-  savingsService,
+  accountService,
+  accountSnapshotService,
+  accountTransferService,
+  netWorthItemService,
+  netWorthValuationService,
+  debtService,
+  taxProfileService,
+  taxPaymentService,
   goalsService,
+  goalContributionService,
   settingsService,
   monthlyIncomeService,
   monthlySavingsService,
+  expenseCategoryService,
+  recurringExpenseService,
+  monthlyExpenseService,
+  householdMemberService,
+  importRulesService,
 } from '@/db/services';
-import { calculateResultsFromMonthlyData } from '@/utils/calculations';
+import { backupService } from '@/db/backup';
+import { historyService } from '@/db/history';
+import { changeLogService } from '@/db/changeLog';
+import { loadYearData, getCachedYearData, groupYearData } from '@/db/yearData';
+import {
+  calculateResultsFromMonthlyData,
+  calculateIncomeSchedule,
+  getProjectionOptions,
+  INCOME_SCHEDULE_MONTHS,
+} from '@/utils/calculations';
+import { calculateSavingsBalances } from '@/utils/accounts';
+import { calculateAnnualGrossByType, calculateTax } from '@/utils/tax';
 
 interface AppState {
   // Данные
   incomeSources: IncomeSource[];
-  savings: Savings | null;
+  accounts: Account[];
+  accountSnapshots: AccountSnapshot[];
+  accountTransfers: AccountTransfer[];
+  netWorthItems: NetWorthItem[];
+  netWorthValuations: NetWorthValuation[];
+  debts: Debt[];
+  taxProfiles: TaxProfile[];
+  taxPayments: TaxPayment[];
   goals: Goal[];
+  goalContributions: GoalContribution[];
   settings: AppSettings | null;
   calculations: CalculationResults | null;
+  expenseCategories: ExpenseCategory[];
+  recurringExpenses: RecurringExpense[];
+  householdMembers: HouseholdMember[];
 
   // Месячные данные
   currentMonthIncomes: MonthlyIncome[]; // Доходы текущего месяца
   currentMonthSavings: MonthlySavings | null; // Реальные накопления текущего месяца
   yearlyIncomes: Map<number, MonthlyIncome[]>; // Все доходы за год
   yearlySavings: MonthlySavings[]; // Все накопления за год
+  currentMonthExpenses: MonthlyExpense[]; // Расходы текущего месяца
+  yearlyExpenses: Map<number, MonthlyExpense[]>; // Все расходы за год
+
+  // Месячные данные года, открытого на страницах Monthly Income, Expenses и Tax Reserve
+  viewYear: number;
+  viewYearIncomes: Map<number, MonthlyIncome[]>;
+  viewYearSavings: MonthlySavings[];
+  viewYearExpenses: Map<number, MonthlyExpense[]>;
+
+  // История отмены и повтора
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  undoToast: HistoryEntry | null; // Последнее удаление или выключение, которое можно отменить из уведомления
+  historyError: string | null; // Почему не удалось отменить или повторить действие; показывается в том же уведомлении
+
+  // Дата, на которую Dashboard и Analytics показывают данные (null — текущие данные)
+  asOf: Date | null;
+  asOfFigures: FiguresState | null; // Данные и расчёты на эту дату; остальные страницы работают с текущими
 
   // Состояние загрузки
   isLoading: boolean;
@@ -38,206 +115,1133 @@ interface AppState {
 
   // Действия
   loadData: () => Promise<void>;
-  recalculate: () => Promise<void>;
+  recalculate: () => void;
+  setViewYear: (year: number) => void;
+  setAsOf: (date: Date | null) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismissUndoToast: () => void;
+  dismissHistoryError: () => void;
 
   // Income sources
   addIncomeSource: (source: Omit<IncomeSource, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateIncomeSource: (id: string, updates: Partial<IncomeSource>) => Promise<void>;
-  deleteIncomeSource: (id: string) => Promise<void>;
+  deleteIncomeSource: (id: string, mode: IncomeSourceDeletion) => Promise<void>;
+  scheduleAmountChange: (id: string, change: IncomeAmountChange) => Promise<void>;
+  removeAmountChange: (id: string, year: number, month: number) => Promise<void>;
+
+  // Accounts
+  addAccount: (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>, openingBalance?: number) => Promise<void>;
+  updateAccount: (id: string, updates: Partial<Account>) => Promise<void>;
+  deleteAccount: (id: string) => Promise<void>;
+  recordAccountBalance: (snapshot: Omit<AccountSnapshot, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  deleteAccountSnapshot: (id: string) => Promise<void>;
+  addAccountTransfer: (transfer: Omit<AccountTransfer, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  deleteAccountTransfer: (id: string) => Promise<void>;
+
+  // Net worth
+  addNetWorthItem: (item: Omit<NetWorthItem, 'id' | 'createdAt' | 'updatedAt'>, value?: number) => Promise<void>;
+  updateNetWorthItem: (id: string, updates: Partial<NetWorthItem>) => Promise<void>;
+  deleteNetWorthItem: (id: string) => Promise<void>;
+  setNetWorthValue: (itemId: string, year: number, month: number, value: number) => Promise<void>;
+  clearNetWorthValue: (itemId: string, year: number, month: number) => Promise<void>;
 
-  // Savings
-  updateSavings: (data: Omit<Savings, 'id' | 'updatedAt'>) => Promise<void>;
+  // Действия для долгов
+  addDebt: (debt: Omit<Debt, 'id' | 'customOrder' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateDebt: (id: string, updates: Partial<Debt>) => Promise<void>;
+  reorderDebts: (ids: string[]) => Promise<void>;
+  deleteDebt: (id: string) => Promise<void>;
+
+  // Действия для налоговых профилей
+  addTaxProfile: (profile: Omit<TaxProfile, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateTaxProfile: (id: string, updates: Partial<TaxProfile>) => Promise<void>;
+  deleteTaxProfile: (id: string) => Promise<void>;
+
+  // Действия для уплаченных квартальных налогов
+  addTaxPayment: (payment: Omit<TaxPayment, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  deleteTaxPayment: (id: string) => Promise<void>;
 
   // Goals
-  addGoal: (goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateGoal: (id: string, updates: Partial<Goal>) => Promise<void>;
+  addGoal: (goal: Omit<Goal, 'id' | 'currentAmount' | 'createdAt' | 'updatedAt'>, startingAmount?: number) => Promise<void>;
+  updateGoal: (id: string, updates: Partial<Omit<Goal, 'currentAmount'>>) => Promise<void>;
   deleteGoal: (id: string) => Promise<void>;
+  addGoalContribution: (contribution: Omit<GoalContribution, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  deleteGoalContribution: (id: string) => Promise<void>;
+  setGoalAllocation: (strategy: GoalAllocationStrategy) => Promise<void>;
+
+  // Monthly savings
+  setMonthlySavings: (year: number, month: number, savedAmount: number) => Promise<void>;
+  setMonthlyMemberSavings: (
+    year: number,
+    month: number,
+    memberAmounts: Record<string, number>,
+    sharedAmount: number
+  ) => Promise<void>;
+
+  // Monthly income
+  addOneTimeIncome: (income: {
+    year: number;
+    month: number;
+    amount: number;
+    name: string;
+    type: IncomeType;
+    amountBasis: AmountBasis;
+    memberId?: string;
+  }) => Promise<void>;
+  toggleMonthlyIncome: (id: string) => Promise<void>;
+  setMonthlyIncomeBasis: (id: string, amountBasis: AmountBasis) => Promise<void>;
+  deleteMonthlyIncome: (id: string) => Promise<void>;
+  importMonthlyIncomes: (rows: CsvImportRow[]) => Promise<number>;
+  saveImportRules: (rules: { pattern: string; type: IncomeType }[]) => Promise<void>;
+  deleteImportRule: (id: string) => Promise<void>;
+  repairIntegrity: () => Promise<void>;
+
+  // Monthly expenses
+  addOneTimeExpense: (expense: {
+    year: number;
+    month: number;
+    amount: number;
+    name: string;
+    categoryId: string;
+  }) => Promise<void>;
+  toggleMonthlyExpense: (id: string) => Promise<void>;
+  deleteMonthlyExpense: (id: string) => Promise<void>;
+
+  // Expenses
+  addExpenseCategory: (category: Omit<ExpenseCategory, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateExpenseCategory: (id: string, updates: Partial<ExpenseCategory>) => Promise<void>;
+  deleteExpenseCategory: (id: string, replacementId: string) => Promise<void>;
+  addRecurringExpense: (expense: Omit<RecurringExpense, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateRecurringExpense: (id: string, updates: Partial<RecurringExpense>) => Promise<void>;
+  deleteRecurringExpense: (id: string) => Promise<void>;
+
+  // Household members
+  addHouseholdMember: (member: Omit<HouseholdMember, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateHouseholdMember: (id: string, updates: Partial<HouseholdMember>) => Promise<void>;
+  deleteHouseholdMember: (id: string) => Promise<void>;
 
   // Settings
   updateSettings: (updates: Partial<AppSettings>) => Promise<void>;
+
+  // Backup
+  restoreBackup: (backup: BackupDocument, mode: RestoreMode) => Promise<void>;
 }
 
-export const useAppStore = create<AppState>((set, get) => ({
-  // Начальное состояние
-  incomeSources: [],
-  savings: null,
-  goals: [],
-  settings: null,
-  calculations: null,
-  currentMonthIncomes: [],
-  currentMonthSavings: null,
-  yearlyIncomes: new Map(),
-  yearlySavings: [],
-  isLoading: false,
-  error: null,
-
-  // Загрузка всех данных из базы
-  loadData: async () => {
-    set({ isLoading: true, error: null });
-    try {
-      const [incomeSources, savings, goals, settings] = await Promise.all([
-        incomeService.getAll(),
-        savingsService.get(),
-        goalsService.getAll(),
-        settingsService.get(),
-      ]);
+/**
+ * Таблицы, которые store держит целиком
+ */
+type TableState = Pick<
+  AppState,
+  | 'incomeSources'
+  | 'accounts'
+  | 'accountSnapshots'
+  | 'accountTransfers'
+  | 'netWorthItems'
+  | 'netWorthValuations'
+  | 'debts'
+  | 'taxProfiles'
+  | 'taxPayments'
+  | 'goals'
+  | 'goalContributions'
+  | 'settings'
+  | 'expenseCategories'
+  | 'recurringExpenses'
+  | 'householdMembers'
+>;
 
-      set({
-        incomeSources,
-        savings: savings || null,
-        goals,
-        settings: settings || null,
-        isLoading: false,
-      });
+/**
+ * Месячные данные текущего года
+ */
+type CurrentYearState = Pick<
+  AppState,
+  | 'currentMonthIncomes'
+  | 'currentMonthSavings'
+  | 'yearlyIncomes'
+  | 'yearlySavings'
+  | 'currentMonthExpenses'
+  | 'yearlyExpenses'
+>;
 
-      // Пересчитать результаты (загрузит месячные данные)
-      await get().recalculate();
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to load data',
-        isLoading: false,
-      });
-    }
-  },
+/**
+ * Всё, из чего строятся Dashboard и Analytics
+ */
+export type FiguresState = TableState & CurrentYearState & Pick<AppState, 'calculations'>;
+
+/**
+ * Запросы для подписок на таблицы
+ */
+const tableQueries: { [K in keyof TableState]: () => Promise<TableState[K]> } = {
+  incomeSources: () => incomeService.getAll(),
+  accounts: () => accountService.getAll(),
+  accountSnapshots: () => accountSnapshotService.getAll(),
+  accountTransfers: () => accountTransferService.getAll(),
+  netWorthItems: () => netWorthItemService.getAll(),
+  netWorthValuations: () => netWorthValuationService.getAll(),
+  debts: () => debtService.getAll(),
+  taxProfiles: () => taxProfileService.getAll(),
+  taxPayments: () => taxPaymentService.getAll(),
+  goals: () => goalsService.getAll(),
+  goalContributions: () => goalContributionService.getAll(),
+  settings: async () => (await settingsService.get()) || null,
+  expenseCategories: () => expenseCategoryService.getAll(),
+  recurringExpenses: () => recurringExpenseService.getAll(),
+  householdMembers: () => householdMemberService.getAll(),
+};
+
+/**
+ * Отсортировать копию записей по полю, как это делают getAll() сервисов
+ */
+function sortByField<T>(rows: T[], field: keyof T): T[] {
+  return [...rows].sort((a, b) => {
+    const x = a[field];
+    const y = b[field];
+    return x < y ? -1 : x > y ? 1 : 0;
+  });
+}
+
+/**
+ * Таблицы store из содержимого базы на прошлую дату
+ */
+function toTableState(tables: BackupTables): TableState {
+  return {
+    incomeSources: tables.incomeSources,
+    accounts: sortByField(tables.accounts, 'createdAt'),
+    accountSnapshots: sortByField(tables.accountSnapshots, 'date'),
+    accountTransfers: sortByField(tables.accountTransfers, 'date'),
+    netWorthItems: sortByField(tables.netWorthItems, 'createdAt'),
+    netWorthValuations: tables.netWorthValuations,
+    debts: sortByField(tables.debts, 'customOrder'),
+    taxProfiles: sortByField(tables.taxProfiles, 'createdAt'),
+    taxPayments: sortByField(tables.taxPayments, 'date'),
+    goals: sortByField(tables.goals, 'priority'),
+    goalContributions: sortByField(tables.goalContributions, 'date'),
+    settings: tables.settings[0] ?? null,
+    expenseCategories: sortByField(tables.expenseCategories, 'createdAt'),
+    recurringExpenses: sortByField(tables.recurringExpenses, 'createdAt'),
+    householdMembers: sortByField(tables.householdMembers, 'createdAt'),
+  };
+}
+
+/**
+ * Рассчитать результаты на основе месячных данных на момент now
+ */
+function calculateFigures(state: TableState & CurrentYearState, now: Date): CalculationResults | null {
+  const {
+    accounts,
+    accountSnapshots,
+    accountTransfers,
+    settings,
+    expenseCategories,
+    incomeSources,
+    taxProfiles,
+    householdMembers,
+    currentMonthIncomes,
+    yearlyIncomes,
+    currentMonthExpenses,
+    yearlyExpenses,
+  } = state;
+  if (!settings) return null;
+
+  try {
+    // Эффективные ставки налога по gross-доходам года
+    const taxRates = calculateTax(
+      taxProfiles.find((profile) => profile.id === settings.taxProfileId),
+      calculateAnnualGrossByType(yearlyIncomes)
+    ).effectiveRates;
+
+    // Прогнозы учитывают даты начала, окончания и паузы источников
+    const incomeSchedule = calculateIncomeSchedule(
+      incomeSources,
+      currentMonthIncomes,
+      now.getFullYear(),
+      now.getMonth() + 1,
+      INCOME_SCHEDULE_MONTHS,
+      taxRates,
+      settings.taxReserveRates
+    );
 
-  // Пересчитать результаты на основе месячных данных
-  recalculate: async () => {
-    const { savings, settings } = get();
-    if (!savings || !settings) return;
+    // Рассчитать результаты на основе реальных месячных данных
+    return calculateResultsFromMonthlyData(
+      currentMonthIncomes,
+      yearlyIncomes,
+      // Прогнозы начинаются с сегодняшних балансов всех счетов
+      calculateSavingsBalances(accounts, accountSnapshots, accountTransfers, settings),
+      settings.savingsPercentage,
+      currentMonthExpenses,
+      yearlyExpenses,
+      expenseCategories,
+      getProjectionOptions(settings, incomeSchedule),
+      taxRates,
+      settings.taxReserveRates,
+      householdMembers
+    );
+  } catch (error) {
+    console.error('Failed to recalculate:', error);
+    return null;
+  }
+}
+
+/**
+ * Сколько последних действий можно отменить
+ */
+const HISTORY_LIMIT = 100;
+
+// Активные подписки liveQuery
+let subscriptions: Subscription[] = [];
+let viewYearSubscription: Subscription | null = null;
+let asOfSubscription: Subscription | null = null;
+
+export const useAppStore = create<AppState>((set, get) => {
+  const handleError = (error: unknown) => {
+    set({ error: error instanceof Error ? error.message : 'Failed to load data', isLoading: false });
+  };
+
+  // Подписаться на месячные данные открытого года
+  const subscribeViewYear = (year: number) => {
+    viewYearSubscription?.unsubscribe();
+    viewYearSubscription = liveQuery(() => loadYearData(year)).subscribe({
+      next: ({ incomes, savings, expenses }) =>
+        set({ viewYearIncomes: incomes, viewYearSavings: savings, viewYearExpenses: expenses }),
+      error: handleError,
+    });
+  };
+
+  // Выполнить действие, записав его изменения в историю отмены
+  const track = async (label: string, action: () => Promise<unknown>, destructive = false) => {
+    const entry = await historyService.record(label, action, destructive);
+    if (!entry) return;
+    set((state) => ({
+      undoStack: [...state.undoStack, entry].slice(-HISTORY_LIMIT),
+      redoStack: [],
+      undoToast: entry.destructive ? entry : null,
+    }));
+  };
+
+  return {
+    // Начальное состояние
+    incomeSources: [],
+    accounts: [],
+    accountSnapshots: [],
+    accountTransfers: [],
+    netWorthItems: [],
+    netWorthValuations: [],
+    debts: [],
+    taxProfiles: [],
+    taxPayments: [],
+    goals: [],
+    goalContributions: [],
+    settings: null,
+    calculations: null,
+    expenseCategories: [],
+    recurringExpenses: [],
+    householdMembers: [],
+    currentMonthIncomes: [],
+    currentMonthSavings: null,
+    yearlyIncomes: new Map(),
+    yearlySavings: [],
+    currentMonthExpenses: [],
+    yearlyExpenses: new Map(),
+    viewYear: new Date().getFullYear(),
+    viewYearIncomes: new Map(),
+    viewYearSavings: [],
+    viewYearExpenses: new Map(),
+    undoStack: [],
+    redoStack: [],
+    undoToast: null,
+    historyError: null,
+    asOf: null,
+    asOfFigures: null,
+    isLoading: false,
+    error: null,
+
+    // Подписаться на данные базы
+    // liveQuery перезапускает запрос после любой записи в прочитанные им таблицы, в том числе из других
+    // вкладок, поэтому действия только пишут в базу, а состояние и расчёты обновляются подписками
+    loadData: async () => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+      set({ isLoading: true, error: null });
 
-    try {
-      // Загрузить месячные данные
       const now = new Date();
       const currentYear = now.getFullYear();
       const currentMonth = now.getMonth() + 1;
 
-      // Загрузить доходы текущего месяца
-      const currentMonthIncomes = await monthlyIncomeService.getByMonth(currentYear, currentMonth);
+      // Расчёты запускаются, когда все подписки получили первые данные
+      const pending = new Set<string>([...Object.keys(tableQueries), 'currentYear']);
+      const handleLoaded = (key: string) => {
+        pending.delete(key);
+        if (pending.size > 0) return;
+        if (get().isLoading) set({ isLoading: false });
+        get().recalculate();
+      };
 
-      // Загрузить реальные накопления текущего месяца
-      const currentMonthSavings = await monthlySavingsService.getByMonth(currentYear, currentMonth);
+      const subscribeTable = <K extends keyof TableState>(key: K) =>
+        liveQuery(tableQueries[key]).subscribe({
+          next: (value) => {
+            set({ [key]: value } as Pick<TableState, K>);
+            handleLoaded(key);
+          },
+          error: handleError,
+        });
 
-      // Загрузить все доходы за год
-      const yearlyIncomes = new Map<number, MonthlyIncome[]>();
-      for (let month = 1; month <= 12; month++) {
-        const monthIncomes = await monthlyIncomeService.getByMonth(currentYear, month);
-        yearlyIncomes.set(month, monthIncomes);
-      }
+      subscriptions = [
+        ...(Object.keys(tableQueries) as (keyof TableState)[]).map(subscribeTable),
+        liveQuery(() => loadYearData(currentYear)).subscribe({
+          next: ({ incomes, savings, expenses }) => {
+            set({
+              currentMonthIncomes: incomes.get(currentMonth) || [],
+              currentMonthSavings: savings.find((item) => item.month === currentMonth) || null,
+              yearlyIncomes: incomes,
+              yearlySavings: savings,
+              currentMonthExpenses: expenses.get(currentMonth) || [],
+              yearlyExpenses: expenses,
+            });
+            handleLoaded('currentYear');
+          },
+          error: handleError,
+        }),
+      ];
+      subscribeViewYear(get().viewYear);
+    },
 
-      // Загрузить все накопления за год
-      const yearlySavings = await monthlySavingsService.getByYear(currentYear);
-
-      // Рассчитать результаты на основе реальных месячных данных
-      const calculations = calculateResultsFromMonthlyData(
-        currentMonthIncomes,
-        yearlyIncomes,
-        savings.currentSavings,
-        savings.alreadySaved,
-        settings.savingsPercentage
-      );
+    // Пересчитать результаты на основе месячных данных
+    recalculate: () => {
+      const calculations = calculateFigures(get(), new Date());
+      if (calculations) set({ calculations });
+    },
 
+    // Открыть другой год на страницах с месячными данными
+    setViewYear: (year) => {
+      // Уже загруженный год показывается сразу, подписка затем подтянет изменения
+      const cached = getCachedYearData(year);
       set({
-        currentMonthIncomes,
-        currentMonthSavings: currentMonthSavings || null,
-        yearlyIncomes,
-        yearlySavings,
-        calculations
+        viewYear: year,
+        viewYearIncomes: cached?.incomes ?? new Map(),
+        viewYearSavings: cached?.savings ?? [],
+        viewYearExpenses: cached?.expenses ?? new Map(),
       });
-    } catch (error) {
-      console.error('Failed to recalculate:', error);
-    }
-  },
-
-  // Добавить источник дохода
-  addIncomeSource: async (source) => {
-    try {
-      await incomeService.add(source);
-      const incomeSources = await incomeService.getAll();
-      set({ incomeSources });
-      await get().recalculate();
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to add income source' });
-    }
-  },
-
-  // Обновить источник дохода
-  updateIncomeSource: async (id, updates) => {
-    try {
-      await incomeService.update(id, updates);
-      const incomeSources = await incomeService.getAll();
-      set({ incomeSources });
-      await get().recalculate();
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to update income source' });
-    }
-  },
-
-  // Удалить источник дохода
-  deleteIncomeSource: async (id) => {
-    try {
-      await incomeService.delete(id);
-      const incomeSources = await incomeService.getAll();
-      set({ incomeSources });
-      await get().recalculate();
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to delete income source' });
-    }
-  },
-
-  // Обновить сбережения
-  updateSavings: async (data) => {
-    try {
-      await savingsService.update(data);
-      const savings = await savingsService.get();
-      set({ savings: savings || null });
-      await get().recalculate();
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to update savings' });
-    }
-  },
-
-  // Добавить цель
-  addGoal: async (goal) => {
-    try {
-      await goalsService.add(goal);
-      const goals = await goalsService.getAll();
-      set({ goals });
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to add goal' });
-    }
-  },
-
-  // Обновить цель
-  updateGoal: async (id, updates) => {
-    try {
-      await goalsService.update(id, updates);
-      const goals = await goalsService.getAll();
-      set({ goals });
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to update goal' });
-    }
-  },
-
-  // Удалить цель
-  deleteGoal: async (id) => {
-    try {
-      await goalsService.delete(id);
-      const goals = await goalsService.getAll();
-      set({ goals });
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to delete goal' });
-    }
-  },
-
-  // Обновить настройки
-  updateSettings: async (updates) => {
-    try {
-      await settingsService.update(updates);
-      const settings = await settingsService.get();
-      set({ settings: settings || null });
-      await get().recalculate();
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to update settings' });
-    }
-  },
-}));
+      subscribeViewYear(year);
+    },
+
+    // Показать данные на прошлую дату или вернуться к текущим
+    // Показать Dashboard и Analytics на прошлую дату (null — вернуться к текущим данным)
+    // Таблицы восстанавливаются по журналу изменений одним запросом; остальные страницы остаются с текущими данными
+    setAsOf: (date) => {
+      asOfSubscription?.unsubscribe();
+      asOfSubscription = null;
+      set({ asOf: date, asOfFigures: null });
+      if (!date) return;
+
+      const year = date.getFullYear();
+      const month = date.getMonth() + 1;
+      asOfSubscription = liveQuery(() => changeLogService.getTablesAt(date)).subscribe({
+        next: (tables) => {
+          const { incomes, savings, expenses } = groupYearData(
+            year,
+            tables.monthlyIncomes,
+            tables.monthlySavings,
+            tables.monthlyExpenses
+          );
+          const figures = {
+            ...toTableState(tables),
+            currentMonthIncomes: incomes.get(month) || [],
+            currentMonthSavings: savings.find((item) => item.month === month) || null,
+            yearlyIncomes: incomes,
+            yearlySavings: savings,
+            currentMonthExpenses: expenses.get(month) || [],
+            yearlyExpenses: expenses,
+          };
+          set({ asOfFigures: { ...figures, calculations: calculateFigures(figures, date) } });
+        },
+        error: handleError,
+      });
+    },
+
+    // Отменить последнее действие
+    // Запись снимается со стека сразу, чтобы повторное нажатие не отменило её дважды
+    undo: async () => {
+      const entry = get().undoStack[get().undoStack.length - 1];
+      if (!entry) return;
+      set((state) => ({ undoStack: state.undoStack.slice(0, -1), undoToast: null, historyError: null }));
+      try {
+        if (await historyService.undo(entry)) {
+          set((state) => ({ redoStack: [...state.redoStack, entry] }));
+        } else {
+          // Данные поменялись после действия (например, в другой вкладке) — отменять его поверх них нельзя
+          set({ historyError: `Cannot undo "${entry.label}": the data has changed since then, possibly in another tab` });
+        }
+      } catch (error) {
+        set((state) => ({
+          undoStack: [...state.undoStack, entry],
+          historyError: error instanceof Error ? error.message : 'Failed to undo',
+        }));
+      }
+    },
+
+    // Повторить отменённое действие
+    redo: async () => {
+      const entry = get().redoStack[get().redoStack.length - 1];
+      if (!entry) return;
+      set((state) => ({ redoStack: state.redoStack.slice(0, -1), historyError: null }));
+      try {
+        if (await historyService.redo(entry)) {
+          set((state) => ({ undoStack: [...state.undoStack, entry] }));
+        } else {
+          set({
+            historyError: `Cannot redo "${entry.label}": the data has changed since it was undone, possibly in another tab`,
+          });
+        }
+      } catch (error) {
+        set((state) => ({
+          redoStack: [...state.redoStack, entry],
+          historyError: error instanceof Error ? error.message : 'Failed to redo',
+        }));
+      }
+    },
+
+    // Скрыть уведомление с отменой
+    dismissUndoToast: () => {
+      set({ undoToast: null });
+    },
+
+    // Скрыть сообщение о неудачной отмене или повторе
+    dismissHistoryError: () => {
+      set({ historyError: null });
+    },
+
+    // Добавить источник дохода
+    addIncomeSource: async (source) => {
+      try {
+        await track('Added income source', async () => {
+          const id = await incomeService.add(source);
+          const created = await incomeService.getById(id);
+          if (created && created.isActive) {
+            const now = new Date();
+            await monthlyIncomeService.generateFromSource(created, now.getFullYear(), now.getMonth() + 1, 12);
+          }
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add income source' });
+      }
+    },
+
+    // Обновить источник дохода
+    updateIncomeSource: async (id, updates) => {
+      try {
+        await track('Updated income source', async () => {
+          await incomeService.update(id, updates);
+          const updated = await incomeService.getById(id);
+          if (updated) {
+            // Пересчитать суммы по месяцам и добавить месяцы, где появились выплаты
+            await monthlyIncomeService.updateFromSource(updated);
+            if (updated.isActive) {
+              const now = new Date();
+              await monthlyIncomeService.generateFromSource(updated, now.getFullYear(), now.getMonth() + 1, 12);
+            }
+          }
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update income source' });
+      }
+    },
+
+    // Запланировать изменение суммы источника
+    scheduleAmountChange: async (id, change) => {
+      try {
+        await track('Scheduled amount change', async () => {
+          await incomeService.setAmountChange(id, change);
+          const updated = await incomeService.getById(id);
+          if (updated) {
+            // Месяцы до даты изменения остаются как есть
+            await monthlyIncomeService.updateFromSource(updated, change);
+            if (updated.isActive) {
+              const now = new Date();
+              await monthlyIncomeService.generateFromSource(updated, now.getFullYear(), now.getMonth() + 1, 12);
+            }
+          }
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to schedule amount change' });
+      }
+    },
+
+    // Удалить изменение суммы источника
+    removeAmountChange: async (id, year, month) => {
+      try {
+        await track('Removed amount change', async () => {
+          await incomeService.removeAmountChange(id, year, month);
+          const updated = await incomeService.getById(id);
+          if (updated) {
+            await monthlyIncomeService.updateFromSource(updated, { year, month });
+          }
+        }, true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to remove amount change' });
+      }
+    },
+
+    // Удалить источник дохода; mode решает, что станет с его месячными доходами
+    deleteIncomeSource: async (id, mode) => {
+      try {
+        await track(mode === 'end' ? 'Ended income source' : 'Deleted income source', async () => {
+          const now = new Date();
+          const currentMonth = { year: now.getFullYear(), month: now.getMonth() + 1 };
+
+          if (mode === 'end') {
+            const source = await incomeService.getById(id);
+            if (!source) return;
+            // Уже завершённый раньше источник сохраняет свою дату окончания
+            const endDate = new Date(currentMonth.year, currentMonth.month - 1, 1);
+            await incomeService.update(id, {
+              endDate: source.endDate && new Date(source.endDate) < endDate ? source.endDate : endDate,
+            });
+            const updated = await incomeService.getById(id);
+            if (updated) {
+              await monthlyIncomeService.updateFromSource(updated);
+            }
+            return;
+          }
+
+          if (mode === 'future') {
+            await monthlyIncomeService.deleteBySource(id, currentMonth);
+            await monthlyIncomeService.detachBySource(id);
+          } else {
+            await monthlyIncomeService.deleteBySource(id);
+          }
+          await incomeService.delete(id);
+        }, true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete income source' });
+      }
+    },
+
+    // Добавить счёт
+    addAccount: async (account, openingBalance) => {
+      try {
+        await track('Added account', () => accountService.add(account, openingBalance));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add account' });
+      }
+    },
+
+    // Обновить счёт
+    updateAccount: async (id, updates) => {
+      try {
+        await track('Updated account', () => accountService.update(id, updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update account' });
+      }
+    },
+
+    // Удалить счёт вместе с историей (цели отвязываются)
+    deleteAccount: async (id) => {
+      try {
+        await track('Deleted account', () => accountService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete account' });
+      }
+    },
+
+    // Записать баланс счёта на дату
+    recordAccountBalance: async (snapshot) => {
+      try {
+        await track('Recorded balance', () => accountSnapshotService.add(snapshot));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to record balance' });
+      }
+    },
+
+    // Удалить снимок баланса
+    deleteAccountSnapshot: async (id) => {
+      try {
+        await track('Deleted balance', () => accountSnapshotService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete balance' });
+      }
+    },
+
+    // Перевести деньги между счетами
+    addAccountTransfer: async (transfer) => {
+      try {
+        await track('Added transfer', () => accountTransferService.add(transfer));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add transfer' });
+      }
+    },
+
+    // Удалить перевод
+    deleteAccountTransfer: async (id) => {
+      try {
+        await track('Deleted transfer', () => accountTransferService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete transfer' });
+      }
+    },
+
+    // Добавить актив или обязательство
+    addNetWorthItem: async (item, value) => {
+      try {
+        await track('Added net worth item', () => netWorthItemService.add(item, value));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add item' });
+      }
+    },
+
+    // Обновить актив или обязательство
+    updateNetWorthItem: async (id, updates) => {
+      try {
+        await track('Updated net worth item', () => netWorthItemService.update(id, updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update item' });
+      }
+    },
+
+    // Удалить актив или обязательство вместе с оценками
+    deleteNetWorthItem: async (id) => {
+      try {
+        await track('Deleted net worth item', () => netWorthItemService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete item' });
+      }
+    },
+
+    // Записать оценку позиции за месяц
+    setNetWorthValue: async (itemId, year, month, value) => {
+      try {
+        await track('Saved value', () => netWorthValuationService.setValue(itemId, year, month, value));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to save value' });
+      }
+    },
+
+    // Удалить оценку позиции за месяц
+    clearNetWorthValue: async (itemId, year, month) => {
+      try {
+        await track('Cleared value', () => netWorthValuationService.deleteByMonth(itemId, year, month), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to clear value' });
+      }
+    },
+
+    // Добавить долг
+    addDebt: async (debt) => {
+      try {
+        await track('Added debt', () => debtService.add(debt));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add debt' });
+      }
+    },
+
+    // Обновить долг
+    updateDebt: async (id, updates) => {
+      try {
+        await track('Updated debt', () => debtService.update(id, updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update debt' });
+      }
+    },
+
+    // Изменить пользовательский порядок погашения
+    reorderDebts: async (ids) => {
+      try {
+        await track('Reordered debts', () => debtService.reorder(ids));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to reorder debts' });
+      }
+    },
+
+    // Удалить долг
+    deleteDebt: async (id) => {
+      try {
+        await track('Deleted debt', () => debtService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete debt' });
+      }
+    },
+
+    // Добавить цель
+    addGoal: async (goal, startingAmount) => {
+      try {
+        await track('Added goal', () => goalsService.add(goal, startingAmount));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add goal' });
+      }
+    },
+
+    // Обновить цель
+    updateGoal: async (id, updates) => {
+      try {
+        await track('Updated goal', () => goalsService.update(id, updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update goal' });
+      }
+    },
+
+    // Удалить цель
+    deleteGoal: async (id) => {
+      try {
+        await track('Deleted goal', () => goalsService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete goal' });
+      }
+    },
+
+    // Добавить взнос в цель (или снятие)
+    addGoalContribution: async (contribution) => {
+      try {
+        await track('Added contribution', () => goalContributionService.add(contribution));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add contribution' });
+      }
+    },
+
+    // Удалить взнос
+    deleteGoalContribution: async (id) => {
+      try {
+        await track('Deleted contribution', () => goalContributionService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete contribution' });
+      }
+    },
+
+    // Сменить стратегию распределения накоплений и перераспределить текущий месяц
+    setGoalAllocation: async (strategy) => {
+      try {
+        await track('Changed goal allocation', async () => {
+          await settingsService.update({ goalAllocation: strategy });
+          const now = new Date();
+          await goalContributionService.allocateMonthlySavings(now.getFullYear(), now.getMonth() + 1);
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update goal allocation' });
+      }
+    },
+
+    // Записать накопления за месяц (распределяются между целями)
+    setMonthlySavings: async (year, month, savedAmount) => {
+      try {
+        await track('Saved monthly savings', () => monthlySavingsService.setSavings(year, month, savedAmount));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to save monthly savings' });
+      }
+    },
+
+    // Записать накопления за месяц по членам семьи
+    setMonthlyMemberSavings: async (year, month, memberAmounts, sharedAmount) => {
+      try {
+        await track('Saved monthly savings', () =>
+          monthlySavingsService.setMemberSavings(year, month, memberAmounts, sharedAmount)
+        );
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to save monthly savings' });
+      }
+    },
+
+    // Добавить разовый доход за месяц
+    addOneTimeIncome: async (income) => {
+      try {
+        await track('Added income', () => monthlyIncomeService.addOneTime(income));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add income' });
+      }
+    },
+
+    // Включить или выключить доход за месяц
+    toggleMonthlyIncome: async (id) => {
+      try {
+        await track('Toggled income', () => monthlyIncomeService.toggleActive(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update income' });
+      }
+    },
+
+    // Указать, до налогов или на руки сумма дохода за месяц
+    setMonthlyIncomeBasis: async (id, amountBasis) => {
+      try {
+        await track('Changed income basis', () => monthlyIncomeService.setAmountBasis(id, amountBasis));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update income' });
+      }
+    },
+
+    // Удалить доход за месяц
+    deleteMonthlyIncome: async (id) => {
+      try {
+        await track('Deleted income', () => monthlyIncomeService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete income' });
+      }
+    },
+
+    // Импортировать строки выписки как разовые доходы
+    importMonthlyIncomes: async (rows) => {
+      let count = 0;
+      try {
+        await track('Imported incomes', async () => {
+          count = await monthlyIncomeService.importRows(rows);
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to import incomes' });
+        return 0;
+      }
+      return count;
+    },
+
+    // Запомнить ручные исправления типа при импорте как правила
+    saveImportRules: async (rules) => {
+      if (rules.length === 0) return;
+      try {
+        await track('Saved import rules', async () => {
+          for (const rule of rules) {
+            await importRulesService.save(rule.pattern, rule.type);
+          }
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to save import rules' });
+      }
+    },
+
+    // Удалить правило импорта
+    deleteImportRule: async (id) => {
+      try {
+        await track('Deleted import rule', () => importRulesService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete import rule' });
+      }
+    },
+
+    // Исправить месячные доходы удалённых источников и повторы за месяц
+    repairIntegrity: async () => {
+      try {
+        await track('Repaired monthly incomes', () => monthlyIncomeService.repairIntegrity());
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to repair data' });
+      }
+    },
+
+    // Добавить разовый расход за месяц
+    addOneTimeExpense: async (expense) => {
+      try {
+        await track('Added expense', () => monthlyExpenseService.addOneTime(expense));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add expense' });
+      }
+    },
+
+    // Включить или выключить расход за месяц
+    toggleMonthlyExpense: async (id) => {
+      try {
+        await track('Toggled expense', () => monthlyExpenseService.toggleActive(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update expense' });
+      }
+    },
+
+    // Удалить расход за месяц
+    deleteMonthlyExpense: async (id) => {
+      try {
+        await track('Deleted expense', () => monthlyExpenseService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete expense' });
+      }
+    },
+
+    // Добавить категорию расходов
+    addExpenseCategory: async (category) => {
+      try {
+        await track('Added expense category', () => expenseCategoryService.add(category));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add expense category' });
+      }
+    },
+
+    // Обновить категорию расходов
+    updateExpenseCategory: async (id, updates) => {
+      try {
+        await track('Updated expense category', () => expenseCategoryService.update(id, updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update expense category' });
+      }
+    },
+
+    // Удалить категорию расходов (расходы переносятся в другую категорию)
+    deleteExpenseCategory: async (id, replacementId) => {
+      try {
+        await track('Deleted expense category', () => expenseCategoryService.delete(id, replacementId), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete expense category' });
+      }
+    },
+
+    // Добавить регулярный расход
+    addRecurringExpense: async (expense) => {
+      try {
+        await track('Added recurring expense', async () => {
+          const id = await recurringExpenseService.add(expense);
+          const created = await recurringExpenseService.getById(id);
+          if (created) {
+            const now = new Date();
+            await monthlyExpenseService.generateFromRecurring(created, now.getFullYear(), now.getMonth() + 1, 12);
+          }
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add expense' });
+      }
+    },
+
+    // Обновить регулярный расход
+    updateRecurringExpense: async (id, updates) => {
+      try {
+        await track('Updated recurring expense', async () => {
+          await recurringExpenseService.update(id, updates);
+          const updated = await recurringExpenseService.getById(id);
+          if (updated) {
+            await monthlyExpenseService.updateFromRecurring(updated);
+          }
+        });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update expense' });
+      }
+    },
+
+    // Удалить регулярный расход вместе с его месячными записями
+    deleteRecurringExpense: async (id) => {
+      try {
+        await track('Deleted recurring expense', async () => {
+          await recurringExpenseService.delete(id);
+          await monthlyExpenseService.deleteByRecurring(id);
+        }, true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete expense' });
+      }
+    },
+
+    // Добавить налоговый профиль
+    addTaxProfile: async (profile) => {
+      try {
+        await track('Added tax profile', () => taxProfileService.add(profile));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add tax profile' });
+      }
+    },
+
+    // Обновить налоговый профиль
+    updateTaxProfile: async (id, updates) => {
+      try {
+        await track('Updated tax profile', () => taxProfileService.update(id, updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update tax profile' });
+      }
+    },
+
+    // Удалить налоговый профиль
+    deleteTaxProfile: async (id) => {
+      try {
+        await track('Deleted tax profile', () => taxProfileService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete tax profile' });
+      }
+    },
+
+    // Записать уплаченный налог
+    addTaxPayment: async (payment) => {
+      try {
+        await track('Added tax payment', () => taxPaymentService.add(payment));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add tax payment' });
+      }
+    },
+
+    // Удалить уплаченный налог
+    deleteTaxPayment: async (id) => {
+      try {
+        await track('Deleted tax payment', () => taxPaymentService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete tax payment' });
+      }
+    },
+
+    // Добавить члена семьи
+    addHouseholdMember: async (member) => {
+      try {
+        await track('Added household member', () => householdMemberService.add(member));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add household member' });
+      }
+    },
+
+    // Обновить члена семьи
+    updateHouseholdMember: async (id, updates) => {
+      try {
+        await track('Updated household member', () => householdMemberService.update(id, updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update household member' });
+      }
+    },
+
+    // Удалить члена семьи; его доходы и взносы становятся общими
+    deleteHouseholdMember: async (id) => {
+      try {
+        await track('Deleted household member', () => householdMemberService.delete(id), true);
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to delete household member' });
+      }
+    },
+
+    // Обновить настройки
+    updateSettings: async (updates) => {
+      try {
+        await track('Updated settings', () => settingsService.update(updates));
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to update settings' });
+      }
+    },
+
+    // Восстановить данные из резервной копии
+    restoreBackup: async (backup, mode) => {
+      set({ error: null });
+      try {
+        await backupService.restore(backup, mode);
+        // Суммы целей выводятся из журнала, который мог измениться при слиянии
+        await goalContributionService.recalculateAll();
+        // Восстановление не отменяется, а прежние действия относятся к заменённым данным
+        set({ undoStack: [], redoStack: [], undoToast: null });
+      } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to restore backup' });
+      }
+    },
+  };
+});
+
+/**
+ * Данные на прошлую дату, пока они восстанавливаются по журналу: страницы показывают загрузку, а не текущие цифры
+ */
+const LOADING_FIGURES: FiguresState = {
+  incomeSources: [],
+  accounts: [],
+  accountSnapshots: [],
+  accountTransfers: [],
+  netWorthItems: [],
+  netWorthValuations: [],
+  debts: [],
+  taxProfiles: [],
+  taxPayments: [],
+  goals: [],
+  goalContributions: [],
+  settings: null,
+  expenseCategories: [],
+  recurringExpenses: [],
+  householdMembers: [],
+  currentMonthIncomes: [],
+  currentMonthSavings: null,
+  yearlyIncomes: new Map(),
+  yearlySavings: [],
+  currentMonthExpenses: [],
+  yearlyExpenses: new Map(),
+  calculations: null,
+};
+
+/**
+ * Данные и расчёты для Dashboard и Analytics: на выбранную прошлую дату или текущие
+ */
+export const useFigures = (): FiguresState =>
+  useAppStore((state) => (state.asOf ? state.asOfFigures ?? LOADING_FIGURES : state));
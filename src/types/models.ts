@@ -16,34 +16,279 @@ export enum IncomeType {
 export enum IncomeFrequency {
   MONTHLY = 'monthly',
   WEEKLY = 'weekly',
+  BIWEEKLY = 'biweekly',
   YEARLY = 'yearly',
   ONE_TIME = 'one_time',
 }
 
+/**
+ * База суммы дохода: gross — до налогов, net — на руки
+ */
+export type AmountBasis = 'gross' | 'net';
+
 /**
  * Источник дохода
  */
 export interface IncomeSource {
   id: string;
   name: string;
-  amount: number; // Сумма за период
+  amount: number; // Сумма за период, действующая в текущем месяце
+  amountHistory?: IncomeAmountChange[]; // Датированные изменения суммы, по возрастанию даты
   type: IncomeType;
+  amountBasis: AmountBasis; // Сумма указана до налогов или на руки
   frequency: IncomeFrequency;
+  anchorDate?: Date; // Дата одной из выплат (для weekly/biweekly), по умолчанию createdAt
+  payoutMonth?: number; // Месяц выплаты для yearly (1-12)
+  spreadYearly?: boolean; // yearly: распределить сумму равномерно по 12 месяцам
+  payoutDate?: Date; // Дата выплаты для one_time
+  startDate?: Date; // Первый месяц выплат (учитывается только месяц)
+  endDate?: Date; // Последний месяц выплат включительно
+  pauses?: IncomePause[]; // Перерывы в выплатах (декрет, творческий отпуск)
+  memberId?: string; // Член семьи, который получает доход (без него — общий доход)
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
- * Текущие сбережения
+ * Изменение суммы источника дохода, действующее с указанного месяца
+ */
+export interface IncomeAmountChange {
+  year: number;
+  month: number; // 1-12
+  amount: number; // Сумма за период, начиная с этого месяца
+}
+
+/**
+ * Перерыв в выплатах источника дохода, границы включительно с точностью до месяца
+ */
+export interface IncomePause {
+  startDate: Date;
+  endDate: Date;
+  reason: string; // Причина, показывается у неактивных месяцев
+}
+
+/**
+ * Что сделать с месячными доходами при удалении источника
+ * end — завершить источник текущим месяцем: источник и прошлые месяцы остаются
+ * future — удалить источник и будущие месяцы; прошлые месяцы остаются как разовые доходы
+ * purge — удалить источник вместе со всеми месячными доходами
+ */
+export type IncomeSourceDeletion = 'end' | 'future' | 'purge';
+
+/**
+ * Член семьи: доходы и взносы могут принадлежать конкретному человеку
+ */
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Как члены семьи делят общие накопления или цель
+ * equal — поровну
+ * proportional — пропорционально доходам
+ * custom — по заданным долям
+ */
+export type SplitMethod = 'equal' | 'proportional' | 'custom';
+
+/**
+ * Правило деления взносов между членами семьи
+ */
+export interface SplitRule {
+  method: SplitMethod;
+  shares?: Record<string, number>; // custom: доля каждого члена семьи, %
+}
+
+/**
+ * Взаиморасчёт члена семьи по общим накоплениям или цели
+ */
+export interface MemberSettlement {
+  memberId: string;
+  contributed: number; // Сколько внёс
+  fairShare: number; // Сколько должен был внести по правилу деления
+  balance: number; // contributed − fairShare: > 0 — внёс больше, < 0 — отстаёт
+}
+
+/**
+ * Перевод между членами семьи, выравнивающий взносы
+ */
+export interface SettleUpTransfer {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+}
+
+/**
+ * Вид счёта накоплений
+ */
+export type AccountKind = 'deposit' | 'brokerage' | 'cash' | 'checking' | 'other';
+
+/**
+ * Счёт, на котором хранятся накопления (вклад, брокерский счёт, наличные)
+ */
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  currency: string; // Валюта счёта
+  exchangeRate?: number; // Цена единицы валюты счёта в основной валюте (если валюты различаются)
+  interestRate?: number; // Своя годовая доходность, %; без неё — общая ожидаемая доходность
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Зафиксированный баланс счёта на дату (в валюте счёта)
+ */
+export interface AccountSnapshot {
+  id: string;
+  accountId: string;
+  date: Date;
+  balance: number;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Перевод между счетами
+ */
+export interface AccountTransfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  date: Date;
+  amount: number; // Списано со счёта-источника, в его валюте
+  receivedAmount?: number; // Зачислено на счёт-получатель в его валюте, если валюты различаются
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Начальный баланс для прогноза: остаток счёта в основной валюте и его доходность
+ */
+export interface SavingsBalance {
+  amount: number;
+  annualReturnRate: number; // %
+}
+
+/**
+ * Актив или обязательство
+ */
+export type NetWorthItemKind = 'asset' | 'liability';
+
+/**
+ * Категория актива (property, vehicle, investment) или обязательства (mortgage, loan, credit_card)
+ */
+export type NetWorthCategory =
+  | 'property'
+  | 'vehicle'
+  | 'investment'
+  | 'mortgage'
+  | 'loan'
+  | 'credit_card'
+  | 'other';
+
+/**
+ * Актив (недвижимость, автомобиль, инвестиции) или обязательство (ипотека, кредит, кредитная карта)
+ * Счета накоплений учитываются отдельно (Account)
+ */
+export interface NetWorthItem {
+  id: string;
+  name: string;
+  kind: NetWorthItemKind;
+  category: NetWorthCategory;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Оценка актива или остаток обязательства за конкретный месяц
  */
-export interface Savings {
+export interface NetWorthValuation {
   id: string;
-  currentSavings: number; // Текущие накопления
-  alreadySaved: number; // Уже отложенные средства
+  itemId: string;
+  year: number;
+  month: number; // 1-12 (январь = 1)
+  value: number; // Стоимость актива или остаток долга, положительное число
+  createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Собственный капитал на конец месяца
+ */
+export interface NetWorthPoint {
+  year: number;
+  month: number;
+  accounts: number; // Балансы счетов в основной валюте
+  assets: number; // Остальные активы
+  liabilities: number;
+  netWorth: number; // accounts + assets - liabilities
+}
+
+/**
+ * Долг (кредит, займ, кредитная карта) для планирования погашения
+ */
+export interface Debt {
+  id: string;
+  name: string;
+  balance: number; // Текущий остаток долга
+  apr: number; // Годовая ставка, %
+  minimumPayment: number; // Минимальный платёж в месяц
+  customOrder: number; // Очерёдность для стратегии 'custom' (1 — первый)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Стратегия досрочного погашения долгов
+ * avalanche — сначала долг с самой высокой ставкой
+ * snowball — сначала самый маленький долг
+ * custom — в порядке, заданном пользователем
+ */
+export type DebtPayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+/**
+ * Платёж по одному долгу за месяц плана погашения
+ */
+export interface DebtPayment {
+  debtId: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Остаток после платежа
+}
+
+/**
+ * Месяц плана погашения
+ */
+export interface DebtPayoffMonth {
+  month: number; // Номер месяца плана (с 1)
+  payments: DebtPayment[];
+  payment: number;
+  interest: number;
+  balance: number; // Общий остаток после платежей
+}
+
+/**
+ * План погашения долгов по стратегии
+ */
+export interface DebtPayoffPlan {
+  strategy: DebtPayoffStrategy;
+  months: DebtPayoffMonth[];
+  monthsToPayoff: number; // Infinity — не погашается за горизонт
+  debtPayoffMonths: Record<string, number>; // Месяц погашения каждого долга
+  totalInterest: number;
+  totalPaid: number;
+}
+
 /**
  * Финансовая цель
  */
@@ -51,33 +296,222 @@ export interface Goal {
   id: string;
   name: string;
   targetAmount: number;
-  currentAmount: number;
+  currentAmount: number; // Сумма по журналу взносов, пересчитывается goalContributionService
   deadline?: Date;
+  inflateTarget?: boolean; // Пересчитать целевую сумму с учётом инфляции к дедлайну
+  priority: number; // Очерёдность при распределении накоплений (1 — первая)
+  fixedMonthlyAmount?: number; // Сумма в месяц для стратегии 'fixed'
+  accountId?: string; // Счёт, на котором копится цель
+  split?: SplitRule; // Общая цель: как члены семьи делят взносы
   description?: string;
   color: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Стратегия распределения месячных накоплений между целями
+ * manual — без автоматического распределения
+ * waterfall — по приоритету: следующая цель получает деньги, когда предыдущая заполнена
+ * proportional — пропорционально оставшимся суммам целей
+ * fixed — фиксированная сумма в месяц на каждую цель, по приоритету
+ */
+export type GoalAllocationStrategy = 'manual' | 'waterfall' | 'proportional' | 'fixed';
+
+/**
+ * Успевает ли цель к дедлайну
+ */
+export type GoalFeasibilityStatus = 'on_track' | 'at_risk' | 'off_track';
+
+/**
+ * Анализ достижимости цели к дедлайну
+ */
+export interface GoalFeasibility {
+  goalId: string;
+  status: GoalFeasibilityStatus;
+  monthsLeft: number; // Месяцев до дедлайна
+  monthsNeeded: number; // Месяцев до достижения при текущем темпе (Infinity — никогда)
+  requiredMonthly: number; // Сколько нужно откладывать в цель в месяц, чтобы успеть
+  projectedMonthly: number; // Сколько в среднем получает цель при текущем темпе накоплений
+  fixes: {
+    savingsPercentage?: number; // Поднять процент накоплений до X%
+    fixedMonthlyAmount?: number; // Стратегия fixed: поднять сумму цели в месяц до X
+    deadline?: Date; // Перенести дедлайн на Y
+    targetAmount?: number; // Снизить цель до Z (в сегодняшних деньгах)
+  };
+}
+
+/**
+ * Взнос в цель или снятие с неё (отрицательная сумма)
+ */
+export interface GoalContribution {
+  id: string;
+  goalId: string;
+  date: Date;
+  amount: number; // > 0 — взнос, < 0 — снятие
+  note?: string;
+  monthlySavingsId?: string; // Месяц накоплений (MonthlySavings), из которого сделан взнос
+  isOpeningBalance?: boolean; // Начальная сумма цели, не влияет на темп взносов
+  isAutoAllocated?: boolean; // Создан автоматически при распределении месячных накоплений
+  memberId?: string; // Кто из членов семьи внёс
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Настройки приложения
  */
 export interface AppSettings {
   id: string;
   savingsPercentage: number; // Процент от дохода для накоплений (10, 15, 20, 30...)
+  expectedReturnRate: number; // Ожидаемая годовая доходность накоплений, %
+  inflationRate: number; // Ожидаемая годовая инфляция, %
+  realTerms: boolean; // Показывать прогнозы в сегодняшних деньгах
+  goalAllocation: GoalAllocationStrategy; // Как делить месячные накопления между целями
+  taxProfileId?: string; // Налоговый профиль для пересчёта gross-доходов в net (нет — без налогов)
+  taxReserveRates: TaxReserveRates; // Сколько откладывать на налоги с дохода по типам
+  savingsSplit?: SplitRule; // Как члены семьи делят месячные накопления
   currency: string; // Валюта (USD, RUB, EUR...)
   locale: string; // Локаль для форматирования
   theme: 'light' | 'dark';
   updatedAt: Date;
 }
 
+/**
+ * Ступень прогрессивной шкалы: ставка действует на часть годового дохода до upTo
+ */
+export interface TaxBracket {
+  upTo: number | null; // Верхняя граница ступени, null — без ограничения
+  rate: number; // Ставка, %
+}
+
+/**
+ * Налоговый профиль
+ * Gross-доходы облагаются по прогрессивной шкале, если для их типа не задана плоская ставка;
+ * социальные взносы начисляются на gross-доходы выбранных типов
+ */
+export interface TaxProfile {
+  id: string;
+  name: string;
+  deduction: number; // Годовой необлагаемый минимум для прогрессивной шкалы
+  brackets: TaxBracket[]; // По возрастанию upTo, последняя ступень — null
+  flatRates: Partial<Record<IncomeType, number>>; // Плоская ставка по типу дохода, %
+  socialRate: number; // Социальные взносы, %
+  socialCap?: number; // Годовой потолок базы для взносов
+  socialTypes: IncomeType[]; // Типы дохода, с которых платятся взносы
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Эффективная ставка налога (с взносами) по типу дохода, доля от gross
+ */
+export type TaxRates = Partial<Record<IncomeType, number>>;
+
+/**
+ * Доля дохода, которая откладывается на налоги, по типу дохода, %
+ */
+export type TaxReserveRates = Partial<Record<IncomeType, number>>;
+
+/**
+ * Уплаченный налог (авансовый платёж за квартал)
+ */
+export interface TaxPayment {
+  id: string;
+  year: number;
+  quarter: number; // 1-4
+  date: Date; // Дата платежа
+  amount: number;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Квартал налогового резерва
+ * Накопительные суммы считаются с начала года
+ */
+export interface TaxReserveQuarter {
+  year: number;
+  quarter: number;
+  dueDate: Date; // Срок уплаты за квартал
+  income: number; // Доход типов с резервом
+  owed: number; // Начисленный налог за квартал
+  setAside: number; // Отложено за квартал
+  paid: number; // Уплачено за квартал
+  reserveBalance: number; // Отложено минус уплачено
+  unpaid: number; // Начислено минус уплачено
+  shortfall: number; // Насколько отложенное меньше начисленного
+  isOverdue: boolean; // Срок прошёл, а налог уплачен не полностью
+}
+
+/**
+ * Годовой налог по профилю
+ */
+export interface TaxBreakdown {
+  gross: number; // Облагаемый (gross) доход
+  incomeTax: number;
+  socialContributions: number;
+  tax: number; // incomeTax + socialContributions
+  net: number;
+  effectiveRates: TaxRates;
+}
+
+/**
+ * Категория расходов (задаётся пользователем)
+ */
+export interface ExpenseCategory {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Регулярный (ежемесячный) расход
+ */
+export interface RecurringExpense {
+  id: string;
+  name: string;
+  amount: number; // Сумма в месяц
+  categoryId: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Расход за конкретный месяц
+ */
+export interface MonthlyExpense {
+  id: string;
+  year: number;
+  month: number; // 1-12 (январь = 1)
+  recurringExpenseId: string | null; // Ссылка на RecurringExpense (null для разовых)
+  categoryId: string;
+  amount: number;
+  name: string;
+  isActive: boolean; // Включён ли в этом месяце
+  isRecurring: boolean; // true = регулярный, false = разовый
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Результаты расчетов
  */
 export interface CalculationResults {
-  monthlyIncome: number; // Месячный доход
-  yearlyIncome: number; // Годовой доход
-  monthlySavings: number; // Месячные накопления
+  monthlyGrossIncome: number; // Месячный доход в записанных суммах (gross и net вместе)
+  monthlyTax: number; // Налог с gross-доходов месяца
+  monthlyIncome: number; // Месячный доход на руки
+  yearlyGrossIncome: number;
+  yearlyTax: number;
+  yearlyIncome: number; // Годовой доход на руки
+  taxRates: TaxRates; // Эффективные ставки года по типам дохода
+  monthlyTaxReserve: number; // Отложено на налоги в текущем месяце
+  monthlyAvailableIncome: number; // Доход на руки за вычетом резерва — база для накоплений и целей
+  monthlySavings: number; // Месячные накопления (от monthlyAvailableIncome)
   yearlySavings: number; // Годовые накопления
 
   // Прогнозы накоплений
@@ -85,6 +519,8 @@ export interface CalculationResults {
     years: number;
     total: number; // Общая сумма накоплений через N лет
     saved: number; // Накоплено за N лет
+    contributed: number; // Вложено своих денег (балансы счетов + взносы)
+    growth: number; // Доход от сложного процента
   }[];
 
   // Разбивка по источникам
@@ -93,6 +529,30 @@ export interface CalculationResults {
     amount: number;
     percentage: number;
   }[];
+
+  // Разбивка по членам семьи (пусто, если членов семьи нет)
+  memberBreakdown: {
+    memberId: string | null; // null — доход без члена семьи
+    name: string;
+    color: string;
+    amount: number;
+    percentage: number;
+  }[];
+
+  // Расходы и денежный поток
+  monthlyExpenses: number; // Расходы текущего месяца
+  yearlyExpenses: number; // Расходы за год
+  netCashFlow: number; // Доход минус расходы за текущий месяц
+  yearlyNetCashFlow: number; // Доход минус расходы за год
+
+  // Разбивка расходов по категориям
+  expenseBreakdown: {
+    categoryId: string;
+    name: string;
+    color: string;
+    amount: number;
+    percentage: number;
+  }[];
 }
 
 /**
@@ -104,6 +564,76 @@ export interface WhatIfScenario {
   monthlySavings: number;
   projection5Years: number;
   projection10Years: number;
+  growth5Years: number; // Доля прогноза, полученная за счёт доходности
+  growth10Years: number;
+}
+
+/**
+ * Параметры роста накоплений для прогнозов
+ */
+export interface ProjectionOptions {
+  annualReturnRate: number; // Годовая доходность взносов, %
+  inflationRate: number; // Годовая инфляция, %
+  realTerms: boolean; // true = результаты в сегодняшних деньгах
+  incomeSchedule?: number[]; // Ожидаемый доход по месяцам начиная с текущего; заменяет постоянный доход
+}
+
+/**
+ * Прогноз накоплений с разделением на вложенное и заработанное
+ */
+export interface ProjectionBreakdown {
+  total: number;
+  contributed: number;
+  growth: number;
+}
+
+/**
+ * Поток дохода для симуляции Монте-Карло
+ */
+export interface SimulationIncomeStream {
+  type: IncomeType;
+  mean: number; // Средний доход в месяц
+  stdDev: number; // Стандартное отклонение (0 для стабильных типов)
+}
+
+/**
+ * Параметры симуляции Монте-Карло
+ */
+export interface MonteCarloInput {
+  seed: number;
+  runs: number;
+  months: number; // Горизонт симуляции
+  startingBalance: number;
+  savingsPercentage: number;
+  incomeStreams: SimulationIncomeStream[];
+  annualReturnRate: number; // Ожидаемая годовая доходность, %
+  annualVolatility: number; // Годовая волатильность доходности, %
+  inflationRate: number;
+  realTerms: boolean;
+  goals: {
+    id: string;
+    name: string;
+    currentAmount: number;
+    targetAmount: number;
+    deadlineMonth: number; // Номер месяца симуляции, к которому нужна сумма
+  }[];
+}
+
+/**
+ * Результат симуляции Монте-Карло
+ */
+export interface MonteCarloResult {
+  percentiles: {
+    month: number;
+    p10: number;
+    p50: number;
+    p90: number;
+  }[];
+  goalChances: {
+    id: string;
+    name: string;
+    probability: number; // 0..1
+  }[];
 }
 
 /**
@@ -117,8 +647,12 @@ export interface MonthlyIncome {
   amount: number; // Сумма за этот месяц
   name: string; // Название (для разовых доходов)
   type: IncomeType; // Тип дохода
+  amountBasis: AmountBasis; // Сумма указана до налогов или на руки
   isActive: boolean; // Включён ли в этом месяце
   isRecurring: boolean; // true = регулярный из Income Sources, false = разовый
+  inactiveReason?: string; // Почему месяц выключен автоматически (пауза источника)
+  memberId?: string; // Член семьи, который получил доход
+  importFingerprint?: string; // Отпечаток строки банковской выписки (для импортированных)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -131,7 +665,190 @@ export interface MonthlySavings {
   year: number; // 2024, 2025...
   month: number; // 1-12 (январь = 1)
   savedAmount: number; // Сколько реально отложили
+  memberAmounts?: Record<string, number>; // Сколько отложил каждый член семьи (savedAmount — их сумма)
   notes?: string; // Заметки (опционально)
   createdAt: Date;
   updatedAt: Date;
 }
+
+/**
+ * Правило определения типа дохода при импорте выписки
+ */
+export interface ImportRule {
+  id: string;
+  pattern: string; // Подстрока описания (без учёта регистра)
+  type: IncomeType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Формат даты в CSV-выписке
+ */
+export type CsvDateFormat = 'yyyy-MM-dd' | 'dd.MM.yyyy' | 'dd/MM/yyyy' | 'MM/dd/yyyy';
+
+/**
+ * Настройки разбора CSV-выписки и сопоставления колонок
+ */
+export interface CsvImportOptions {
+  delimiter: string; // Разделитель колонок
+  hasHeader: boolean; // Первая строка — заголовок
+  dateColumn: number; // Индексы колонок
+  amountColumn: number;
+  descriptionColumn: number;
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: '' | ',' | '.' | ' ';
+  dateFormat: CsvDateFormat;
+}
+
+/**
+ * Строка выписки, подготовленная к импорту
+ */
+export interface CsvImportRow {
+  line: number; // Номер строки в файле (с 1)
+  date: Date | null;
+  year: number;
+  month: number;
+  amount: number;
+  description: string;
+  type: IncomeType;
+  fingerprint: string;
+  status: 'new' | 'duplicate' | 'invalid' | 'expense';
+  error?: string;
+}
+
+/**
+ * Профиль: отдельный набор данных (свой бюджет, бюджет партнёра, личные и рабочие книги)
+ * Данные каждого профиля хранятся в своей базе IndexedDB
+ */
+export interface Profile {
+  id: string;
+  name: string;
+  databaseName: string; // Имя базы IndexedDB с данными профиля
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Зашифрованные данные (AES-GCM, в base64)
+ */
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+/**
+ * Параметры шифрования данных профиля паролем
+ * Хранятся открыто: по ним из пароля получается ключ и проверяется, что пароль верный
+ */
+export interface EncryptionVault {
+  id: string;
+  salt: string;
+  iterations: number; // Итерации PBKDF2
+  verifier: EncryptedPayload; // Известная строка, зашифрованная ключом
+  autoLockMinutes: number; // Блокировка после бездействия, 0 — не блокировать
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Содержимое всех таблиц базы данных
+ */
+export interface BackupTables {
+  incomeSources: IncomeSource[];
+  accounts: Account[];
+  accountSnapshots: AccountSnapshot[];
+  accountTransfers: AccountTransfer[];
+  netWorthItems: NetWorthItem[];
+  netWorthValuations: NetWorthValuation[];
+  debts: Debt[];
+  taxProfiles: TaxProfile[];
+  taxPayments: TaxPayment[];
+  goals: Goal[];
+  settings: AppSettings[];
+  monthlyIncomes: MonthlyIncome[];
+  monthlySavings: MonthlySavings[];
+  importRules: ImportRule[];
+  expenseCategories: ExpenseCategory[];
+  recurringExpenses: RecurringExpense[];
+  monthlyExpenses: MonthlyExpense[];
+  goalContributions: GoalContribution[];
+  householdMembers: HouseholdMember[];
+}
+
+/**
+ * Резервная копия базы данных (JSON-документ)
+ */
+export interface BackupDocument {
+  app: 'wispr-flow';
+  formatVersion: number; // Версия формата файла резервной копии
+  schemaVersion: number; // Версия схемы Dexie на момент экспорта
+  exportedAt: Date;
+  tables: BackupTables;
+}
+
+/**
+ * Резервная копия, зашифрованная паролем
+ */
+export interface EncryptedBackupDocument {
+  app: 'wispr-flow';
+  formatVersion: number;
+  encryption: {
+    salt: string;
+    iterations: number;
+  };
+  payload: EncryptedPayload; // JSON обычной резервной копии
+}
+
+/**
+ * Режим восстановления из резервной копии
+ */
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * Нарушения целостности месячных доходов
+ */
+export interface IntegrityReport {
+  orphanedIncomes: MonthlyIncome[]; // Ссылаются на удалённый источник
+  duplicateIncomes: MonthlyIncome[]; // Лишние записи источника за месяц (одна запись месяца остаётся)
+}
+
+/**
+ * Вид изменения записи в журнале изменений
+ */
+export type ChangeOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Запись журнала изменений (только добавляется, никогда не меняется)
+ * before/after — запись до и после изменения; undefined, если записи не было
+ */
+export interface ChangeLogEntry {
+  id: string;
+  timestamp: Date;
+  entity: string; // Имя таблицы, например "incomeSources"
+  entityId: string;
+  operation: ChangeOperation;
+  before?: unknown;
+  after?: unknown;
+  reason?: string; // Действие пользователя, например "Deleted income source"
+}
+
+/**
+ * Изменение одной записи в действии пользователя
+ * before/after — запись до и после действия; undefined, если записи не было
+ */
+export interface HistoryChange {
+  table: string;
+  key: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Действие в истории отмены: все записи, которые оно затронуло, включая каскадные изменения
+ */
+export interface HistoryEntry {
+  label: string; // Описание действия для уведомления, например "Deleted income source"
+  destructive: boolean; // Удаление или выключение — после него показывается уведомление с отменой
+  changes: HistoryChange[];
+}
@@ -0,0 +1,76 @@
+import type { Account, AccountSnapshot, AccountTransfer, AppSettings, SavingsBalance } from '@/types/models';
+
+/**
+ * Последний снимок баланса счёта на дату (при одинаковой дате — последний записанный)
+ */
+export function getLatestSnapshot(
+  accountId: string,
+  snapshots: AccountSnapshot[],
+  at: Date = new Date()
+): AccountSnapshot | undefined {
+  return snapshots
+    .filter(snapshot => snapshot.accountId === accountId && new Date(snapshot.date) <= at)
+    .sort(
+      (a, b) =>
+        new Date(b.date).getTime() - new Date(a.date).getTime() ||
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )[0];
+}
+
+/**
+ * Изменение баланса счёта от перевода (в валюте счёта)
+ */
+export function getTransferDelta(accountId: string, transfer: AccountTransfer): number {
+  if (transfer.toAccountId === accountId) return transfer.receivedAmount ?? transfer.amount;
+  if (transfer.fromAccountId === accountId) return -transfer.amount;
+  return 0;
+}
+
+/**
+ * Баланс счёта на дату в валюте счёта
+ * Последний снимок плюс переводы после его даты; снимок уже включает переводы своего дня
+ */
+export function calculateAccountBalance(
+  accountId: string,
+  snapshots: AccountSnapshot[],
+  transfers: AccountTransfer[],
+  at: Date = new Date()
+): number {
+  const snapshot = getLatestSnapshot(accountId, snapshots, at);
+  const since = snapshot ? new Date(snapshot.date) : null;
+
+  return transfers
+    .filter(transfer => {
+      const date = new Date(transfer.date);
+      return date <= at && (!since || date > since);
+    })
+    .reduce((balance, transfer) => balance + getTransferDelta(accountId, transfer), snapshot?.balance ?? 0);
+}
+
+/**
+ * Перевести сумму из валюты счёта в основную валюту
+ */
+export function toBaseCurrency(amount: number, account: Account, baseCurrency: string): number {
+  return account.currency === baseCurrency ? amount : amount * (account.exchangeRate ?? 1);
+}
+
+/**
+ * Балансы всех счетов в основной валюте с их доходностью — начальные суммы для прогнозов
+ * Для счетов без своей ставки используется общая ожидаемая доходность
+ */
+export function calculateSavingsBalances(
+  accounts: Account[],
+  snapshots: AccountSnapshot[],
+  transfers: AccountTransfer[],
+  settings: AppSettings,
+  at: Date = new Date()
+): SavingsBalance[] {
+  return accounts.map(account => ({
+    amount: toBaseCurrency(
+      calculateAccountBalance(account.id, snapshots, transfers, at),
+      account,
+      settings.currency
+    ),
+    annualReturnRate: account.interestRate ?? settings.expectedReturnRate ?? 0,
+  }));
+}
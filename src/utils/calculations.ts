@@ -1,11 +1,26 @@
 import type {
+  AppSettings,
+  Goal,
+  GoalContribution,
+  SavingsBalance,
+  ProjectionOptions,
+  ProjectionBreakdown,
   IncomeSource,
+  IncomeAmountChange,
+  IncomePause,
   IncomeFrequency,
   IncomeType,
   MonthlyIncome,
+  MonthlyExpense,
+  ExpenseCategory,
+  HouseholdMember,
   CalculationResults,
   WhatIfScenario,
+  TaxRates,
+  TaxReserveRates,
 } from '@/types/models';
+import { getIncomeTax } from './tax';
+import { getAvailableAmount, getTaxReserve } from './taxReserve';
 
 /**
  * Конвертировать доход в месячный эквивалент
@@ -16,6 +31,8 @@ export function convertToMonthly(amount: number, frequency: IncomeFrequency): nu
       return amount;
     case 'weekly':
       return amount * 52 / 12; // 52 недели в году / 12 месяцев
+    case 'biweekly':
+      return amount * 26 / 12; // 26 выплат в году / 12 месяцев
     case 'yearly':
       return amount / 12;
     case 'one_time':
@@ -25,6 +42,151 @@ export function convertToMonthly(amount: number, frequency: IncomeFrequency): nu
   }
 }
 
+/**
+ * Номер дня (от эпохи) для календарной даты, без учёта часового пояса
+ */
+function toDayNumber(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / 86400000;
+}
+
+/**
+ * Сколько выплат с периодом periodDays приходится на месяц
+ * anchorDate — дата любой из выплат
+ */
+export function countPaydaysInMonth(anchorDate: Date, periodDays: number, year: number, month: number): number {
+  const anchor = toDayNumber(anchorDate.getFullYear(), anchorDate.getMonth() + 1, anchorDate.getDate());
+  const first = toDayNumber(year, month, 1);
+  const daysInMonth = new Date(year, month, 0).getDate();
+
+  // Смещение первой выплаты от начала месяца
+  const offset = (((anchor - first) % periodDays) + periodDays) % periodDays;
+  if (offset >= daysInMonth) return 0;
+  return Math.floor((daysInMonth - 1 - offset) / periodDays) + 1;
+}
+
+/**
+ * Сравнить два месяца: отрицательное число, если a раньше b
+ */
+export function compareMonths(
+  a: { year: number; month: number },
+  b: { year: number; month: number }
+): number {
+  return (a.year - b.year) * 12 + (a.month - b.month);
+}
+
+/**
+ * Сумма источника за период, действующая в указанном месяце
+ * Месяцы до первого изменения берут самую раннюю известную сумму
+ */
+export function getEffectiveAmount(
+  source: Pick<IncomeSource, 'amount' | 'amountHistory'>,
+  year: number,
+  month: number
+): number {
+  const history = source.amountHistory;
+  if (!history || history.length === 0) return source.amount;
+
+  let amount = history[0].amount;
+  for (const change of history) {
+    if (compareMonths(change, { year, month }) > 0) break;
+    amount = change.amount;
+  }
+  return amount;
+}
+
+/**
+ * Добавить изменение суммы (или заменить изменение с того же месяца)
+ * Результат отсортирован по дате
+ */
+export function upsertAmountChange(
+  history: IncomeAmountChange[],
+  change: IncomeAmountChange
+): IncomeAmountChange[] {
+  return [...history.filter(c => compareMonths(c, change) !== 0), change].sort(compareMonths);
+}
+
+/**
+ * Месяц, в который попадает дата
+ */
+function toMonth(date: Date): { year: number; month: number } {
+  const value = new Date(date);
+  return { year: value.getFullYear(), month: value.getMonth() + 1 };
+}
+
+/**
+ * Попадает ли месяц в период действия источника (между startDate и endDate включительно)
+ */
+export function isSourceInRange(
+  source: Pick<IncomeSource, 'startDate' | 'endDate'>,
+  year: number,
+  month: number
+): boolean {
+  if (source.startDate && compareMonths({ year, month }, toMonth(source.startDate)) < 0) return false;
+  if (source.endDate && compareMonths({ year, month }, toMonth(source.endDate)) > 0) return false;
+  return true;
+}
+
+/**
+ * Пауза источника, которая приходится на месяц (если есть)
+ */
+export function getSourcePause(
+  source: Pick<IncomeSource, 'pauses'>,
+  year: number,
+  month: number
+): IncomePause | undefined {
+  return source.pauses?.find(
+    pause =>
+      compareMonths({ year, month }, toMonth(pause.startDate)) >= 0 &&
+      compareMonths({ year, month }, toMonth(pause.endDate)) <= 0
+  );
+}
+
+/**
+ * Рассчитать сумму источника дохода, приходящуюся на конкретный месяц
+ * Возвращает 0, если в этом месяце выплат нет или месяц вне периода действия источника
+ * Паузы здесь не учитываются: месяц паузы существует, но выключен
+ */
+export function calculateSourceAmountForMonth(
+  source: Pick<
+    IncomeSource,
+    | 'amount'
+    | 'amountHistory'
+    | 'frequency'
+    | 'anchorDate'
+    | 'payoutMonth'
+    | 'spreadYearly'
+    | 'payoutDate'
+    | 'startDate'
+    | 'endDate'
+    | 'createdAt'
+  >,
+  year: number,
+  month: number
+): number {
+  if (!isSourceInRange(source, year, month)) return 0;
+
+  const anchorDate = new Date(source.anchorDate ?? source.createdAt);
+  const amount = getEffectiveAmount(source, year, month);
+
+  switch (source.frequency) {
+    case 'monthly':
+      return amount;
+    case 'weekly':
+      return amount * countPaydaysInMonth(anchorDate, 7, year, month);
+    case 'biweekly':
+      return amount * countPaydaysInMonth(anchorDate, 14, year, month);
+    case 'yearly':
+      if (source.spreadYearly) return amount / 12;
+      return month === (source.payoutMonth ?? anchorDate.getMonth() + 1) ? amount : 0;
+    case 'one_time': {
+      const payoutDate = new Date(source.payoutDate ?? source.createdAt);
+      return payoutDate.getFullYear() === year && payoutDate.getMonth() + 1 === month ? amount : 0;
+    }
+    default:
+      return 0;
+  }
+}
+
 /**
  * Конвертировать доход в годовой эквивалент
  */
@@ -97,19 +259,249 @@ export function calculateYearlySavings(
   return calculateMonthlySavings(monthlyIncome, savingsPercentage) * 12;
 }
 
+/**
+ * Прогноз без доходности (простое накопление)
+ */
+export const NO_GROWTH: ProjectionOptions = {
+  annualReturnRate: 0,
+  inflationRate: 0,
+  realTerms: false,
+};
+
+/**
+ * Собрать параметры роста из настроек
+ * Доходность балансов задаётся самими балансами (см. calculateSavingsBalances)
+ */
+export function getProjectionOptions(settings: AppSettings, incomeSchedule?: number[]): ProjectionOptions {
+  return {
+    annualReturnRate: settings.expectedReturnRate ?? 0,
+    inflationRate: settings.inflationRate ?? 0,
+    realTerms: settings.realTerms ?? false,
+    incomeSchedule,
+  };
+}
+
+/**
+ * Сумма балансов без учёта доходности
+ */
+export function sumBalances(balances: SavingsBalance[]): number {
+  return balances.reduce((sum, balance) => sum + balance.amount, 0);
+}
+
+/**
+ * Горизонт графика дохода для прогнозов — самый длинный прогноз (10 лет)
+ */
+export const INCOME_SCHEDULE_MONTHS = 10 * 12;
+
+/**
+ * Ожидаемый доход для накоплений (на руки за вычетом налогового резерва) по месяцам начиная с текущего
+ * Текущий месяц берётся из его реальных месячных доходов (с выключенными месяцами и правками),
+ * будущие — из источников с учётом дат начала, окончания и пауз; разовый источник попадает в месяц выплаты
+ */
+export function calculateIncomeSchedule(
+  sources: IncomeSource[],
+  currentMonthIncomes: MonthlyIncome[],
+  year: number,
+  month: number,
+  months: number,
+  taxRates: TaxRates = {},
+  reserveRates: TaxReserveRates = {}
+): number[] {
+  const currentMonthIncome = currentMonthIncomes
+    .filter(income => income.isActive)
+    .reduce((sum, income) => sum + getAvailableAmount(income, taxRates, reserveRates), 0);
+  const activeSources = sources.filter(source => source.isActive);
+
+  return Array.from({ length: months }, (_, offset) => {
+    if (offset === 0) return currentMonthIncome;
+
+    const date = new Date(year, month - 1 + offset, 1);
+    const y = date.getFullYear();
+    const m = date.getMonth() + 1;
+
+    return activeSources.reduce((sum, source) => {
+      if (getSourcePause(source, y, m)) return sum;
+      const amount = calculateSourceAmountForMonth(source, y, m);
+      return amount ? sum + getAvailableAmount({ ...source, amount }, taxRates, reserveRates) : sum;
+    }, 0);
+  });
+}
+
+/**
+ * Перевести годовую ставку (%) в эквивалентную месячную (доля)
+ */
+export function toMonthlyRate(annualRatePercent: number): number {
+  return Math.pow(1 + annualRatePercent / 100, 1 / 12) - 1;
+}
+
+/**
+ * Будущая стоимость суммы через N месяцев при ежемесячной капитализации
+ */
+export function calculateFutureValue(amount: number, annualRatePercent: number, months: number): number {
+  return amount * Math.pow(1 + toMonthlyRate(annualRatePercent), months);
+}
+
+/**
+ * Будущая стоимость ежемесячных взносов (взнос в конце каждого месяца)
+ */
+export function calculateFutureValueOfContributions(
+  monthlyContribution: number,
+  annualRatePercent: number,
+  months: number
+): number {
+  const rate = toMonthlyRate(annualRatePercent);
+  if (rate === 0) return monthlyContribution * months;
+  return monthlyContribution * ((Math.pow(1 + rate, months) - 1) / rate);
+}
+
+/**
+ * Перевести будущую сумму через N месяцев в сегодняшние деньги
+ */
+export function toRealValue(amount: number, inflationRate: number, months: number): number {
+  return amount / Math.pow(1 + inflationRate / 100, months / 12);
+}
+
+/**
+ * Итоги ежемесячных взносов за N месяцев (взнос в конце месяца)
+ * futureValue — с доходностью, nominal — простая сумма,
+ * real — в сегодняшних деньгах (каждый взнос обесценивается со своего месяца)
+ */
+function sumContributions(
+  monthlyIncome: number,
+  savingsPercentage: number,
+  months: number,
+  options: ProjectionOptions
+): { futureValue: number; nominal: number; real: number } {
+  const schedule = options.incomeSchedule;
+
+  if (!schedule || schedule.length === 0) {
+    const monthlySavings = calculateMonthlySavings(monthlyIncome, savingsPercentage);
+    return {
+      futureValue: calculateFutureValueOfContributions(monthlySavings, options.annualReturnRate, months),
+      nominal: monthlySavings * months,
+      real: toRealValue(
+        calculateFutureValueOfContributions(monthlySavings, options.inflationRate, months),
+        options.inflationRate,
+        months
+      ),
+    };
+  }
+
+  // После конца графика доход считается равным последнему месяцу графика
+  const returnRate = toMonthlyRate(options.annualReturnRate);
+  const inflationRate = toMonthlyRate(options.inflationRate);
+  const result = { futureValue: 0, nominal: 0, real: 0 };
+  for (let k = 0; k < months; k++) {
+    const contribution = calculateMonthlySavings(
+      schedule[Math.min(k, schedule.length - 1)],
+      savingsPercentage
+    );
+    result.futureValue += contribution * Math.pow(1 + returnRate, months - 1 - k);
+    result.nominal += contribution;
+    result.real += contribution / Math.pow(1 + inflationRate, k + 1);
+  }
+  return result;
+}
+
+/**
+ * Рассчитать прогноз накоплений на N лет с разделением на вложенное и доход
+ * При options.realTerms все суммы переводятся в сегодняшние деньги
+ */
+export function calculateSavingsProjectionBreakdown(
+  balances: SavingsBalance[],
+  monthlyIncome: number,
+  savingsPercentage: number,
+  years: number,
+  options: ProjectionOptions = NO_GROWTH
+): ProjectionBreakdown {
+  const months = years * 12;
+  const contributions = sumContributions(monthlyIncome, savingsPercentage, months, options);
+
+  // Каждый счёт растёт по своей ставке
+  const total =
+    balances.reduce((sum, balance) => sum + calculateFutureValue(balance.amount, balance.annualReturnRate, months), 0) +
+    contributions.futureValue;
+  const contributed = sumBalances(balances) + contributions.nominal;
+
+  if (options.realTerms) {
+    const realTotal = toRealValue(total, options.inflationRate, months);
+    const realContributed = sumBalances(balances) + contributions.real;
+
+    return {
+      total: realTotal,
+      contributed: realContributed,
+      growth: realTotal - realContributed,
+    };
+  }
+
+  return {
+    total,
+    contributed,
+    growth: total - contributed,
+  };
+}
+
 /**
  * Рассчитать прогноз накоплений на N лет
  */
 export function calculateSavingsProjection(
-  currentSavings: number,
-  alreadySaved: number,
+  balances: SavingsBalance[],
   monthlyIncome: number,
   savingsPercentage: number,
-  years: number
+  years: number,
+  options: ProjectionOptions = NO_GROWTH
 ): number {
-  const yearlySavings = calculateYearlySavings(monthlyIncome, savingsPercentage);
-  const totalSaved = yearlySavings * years;
-  return currentSavings + alreadySaved + totalSaved;
+  return calculateSavingsProjectionBreakdown(
+    balances,
+    monthlyIncome,
+    savingsPercentage,
+    years,
+    options
+  ).total;
+}
+
+/**
+ * Рассчитать прогноз по годам (для графика роста)
+ */
+export function calculateProjectionSeries(
+  balances: SavingsBalance[],
+  monthlyIncome: number,
+  savingsPercentage: number,
+  years: number,
+  options: ProjectionOptions = NO_GROWTH
+): (ProjectionBreakdown & { year: number })[] {
+  return Array.from({ length: years + 1 }, (_, year) => ({
+    year,
+    ...calculateSavingsProjectionBreakdown(
+      balances,
+      monthlyIncome,
+      savingsPercentage,
+      year,
+      options
+    ),
+  }));
+}
+
+/**
+ * Кэш помесячных сумм по ссылке на массив записей месяца
+ * loadYearData сохраняет массив месяца, пока его записи не меняются, поэтому после правки
+ * годовые суммы пересчитываются только для изменённого месяца
+ */
+const monthTotalsCache = new WeakMap<object[], Map<string, number>>();
+
+function getMonthTotal<T extends object>(rows: T[], key: string, compute: (rows: T[]) => number): number {
+  let totals = monthTotalsCache.get(rows);
+  if (!totals) {
+    totals = new Map();
+    monthTotalsCache.set(rows, totals);
+  }
+
+  let total = totals.get(key);
+  if (total === undefined) {
+    total = compute(rows);
+    totals.set(key, total);
+  }
+  return total;
 }
 
 /**
@@ -128,11 +520,54 @@ export function calculateYearlyIncomeFromData(yearData: Map<number, MonthlyIncom
   let total = 0;
   for (let month = 1; month <= 12; month++) {
     const monthIncomes = yearData.get(month) || [];
-    total += calculateMonthlyIncomeFromData(monthIncomes);
+    total += getMonthTotal(monthIncomes, 'income', calculateMonthlyIncomeFromData);
+  }
+  return total;
+}
+
+/**
+ * Рассчитать налог с доходов месяца по эффективным ставкам
+ */
+export function calculateMonthlyTaxFromData(monthlyIncomes: MonthlyIncome[], taxRates: TaxRates): number {
+  return monthlyIncomes
+    .filter(income => income.isActive)
+    .reduce((total, income) => total + getIncomeTax(income, taxRates), 0);
+}
+
+/**
+ * Рассчитать налог за год по эффективным ставкам
+ */
+export function calculateYearlyTaxFromData(yearData: Map<number, MonthlyIncome[]>, taxRates: TaxRates): number {
+  const key = `tax:${JSON.stringify(taxRates)}`;
+  let total = 0;
+  for (let month = 1; month <= 12; month++) {
+    total += getMonthTotal(yearData.get(month) || [], key, (rows) => calculateMonthlyTaxFromData(rows, taxRates));
   }
   return total;
 }
 
+/**
+ * Рассчитать налоговый резерв месяца
+ */
+export function calculateMonthlyTaxReserveFromData(monthlyIncomes: MonthlyIncome[], reserveRates: TaxReserveRates): number {
+  return monthlyIncomes
+    .filter(income => income.isActive)
+    .reduce((total, income) => total + getTaxReserve(income, reserveRates), 0);
+}
+
+/**
+ * Рассчитать доход месяца, доступный для накоплений и целей
+ */
+export function calculateAvailableIncomeFromData(
+  monthlyIncomes: MonthlyIncome[],
+  taxRates: TaxRates,
+  reserveRates: TaxReserveRates
+): number {
+  return monthlyIncomes
+    .filter(income => income.isActive)
+    .reduce((total, income) => total + getAvailableAmount(income, taxRates, reserveRates), 0);
+}
+
 /**
  * Рассчитать разбивку дохода по типам из MonthlyIncome
  */
@@ -159,44 +594,164 @@ export function calculateIncomeBreakdownFromData(monthlyIncomes: MonthlyIncome[]
   }));
 }
 
+/**
+ * Рассчитать разбивку дохода по членам семьи из MonthlyIncome
+ * Без членов семьи разбивка пустая; доход без члена семьи выделяется отдельной строкой
+ */
+export function calculateMemberBreakdownFromData(
+  monthlyIncomes: MonthlyIncome[],
+  members: HouseholdMember[]
+): CalculationResults['memberBreakdown'] {
+  if (members.length === 0) return [];
+
+  const activeIncomes = monthlyIncomes.filter(i => i.isActive);
+  const total = calculateMonthlyIncomeFromData(activeIncomes);
+
+  // Группируем по членам семьи; доход удалённого члена семьи считается общим
+  const memberIds = new Set(members.map(member => member.id));
+  const breakdown = new Map<string | null, number>();
+  activeIncomes.forEach(income => {
+    const memberId = income.memberId && memberIds.has(income.memberId) ? income.memberId : null;
+    breakdown.set(memberId, (breakdown.get(memberId) || 0) + income.amount);
+  });
+
+  return Array.from(breakdown.entries())
+    .map(([memberId, amount]) => {
+      const member = members.find(m => m.id === memberId);
+      return {
+        memberId,
+        name: member?.name || 'Shared',
+        color: member?.color || '#9ca3af',
+        amount,
+        percentage: total > 0 ? (amount / total) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Рассчитать сумму расходов за месяц из MonthlyExpense данных
+ */
+export function calculateMonthlyExpensesFromData(monthlyExpenses: MonthlyExpense[]): number {
+  return monthlyExpenses
+    .filter(expense => expense.isActive)
+    .reduce((total, expense) => total + expense.amount, 0);
+}
+
+/**
+ * Рассчитать годовые расходы из MonthlyExpense данных
+ */
+export function calculateYearlyExpensesFromData(yearData: Map<number, MonthlyExpense[]>): number {
+  let total = 0;
+  for (let month = 1; month <= 12; month++) {
+    total += getMonthTotal(yearData.get(month) || [], 'expenses', calculateMonthlyExpensesFromData);
+  }
+  return total;
+}
+
+/**
+ * Рассчитать разбивку расходов по категориям
+ */
+export function calculateExpenseBreakdown(
+  monthlyExpenses: MonthlyExpense[],
+  categories: ExpenseCategory[]
+): CalculationResults['expenseBreakdown'] {
+  const activeExpenses = monthlyExpenses.filter(e => e.isActive);
+  const total = calculateMonthlyExpensesFromData(activeExpenses);
+
+  // Группируем по категориям
+  const breakdown = new Map<string, number>();
+  activeExpenses.forEach(expense => {
+    const current = breakdown.get(expense.categoryId) || 0;
+    breakdown.set(expense.categoryId, current + expense.amount);
+  });
+
+  return Array.from(breakdown.entries())
+    .map(([categoryId, amount]) => {
+      const category = categories.find(c => c.id === categoryId);
+      return {
+        categoryId,
+        name: category?.name || 'Uncategorized',
+        color: category?.color || '#9ca3af',
+        amount,
+        percentage: total > 0 ? (amount / total) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.amount - a.amount);
+}
+
 /**
  * Рассчитать все результаты НА ОСНОВЕ МЕСЯЧНЫХ ДАННЫХ
  */
 export function calculateResultsFromMonthlyData(
   currentMonthIncomes: MonthlyIncome[], // Доходы текущего месяца
   yearData: Map<number, MonthlyIncome[]>, // Все доходы за год
-  currentSavings: number,
-  alreadySaved: number,
-  savingsPercentage: number
+  balances: SavingsBalance[],
+  savingsPercentage: number,
+  currentMonthExpenses: MonthlyExpense[] = [], // Расходы текущего месяца
+  yearExpenses: Map<number, MonthlyExpense[]> = new Map(), // Все расходы за год
+  expenseCategories: ExpenseCategory[] = [],
+  projectionOptions: ProjectionOptions = NO_GROWTH,
+  taxRates: TaxRates = {}, // Эффективные ставки налогового профиля (см. calculateTax)
+  reserveRates: TaxReserveRates = {},
+  members: HouseholdMember[] = [] // Члены семьи для разбивки дохода по ним
 ): CalculationResults {
-  const monthlyIncome = calculateMonthlyIncomeFromData(currentMonthIncomes);
-  const yearlyIncome = calculateYearlyIncomeFromData(yearData);
-  const monthlySavings = calculateMonthlySavings(monthlyIncome, savingsPercentage);
-  const yearlySavings = calculateYearlySavings(monthlyIncome, savingsPercentage);
+  // Денежный поток считается от дохода на руки, накопления и прогнозы — от него же за вычетом налогового резерва
+  const monthlyGrossIncome = calculateMonthlyIncomeFromData(currentMonthIncomes);
+  const monthlyTax = calculateMonthlyTaxFromData(currentMonthIncomes, taxRates);
+  const monthlyIncome = monthlyGrossIncome - monthlyTax;
+  const yearlyGrossIncome = calculateYearlyIncomeFromData(yearData);
+  const yearlyTax = calculateYearlyTaxFromData(yearData, taxRates);
+  const yearlyIncome = yearlyGrossIncome - yearlyTax;
+  const monthlyAvailableIncome = calculateAvailableIncomeFromData(currentMonthIncomes, taxRates, reserveRates);
+  const monthlySavings = calculateMonthlySavings(monthlyAvailableIncome, savingsPercentage);
+  const yearlySavings = calculateYearlySavings(monthlyAvailableIncome, savingsPercentage);
 
   // Прогнозы на 1, 3, 5, 10 лет
   const projectionYears = [1, 3, 5, 10];
-  const projections = projectionYears.map(years => ({
-    years,
-    total: calculateSavingsProjection(
-      currentSavings,
-      alreadySaved,
-      monthlyIncome,
+  const projections = projectionYears.map(years => {
+    const breakdown = calculateSavingsProjectionBreakdown(
+      balances,
+      monthlyAvailableIncome,
       savingsPercentage,
-      years
-    ),
-    saved: yearlySavings * years,
-  }));
+      years,
+      projectionOptions
+    );
+    return {
+      years,
+      total: breakdown.total,
+      saved: yearlySavings * years,
+      contributed: breakdown.contributed,
+      growth: breakdown.growth,
+    };
+  });
 
   const incomeBreakdown = calculateIncomeBreakdownFromData(currentMonthIncomes);
+  const memberBreakdown = calculateMemberBreakdownFromData(currentMonthIncomes, members);
+
+  const monthlyExpenses = calculateMonthlyExpensesFromData(currentMonthExpenses);
+  const yearlyExpenses = calculateYearlyExpensesFromData(yearExpenses);
 
   return {
+    monthlyGrossIncome,
+    monthlyTax,
     monthlyIncome,
+    yearlyGrossIncome,
+    yearlyTax,
     yearlyIncome,
+    taxRates,
+    monthlyTaxReserve: calculateMonthlyTaxReserveFromData(currentMonthIncomes, reserveRates),
+    monthlyAvailableIncome,
     monthlySavings,
     yearlySavings,
     projections,
     incomeBreakdown,
+    memberBreakdown,
+    monthlyExpenses,
+    yearlyExpenses,
+    netCashFlow: monthlyIncome - monthlyExpenses,
+    yearlyNetCashFlow: yearlyIncome - yearlyExpenses,
+    expenseBreakdown: calculateExpenseBreakdown(currentMonthExpenses, expenseCategories),
   };
 }
 
@@ -205,9 +760,9 @@ export function calculateResultsFromMonthlyData(
  */
 export function calculateResults(
   sources: IncomeSource[],
-  currentSavings: number,
-  alreadySaved: number,
-  savingsPercentage: number
+  balances: SavingsBalance[],
+  savingsPercentage: number,
+  projectionOptions: ProjectionOptions = NO_GROWTH
 ): CalculationResults {
   const monthlyIncome = calculateMonthlyIncome(sources);
   const yearlyIncome = calculateYearlyIncome(sources);
@@ -216,27 +771,45 @@ export function calculateResults(
 
   // Прогнозы на 1, 3, 5, 10 лет
   const projectionYears = [1, 3, 5, 10];
-  const projections = projectionYears.map(years => ({
-    years,
-    total: calculateSavingsProjection(
-      currentSavings,
-      alreadySaved,
+  const projections = projectionYears.map(years => {
+    const breakdown = calculateSavingsProjectionBreakdown(
+      balances,
       monthlyIncome,
       savingsPercentage,
-      years
-    ),
-    saved: yearlySavings * years,
-  }));
+      years,
+      projectionOptions
+    );
+    return {
+      years,
+      total: breakdown.total,
+      saved: yearlySavings * years,
+      contributed: breakdown.contributed,
+      growth: breakdown.growth,
+    };
+  });
 
   const incomeBreakdown = calculateIncomeBreakdown(sources);
 
   return {
+    monthlyGrossIncome: monthlyIncome,
+    monthlyTax: 0,
     monthlyIncome,
+    yearlyGrossIncome: yearlyIncome,
+    yearlyTax: 0,
     yearlyIncome,
+    taxRates: {},
+    monthlyTaxReserve: 0,
+    monthlyAvailableIncome: monthlyIncome,
     monthlySavings,
     yearlySavings,
     projections,
     incomeBreakdown,
+    memberBreakdown: [],
+    monthlyExpenses: 0,
+    yearlyExpenses: 0,
+    netCashFlow: monthlyIncome,
+    yearlyNetCashFlow: yearlyIncome,
+    expenseBreakdown: [],
   };
 }
 
@@ -246,29 +819,33 @@ export function calculateResults(
 export function createWhatIfScenario(
   monthlyIncome: number,
   savingsPercentage: number,
-  currentSavings: number,
-  alreadySaved: number
+  balances: SavingsBalance[],
+  options: ProjectionOptions = NO_GROWTH
 ): WhatIfScenario {
   const monthlySavings = calculateMonthlySavings(monthlyIncome, savingsPercentage);
+  const projection5 = calculateSavingsProjectionBreakdown(
+    balances,
+    monthlyIncome,
+    savingsPercentage,
+    5,
+    options
+  );
+  const projection10 = calculateSavingsProjectionBreakdown(
+    balances,
+    monthlyIncome,
+    savingsPercentage,
+    10,
+    options
+  );
 
   return {
     savingsPercentage,
     monthlyIncome,
     monthlySavings,
-    projection5Years: calculateSavingsProjection(
-      currentSavings,
-      alreadySaved,
-      monthlyIncome,
-      savingsPercentage,
-      5
-    ),
-    projection10Years: calculateSavingsProjection(
-      currentSavings,
-      alreadySaved,
-      monthlyIncome,
-      savingsPercentage,
-      10
-    ),
+    projection5Years: projection5.total,
+    projection10Years: projection10.total,
+    growth5Years: projection5.growth,
+    growth10Years: projection10.growth,
   };
 }
 
@@ -277,12 +854,12 @@ export function createWhatIfScenario(
  */
 export function createWhatIfScenarios(
   monthlyIncome: number,
-  currentSavings: number,
-  alreadySaved: number,
+  balances: SavingsBalance[],
+  options: ProjectionOptions = NO_GROWTH,
   percentages: number[] = [10, 15, 20, 30, 40, 50]
 ): WhatIfScenario[] {
   return percentages.map(percentage =>
-    createWhatIfScenario(monthlyIncome, percentage, currentSavings, alreadySaved)
+    createWhatIfScenario(monthlyIncome, percentage, balances, options)
   );
 }
 
@@ -321,8 +898,75 @@ export function calculateMonthsToGoal(
   targetAmount: number,
   monthlySavings: number
 ): number {
-  if (monthlySavings === 0) return Infinity;
   const remaining = targetAmount - currentAmount;
   if (remaining <= 0) return 0;
+  if (monthlySavings <= 0) return Infinity;
   return Math.ceil(remaining / monthlySavings);
 }
+
+/**
+ * Средний чистый взнос в цель за месяц (взносы минус снятия)
+ * Считается за последние windowMonths месяцев, но не раньше первого взноса;
+ * начальная сумма цели в темп не входит
+ */
+export function calculateContributionPace(
+  contributions: GoalContribution[],
+  from: Date = new Date(),
+  windowMonths: number = 12
+): number {
+  const regular = contributions.filter(contribution => !contribution.isOpeningBalance);
+  if (regular.length === 0) return 0;
+
+  const current = toMonth(from);
+  const first = regular
+    .map(contribution => toMonth(contribution.date))
+    .reduce((earliest, month) => (compareMonths(month, earliest) < 0 ? month : earliest));
+  const windowStart = toMonth(new Date(from.getFullYear(), from.getMonth() - windowMonths + 1, 1));
+  const start = compareMonths(first, windowStart) > 0 ? first : windowStart;
+
+  const months = compareMonths(current, start) + 1;
+  if (months <= 0) return 0;
+
+  const total = regular
+    .filter(contribution => {
+      const month = toMonth(contribution.date);
+      return compareMonths(month, start) >= 0 && compareMonths(month, current) <= 0;
+    })
+    .reduce((sum, contribution) => sum + contribution.amount, 0);
+
+  return total / months;
+}
+
+/**
+ * Баланс цели после каждого взноса (для графика истории)
+ */
+export function calculateGoalBalanceSeries(
+  contributions: GoalContribution[]
+): { date: Date; amount: number; balance: number }[] {
+  let balance = 0;
+  return [...contributions]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(contribution => {
+      balance += contribution.amount;
+      return { date: new Date(contribution.date), amount: contribution.amount, balance };
+    });
+}
+
+/**
+ * Целевая сумма цели, пересчитанная по инфляции к дедлайну
+ * Без дедлайна или без флага inflateTarget возвращается исходная сумма
+ */
+export function calculateGoalTargetAmount(
+  goal: Pick<Goal, 'targetAmount' | 'deadline' | 'inflateTarget'>,
+  inflationRate: number,
+  from: Date = new Date()
+): number {
+  if (!goal.inflateTarget || !goal.deadline) return goal.targetAmount;
+
+  const deadline = new Date(goal.deadline);
+  const months = Math.max(
+    0,
+    (deadline.getFullYear() - from.getFullYear()) * 12 + (deadline.getMonth() - from.getMonth())
+  );
+  return goal.targetAmount * Math.pow(1 + inflationRate / 100, months / 12);
+}
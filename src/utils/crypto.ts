@@ -0,0 +1,86 @@
+import { gcm } from '@noble/ciphers/aes.js';
+import type { EncryptedPayload } from '@/types/models';
+
+/**
+ * Число итераций PBKDF2 при получении ключа из пароля
+ */
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // Рекомендуемая длина вектора инициализации для AES-GCM
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Частями, чтобы не упереться в ограничение числа аргументов
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Случайная соль для получения ключа
+ */
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/**
+ * Получить 256-битный ключ AES-GCM из пароля (PBKDF2-SHA-256)
+ * Ключ хранится только в памяти вкладки
+ */
+export async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Зашифровать строку; для каждого вызова новый вектор инициализации
+ * Шифрование синхронное, поэтому может выполняться внутри транзакции IndexedDB, не давая ей завершиться раньше времени
+ */
+export function encryptText(key: Uint8Array, text: string): EncryptedPayload {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = gcm(key, iv).encrypt(new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+/**
+ * Расшифровать строку
+ * Неверный ключ или изменённые данные не проходят проверку подлинности и дают ошибку
+ */
+export function decryptText(key: Uint8Array, payload: EncryptedPayload): string {
+  const data = gcm(key, fromBase64(payload.iv)).decrypt(fromBase64(payload.data));
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * Похоже ли значение на зашифрованные данные
+ */
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as EncryptedPayload).iv === 'string' &&
+    typeof (value as EncryptedPayload).data === 'string'
+  );
+}
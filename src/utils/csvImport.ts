@@ -0,0 +1,203 @@
+import { parse, isValid } from 'date-fns';
+import type { CsvImportOptions, CsvImportRow, ImportRule } from '@/types/models';
+import { IncomeType } from '@/types/models';
+
+/**
+ * Ключевые слова для угадывания типа дохода, если ни одно правило не подошло
+ */
+const TYPE_KEYWORDS: { type: IncomeType; keywords: string[] }[] = [
+  { type: IncomeType.SALARY, keywords: ['salary', 'payroll', 'wage', 'зарплат', 'заработн', 'аванс'] },
+  { type: IncomeType.FREELANCE, keywords: ['invoice', 'upwork', 'fiverr', 'freelance', 'фриланс'] },
+  { type: IncomeType.INVESTMENT, keywords: ['dividend', 'coupon', 'broker', 'дивиденд', 'купон'] },
+  { type: IncomeType.PASSIVE, keywords: ['interest', 'cashback', 'rent', 'процент', 'кэшбэк', 'аренд'] },
+];
+
+/**
+ * Разобрать CSV-текст в массив строк с ячейками
+ * Поддерживает кавычки и экранирование двойной кавычкой
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Пустые строки не нужны
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Угадать разделитель колонок по первой строке файла
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  const candidates = [';', ',', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Разобрать сумму с учётом разделителей дробной части и разрядов
+ */
+export function parseAmount(
+  value: string,
+  decimalSeparator: CsvImportOptions['decimalSeparator'],
+  thousandsSeparator: CsvImportOptions['thousandsSeparator']
+): number {
+  // Пробелы (в т.ч. неразрывные) внутри числа смысла не несут
+  let cleaned = value.replace(/[\s\u00a0]/g, '');
+
+  if (thousandsSeparator && thousandsSeparator !== ' ') {
+    cleaned = cleaned.split(thousandsSeparator).join('');
+  }
+  if (decimalSeparator === ',') {
+    cleaned = cleaned.replace(',', '.');
+  }
+
+  // Убираем символы валют и прочий мусор, оставляем знак
+  cleaned = cleaned.replace(/[^0-9.\-+]/g, '');
+  const amount = Number(cleaned);
+
+  return cleaned === '' || isNaN(amount) ? NaN : amount;
+}
+
+/**
+ * Разобрать дату в заданном формате
+ */
+export function parseDate(value: string, format: CsvImportOptions['dateFormat']): Date | null {
+  // Банки часто добавляют время после даты
+  const datePart = value.trim().split(/[\sT]/)[0];
+  const date = parse(datePart, format, new Date());
+  return isValid(date) ? date : null;
+}
+
+/**
+ * Нормализовать описание операции для сравнения
+ */
+export function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Угадать тип дохода по описанию операции
+ * Сначала применяются сохранённые правила пользователя (самые длинные — первыми)
+ */
+export function guessIncomeType(description: string, rules: ImportRule[]): IncomeType {
+  const normalized = normalizeDescription(description);
+
+  const rule = [...rules]
+    .sort((a, b) => b.pattern.length - a.pattern.length)
+    .find(r => normalized.includes(normalizeDescription(r.pattern)));
+  if (rule) return rule.type;
+
+  const match = TYPE_KEYWORDS.find(({ keywords }) => keywords.some(k => normalized.includes(k)));
+  return match ? match.type : IncomeType.OTHER;
+}
+
+/**
+ * Предложить шаблон правила по описанию операции
+ * Отбрасывает номера, даты и суммы, которые меняются от выписки к выписке
+ */
+export function suggestRulePattern(description: string): string {
+  return normalizeDescription(description.replace(/[0-9]+([./\-:][0-9]+)*/g, ' '));
+}
+
+/**
+ * Отпечаток операции для поиска повторно импортируемых строк
+ */
+export function buildFingerprint(date: Date, amount: number, description: string, occurrence: number): string {
+  const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  return `${day}|${amount.toFixed(2)}|${normalizeDescription(description)}#${occurrence}`;
+}
+
+/**
+ * Подготовить строки выписки к импорту
+ * Одинаковые операции в одном файле различаются порядковым номером в отпечатке
+ */
+export function prepareImportRows(
+  rows: string[][],
+  options: CsvImportOptions,
+  rules: ImportRule[],
+  existingFingerprints: Set<string>
+): CsvImportRow[] {
+  const dataRows = options.hasHeader ? rows.slice(1) : rows;
+  const firstLine = options.hasHeader ? 2 : 1;
+  const occurrences = new Map<string, number>();
+
+  return dataRows.map((cells, index): CsvImportRow => {
+    const line = firstLine + index;
+    const description = (cells[options.descriptionColumn] || '').trim();
+    const date = parseDate(cells[options.dateColumn] || '', options.dateFormat);
+    const amount = parseAmount(
+      cells[options.amountColumn] || '',
+      options.decimalSeparator,
+      options.thousandsSeparator
+    );
+
+    const base = {
+      line,
+      date,
+      year: date ? date.getFullYear() : 0,
+      month: date ? date.getMonth() + 1 : 0,
+      amount: isNaN(amount) ? 0 : amount,
+      description,
+      type: guessIncomeType(description, rules),
+      fingerprint: '',
+    };
+
+    if (!date) {
+      return { ...base, status: 'invalid', error: 'Invalid date' };
+    }
+    if (isNaN(amount)) {
+      return { ...base, status: 'invalid', error: 'Invalid amount' };
+    }
+    if (amount <= 0) {
+      return { ...base, status: 'expense' };
+    }
+
+    const key = buildFingerprint(date, amount, description, 0);
+    const occurrence = occurrences.get(key) || 0;
+    occurrences.set(key, occurrence + 1);
+    const fingerprint = buildFingerprint(date, amount, description, occurrence);
+
+    return {
+      ...base,
+      fingerprint,
+      status: existingFingerprints.has(fingerprint) ? 'duplicate' : 'new',
+    };
+  });
+}
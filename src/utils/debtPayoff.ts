@@ -0,0 +1,108 @@
+import type { Debt, DebtPayoffMonth, DebtPayoffPlan, DebtPayoffStrategy } from '@/types/models';
+
+/**
+ * Горизонт моделирования погашения (50 лет)
+ */
+export const DEBT_PAYOFF_MAX_MONTHS = 600;
+
+/**
+ * Остаток меньше этой суммы считается погашенным (ошибки округления)
+ */
+const PAID_OFF_EPSILON = 0.005;
+
+/**
+ * Порядок досрочного погашения по стратегии
+ */
+export function orderDebts(debts: Debt[], strategy: DebtPayoffStrategy): Debt[] {
+  return [...debts].sort((a, b) => {
+    switch (strategy) {
+      case 'avalanche':
+        return b.apr - a.apr || a.balance - b.balance;
+      case 'snowball':
+        return a.balance - b.balance || b.apr - a.apr;
+      case 'custom':
+        return a.customOrder - b.customOrder;
+    }
+  });
+}
+
+/**
+ * Смоделировать погашение долгов
+ * Каждый месяц начисляются проценты, вносятся минимальные платежи, а остаток бюджета
+ * (extraPayment плюс минимальные платежи уже погашенных долгов) идёт на первый по порядку долг
+ */
+export function simulateDebtPayoff(
+  debts: Debt[],
+  extraPayment: number,
+  strategy: DebtPayoffStrategy,
+  maxMonths: number = DEBT_PAYOFF_MAX_MONTHS
+): DebtPayoffPlan {
+  const ordered = orderDebts(debts, strategy);
+  const balances = new Map(ordered.map(debt => [debt.id, Math.max(debt.balance, 0)]));
+  const budget = ordered.reduce((sum, debt) => sum + debt.minimumPayment, 0) + Math.max(extraPayment, 0);
+
+  const months: DebtPayoffMonth[] = [];
+  const debtPayoffMonths: Record<string, number> = {};
+  ordered.filter(debt => balances.get(debt.id)! <= PAID_OFF_EPSILON).forEach(debt => (debtPayoffMonths[debt.id] = 0));
+
+  for (let month = 1; month <= maxMonths && Object.keys(debtPayoffMonths).length < ordered.length; month++) {
+    const open = ordered.filter(debt => debtPayoffMonths[debt.id] === undefined);
+
+    // Проценты за месяц
+    const interest = new Map(open.map(debt => [debt.id, (balances.get(debt.id)! * debt.apr) / 100 / 12]));
+    open.forEach(debt => balances.set(debt.id, balances.get(debt.id)! + interest.get(debt.id)!));
+
+    // Минимальные платежи, затем остаток бюджета по порядку стратегии
+    const paid = new Map<string, number>();
+    let left = budget;
+    for (const debt of open) {
+      const payment = Math.min(debt.minimumPayment, balances.get(debt.id)!, left);
+      paid.set(debt.id, payment);
+      left -= payment;
+    }
+    for (const debt of open) {
+      if (left <= 0) break;
+      const payment = Math.min(left, balances.get(debt.id)! - paid.get(debt.id)!);
+      paid.set(debt.id, paid.get(debt.id)! + payment);
+      left -= payment;
+    }
+
+    const payments = open.map(debt => {
+      const payment = paid.get(debt.id)!;
+      const balance = balances.get(debt.id)! - payment;
+      balances.set(debt.id, balance);
+      if (balance <= PAID_OFF_EPSILON) debtPayoffMonths[debt.id] = month;
+      return {
+        debtId: debt.id,
+        payment,
+        interest: interest.get(debt.id)!,
+        principal: payment - interest.get(debt.id)!,
+        balance: Math.max(balance, 0),
+      };
+    });
+
+    months.push({
+      month,
+      payments,
+      payment: payments.reduce((sum, item) => sum + item.payment, 0),
+      interest: payments.reduce((sum, item) => sum + item.interest, 0),
+      balance: payments.reduce((sum, item) => sum + item.balance, 0),
+    });
+
+    // Платёж не покрывает проценты ни по одному долгу — погашение невозможно
+    if (payments.every(item => item.principal <= 0)) break;
+  }
+
+  ordered.forEach(debt => {
+    if (debtPayoffMonths[debt.id] === undefined) debtPayoffMonths[debt.id] = Infinity;
+  });
+
+  return {
+    strategy,
+    months,
+    monthsToPayoff: Math.max(0, ...Object.values(debtPayoffMonths)),
+    debtPayoffMonths,
+    totalInterest: months.reduce((sum, item) => sum + item.interest, 0),
+    totalPaid: months.reduce((sum, item) => sum + item.payment, 0),
+  };
+}
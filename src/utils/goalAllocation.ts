@@ -0,0 +1,109 @@
+import type { GoalAllocationStrategy } from '@/types/models';
+
+/**
+ * Цель с точки зрения распределения накоплений
+ */
+export interface AllocationGoal {
+  id: string;
+  priority: number;
+  remaining: number; // Сколько ещё не хватает до цели
+  fixedMonthlyAmount?: number;
+}
+
+/**
+ * Горизонт моделирования графика достижения целей (50 лет)
+ */
+export const GOAL_TIMELINE_MAX_MONTHS = 600;
+
+/**
+ * Порядок целей: сначала по приоритету, при равном — по id для стабильности
+ */
+function byPriority(a: AllocationGoal, b: AllocationGoal): number {
+  return a.priority - b.priority || a.id.localeCompare(b.id);
+}
+
+/**
+ * Распределить сумму между целями по стратегии
+ * Цель не получает больше, чем ей осталось; нераспределённый остаток в результат не входит
+ */
+export function allocateSavings(
+  amount: number,
+  goals: AllocationGoal[],
+  strategy: GoalAllocationStrategy
+): Map<string, number> {
+  const allocations = new Map<string, number>();
+  const open = goals.filter(goal => goal.remaining > 0).sort(byPriority);
+  if (amount <= 0 || open.length === 0 || strategy === 'manual') return allocations;
+
+  switch (strategy) {
+    case 'waterfall': {
+      let left = amount;
+      for (const goal of open) {
+        if (left <= 0) break;
+        const share = Math.min(goal.remaining, left);
+        allocations.set(goal.id, share);
+        left -= share;
+      }
+      break;
+    }
+    case 'proportional': {
+      const totalRemaining = open.reduce((sum, goal) => sum + goal.remaining, 0);
+      // Доли по оставшимся суммам никогда не превышают остаток цели, пока amount <= totalRemaining
+      const ratio = Math.min(1, amount / totalRemaining);
+      open.forEach(goal => allocations.set(goal.id, goal.remaining * ratio));
+      break;
+    }
+    case 'fixed': {
+      let left = amount;
+      for (const goal of open) {
+        if (left <= 0) break;
+        const share = Math.min(goal.fixedMonthlyAmount ?? 0, goal.remaining, left);
+        if (share > 0) {
+          allocations.set(goal.id, share);
+          left -= share;
+        }
+      }
+      break;
+    }
+  }
+
+  return allocations;
+}
+
+/**
+ * Смоделировать, через сколько месяцев будет достигнута каждая цель,
+ * если каждый месяц распределять monthlySavings по стратегии
+ * Цели, не достигнутые за горизонт, получают Infinity
+ */
+export function simulateGoalTimeline(
+  goals: AllocationGoal[],
+  monthlySavings: number,
+  strategy: GoalAllocationStrategy,
+  maxMonths: number = GOAL_TIMELINE_MAX_MONTHS
+): Map<string, number> {
+  const completion = new Map<string, number>();
+  const remaining = new Map(goals.map(goal => [goal.id, goal.remaining]));
+
+  goals.filter(goal => goal.remaining <= 0).forEach(goal => completion.set(goal.id, 0));
+
+  for (let month = 1; month <= maxMonths && completion.size < goals.length; month++) {
+    const open = goals
+      .filter(goal => !completion.has(goal.id))
+      .map(goal => ({ ...goal, remaining: remaining.get(goal.id)! }));
+
+    const allocations = allocateSavings(monthlySavings, open, strategy);
+    if (allocations.size === 0) break;
+
+    allocations.forEach((share, id) => {
+      const left = remaining.get(id)! - share;
+      remaining.set(id, left);
+      // Допуск на ошибки округления долей
+      if (left <= 1e-6) completion.set(id, month);
+    });
+  }
+
+  goals.forEach(goal => {
+    if (!completion.has(goal.id)) completion.set(goal.id, Infinity);
+  });
+  return completion;
+}
@@ -0,0 +1,167 @@
+import type {
+  Goal,
+  GoalAllocationStrategy,
+  GoalFeasibility,
+  GoalFeasibilityStatus,
+  MonthlySavings,
+} from '@/types/models';
+import { calculateGoalTargetAmount, calculateMonthsToGoal } from './calculations';
+import { simulateGoalTimeline, type AllocationGoal } from './goalAllocation';
+
+/**
+ * Во сколько раз цель может опоздать относительно дедлайна и считаться "под угрозой",
+ * а не "не успевает"
+ */
+const AT_RISK_TOLERANCE = 1.25;
+
+/**
+ * Итераций бинарного поиска для подсказок (точность ~1e-12 от диапазона)
+ */
+const SEARCH_ITERATIONS = 40;
+
+/**
+ * Исходные данные для анализа достижимости целей
+ */
+export interface FeasibilityContext {
+  savingsPace: number; // Фактически откладывается в месяц
+  monthlyIncome: number;
+  strategy: GoalAllocationStrategy;
+  inflationRate: number;
+  now?: Date;
+}
+
+/**
+ * Фактический темп накоплений за текущий год
+ * Среднее по месяцам от первой записи до текущего месяца, пропущенные месяцы считаются нулевыми
+ * Возвращает null, если записей ещё нет
+ */
+export function calculateSavingsPace(yearlySavings: MonthlySavings[], currentMonth: number): number | null {
+  const recorded = yearlySavings.filter(savings => savings.month <= currentMonth);
+  if (recorded.length === 0) return null;
+
+  const firstMonth = Math.min(...recorded.map(savings => savings.month));
+  const total = recorded.reduce((sum, savings) => sum + savings.savedAmount, 0);
+  return total / (currentMonth - firstMonth + 1);
+}
+
+/**
+ * Месяцев от текущего до месяца дедлайна
+ */
+function monthsUntil(deadline: Date, now: Date): number {
+  const date = new Date(deadline);
+  return (date.getFullYear() - now.getFullYear()) * 12 + (date.getMonth() - now.getMonth());
+}
+
+/**
+ * Через сколько месяцев будет достигнута цель при темпе pace
+ * В ручном режиме весь темп идёт в эту цель, иначе деньги делятся по стратегии
+ */
+function completionMonths(
+  goalId: string,
+  goals: AllocationGoal[],
+  pace: number,
+  strategy: GoalAllocationStrategy
+): number {
+  if (strategy === 'manual') {
+    const goal = goals.find(item => item.id === goalId)!;
+    return calculateMonthsToGoal(0, goal.remaining, pace);
+  }
+  return simulateGoalTimeline(goals, pace, strategy).get(goalId)!;
+}
+
+/**
+ * Проанализировать, успевают ли цели с дедлайном, и подобрать способы исправить отставание
+ */
+export function analyzeGoalFeasibility(goals: Goal[], context: FeasibilityContext): GoalFeasibility[] {
+  const now = context.now ?? new Date();
+  const { savingsPace, strategy } = context;
+
+  const allocationGoals: AllocationGoal[] = goals.map(goal => ({
+    id: goal.id,
+    priority: goal.priority,
+    remaining: calculateGoalTargetAmount(goal, context.inflationRate, now) - goal.currentAmount,
+    fixedMonthlyAmount: goal.fixedMonthlyAmount,
+  }));
+  const totalRemaining = allocationGoals.reduce((sum, goal) => sum + Math.max(goal.remaining, 0), 0);
+
+  return goals
+    .filter(goal => goal.deadline)
+    .map((goal): GoalFeasibility => {
+      const remaining = allocationGoals.find(item => item.id === goal.id)!.remaining;
+      const monthsLeft = monthsUntil(goal.deadline!, now);
+
+      if (remaining <= 0) {
+        return {
+          goalId: goal.id,
+          status: 'on_track',
+          monthsLeft,
+          monthsNeeded: 0,
+          requiredMonthly: 0,
+          projectedMonthly: 0,
+          fixes: {},
+        };
+      }
+
+      const monthsNeeded = completionMonths(goal.id, allocationGoals, savingsPace, strategy);
+      const requiredMonthly = remaining / Math.max(monthsLeft, 1);
+      const projectedMonthly = monthsNeeded === Infinity ? 0 : remaining / monthsNeeded;
+
+      const status: GoalFeasibilityStatus =
+        monthsNeeded <= monthsLeft
+          ? 'on_track'
+          : monthsNeeded <= monthsLeft * AT_RISK_TOLERANCE
+          ? 'at_risk'
+          : 'off_track';
+
+      const fixes: GoalFeasibility['fixes'] = {};
+      if (status !== 'on_track') {
+        const meetsDeadline = (months: number) => months <= monthsLeft;
+
+        if (strategy === 'fixed') {
+          // Срок цели определяется её собственной суммой в месяц
+          if (monthsLeft > 0) fixes.fixedMonthlyAmount = requiredMonthly;
+        } else if (context.monthlyIncome > 0 && meetsDeadline(1)) {
+          // Минимальный темп, при котором цель успевает; с totalRemaining все цели закрываются за месяц
+          let low = savingsPace;
+          let high = Math.max(totalRemaining, savingsPace);
+          for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+            const mid = (low + high) / 2;
+            if (meetsDeadline(completionMonths(goal.id, allocationGoals, mid, strategy))) high = mid;
+            else low = mid;
+          }
+          const percentage = Math.ceil((high / context.monthlyIncome) * 100);
+          if (percentage <= 100) fixes.savingsPercentage = percentage;
+        }
+
+        if (monthsNeeded !== Infinity) {
+          // Последний день месяца, в котором цель будет достигнута
+          fixes.deadline = new Date(now.getFullYear(), now.getMonth() + monthsNeeded + 1, 0);
+        }
+
+        // Наибольшая недостающая сумма, которую успеваем собрать к дедлайну
+        let low = 0;
+        let high = remaining;
+        for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+          const mid = (low + high) / 2;
+          const adjusted = allocationGoals.map(item => (item.id === goal.id ? { ...item, remaining: mid } : item));
+          if (meetsDeadline(completionMonths(goal.id, adjusted, savingsPace, strategy))) low = mid;
+          else high = mid;
+        }
+        // Подсказка в сегодняшних деньгах, как и исходная цель
+        const inflationFactor = (remaining + goal.currentAmount) / goal.targetAmount;
+        const targetAmount = (goal.currentAmount + low) / inflationFactor;
+        // Если к дедлайну не собрать даже копейки, снижать цель бессмысленно
+        if (low >= 0.01 && targetAmount < goal.targetAmount) fixes.targetAmount = targetAmount;
+      }
+
+      return {
+        goalId: goal.id,
+        status,
+        monthsLeft,
+        monthsNeeded,
+        requiredMonthly,
+        projectedMonthly,
+        fixes,
+      };
+    });
+}
@@ -0,0 +1,135 @@
+import type {
+  GoalContribution,
+  HouseholdMember,
+  MemberSettlement,
+  MonthlyIncome,
+  MonthlySavings,
+  SettleUpTransfer,
+  SplitRule,
+} from '@/types/models';
+
+/**
+ * Правило деления по умолчанию — поровну
+ */
+export const DEFAULT_SPLIT_RULE: SplitRule = { method: 'equal' };
+
+/**
+ * Разница меньше этой суммы считается погашенной (ошибки округления)
+ */
+const SETTLED_THRESHOLD = 0.005;
+
+/**
+ * Доход каждого члена семьи по включённым месячным доходам
+ */
+export function calculateIncomeByMember(monthlyIncomes: MonthlyIncome[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  monthlyIncomes.forEach(({ isActive, memberId, amount }) => {
+    if (isActive && memberId) totals.set(memberId, (totals.get(memberId) || 0) + amount);
+  });
+  return totals;
+}
+
+/**
+ * Доли членов семьи по правилу деления, в сумме 1
+ * Если доходов или заданных долей нет, делится поровну
+ */
+export function calculateSplitShares(
+  rule: SplitRule,
+  members: HouseholdMember[],
+  incomeByMember: Map<string, number>
+): Map<string, number> {
+  const shares = new Map<string, number>();
+  if (members.length === 0) return shares;
+
+  const weights = members.map(member => {
+    switch (rule.method) {
+      case 'proportional':
+        return Math.max(0, incomeByMember.get(member.id) || 0);
+      case 'custom':
+        return Math.max(0, rule.shares?.[member.id] || 0);
+      default:
+        return 1;
+    }
+  });
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  members.forEach((member, index) => {
+    shares.set(member.id, total > 0 ? weights[index] / total : 1 / members.length);
+  });
+  return shares;
+}
+
+/**
+ * Взносы членов семьи в накопления по месяцам
+ */
+export function calculateSavingsByMember(savings: MonthlySavings[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  savings.forEach(item => {
+    Object.entries(item.memberAmounts ?? {}).forEach(([memberId, amount]) => {
+      totals.set(memberId, (totals.get(memberId) || 0) + amount);
+    });
+  });
+  return totals;
+}
+
+/**
+ * Взносы членов семьи в цель (снятия уменьшают взнос)
+ */
+export function calculateContributionsByMember(contributions: GoalContribution[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  contributions.forEach(({ memberId, amount }) => {
+    if (memberId) totals.set(memberId, (totals.get(memberId) || 0) + amount);
+  });
+  return totals;
+}
+
+/**
+ * Кто из членов семьи внёс больше своей доли, а кто отстаёт
+ * Справедливая доля считается от суммы взносов всех членов семьи
+ */
+export function calculateSettlements(
+  members: HouseholdMember[],
+  contributed: Map<string, number>,
+  shares: Map<string, number>
+): MemberSettlement[] {
+  const total = members.reduce((sum, member) => sum + (contributed.get(member.id) || 0), 0);
+
+  return members.map(member => {
+    const amount = contributed.get(member.id) || 0;
+    const fairShare = total * (shares.get(member.id) || 0);
+    return {
+      memberId: member.id,
+      contributed: amount,
+      fairShare,
+      balance: amount - fairShare,
+    };
+  });
+}
+
+/**
+ * Переводы, после которых взносы совпадут с долями
+ * Отстающие переводят опередившим: наибольший долг гасится наибольшему переплатившему
+ */
+export function calculateSettleUpTransfers(settlements: MemberSettlement[]): SettleUpTransfer[] {
+  const debtors = settlements
+    .filter(item => item.balance < -SETTLED_THRESHOLD)
+    .map(item => ({ memberId: item.memberId, amount: -item.balance }))
+    .sort((a, b) => b.amount - a.amount);
+  const creditors = settlements
+    .filter(item => item.balance > SETTLED_THRESHOLD)
+    .map(item => ({ memberId: item.memberId, amount: item.balance }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const transfers: SettleUpTransfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = Math.min(debtors[d].amount, creditors[c].amount);
+    transfers.push({ fromMemberId: debtors[d].memberId, toMemberId: creditors[c].memberId, amount });
+    debtors[d].amount -= amount;
+    creditors[c].amount -= amount;
+    if (debtors[d].amount <= SETTLED_THRESHOLD) d++;
+    if (creditors[c].amount <= SETTLED_THRESHOLD) c++;
+  }
+  return transfers;
+}
@@ -0,0 +1,182 @@
+import type {
+  MonthlyIncome,
+  MonteCarloInput,
+  MonteCarloResult,
+  SimulationIncomeStream,
+  TaxRates,
+  TaxReserveRates,
+} from '@/types/models';
+import { IncomeType } from '@/types/models';
+import { toMonthlyRate, toRealValue } from './calculations';
+import { getAvailableAmount } from './taxReserve';
+
+/**
+ * Типы дохода, которые в симуляции считаются нерегулярными
+ */
+export const IRREGULAR_INCOME_TYPES: IncomeType[] = [IncomeType.FREELANCE, IncomeType.SIDE_HUSTLE];
+
+/**
+ * Генератор псевдослучайных чисел с зерном (mulberry32)
+ * Одинаковое зерно даёт одинаковую последовательность
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Нормально распределённое случайное число (преобразование Бокса — Мюллера)
+ */
+export function sampleNormal(rng: () => number, mean: number, stdDev: number): number {
+  if (stdDev === 0) return mean;
+  const u1 = rng() || Number.MIN_VALUE;
+  const u2 = rng();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Перцентиль отсортированного массива (линейная интерполяция)
+ */
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Собрать потоки дохода для симуляции (на руки за вычетом налогового резерва)
+ * Стабильные типы берутся из текущего месяца, нерегулярные — из истории
+ * фактических месяцев (среднее и разброс по месяцам)
+ */
+export function calculateIncomeStreams(
+  history: MonthlyIncome[],
+  currentMonthIncomes: MonthlyIncome[],
+  currentYear: number,
+  currentMonth: number,
+  taxRates: TaxRates = {},
+  reserveRates: TaxReserveRates = {}
+): SimulationIncomeStream[] {
+  const currentByType = new Map<IncomeType, number>();
+  currentMonthIncomes
+    .filter(income => income.isActive)
+    .forEach(income => {
+      currentByType.set(income.type, (currentByType.get(income.type) || 0) + getAvailableAmount(income, taxRates, reserveRates));
+    });
+
+  // Суммы по типам за каждый прошедший месяц (будущие месяцы — это ещё не факт)
+  const pastMonths = new Set<string>();
+  const totals = new Map<IncomeType, Map<string, number>>();
+  history
+    .filter(income => income.isActive)
+    .filter(income => income.year < currentYear || (income.year === currentYear && income.month <= currentMonth))
+    .forEach(income => {
+      const key = `${income.year}-${income.month}`;
+      pastMonths.add(key);
+      const byMonth = totals.get(income.type) || new Map<string, number>();
+      byMonth.set(key, (byMonth.get(key) || 0) + getAvailableAmount(income, taxRates, reserveRates));
+      totals.set(income.type, byMonth);
+    });
+
+  const types = new Set<IncomeType>([...currentByType.keys(), ...totals.keys()]);
+
+  return Array.from(types)
+    .map(type => {
+      const current = currentByType.get(type) || 0;
+      if (!IRREGULAR_INCOME_TYPES.includes(type) || pastMonths.size < 2) {
+        return { type, mean: current, stdDev: 0 };
+      }
+
+      const byMonth = totals.get(type) || new Map<string, number>();
+      const samples = Array.from(pastMonths).map(key => byMonth.get(key) || 0);
+      const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+      const variance =
+        samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (samples.length - 1);
+
+      return { type, mean, stdDev: Math.sqrt(variance) };
+    })
+    .filter(stream => stream.mean > 0);
+}
+
+/**
+ * Запустить симуляцию Монте-Карло
+ * Случайными считаются доходность и нерегулярные доходы
+ */
+export function runMonteCarlo(input: MonteCarloInput): MonteCarloResult {
+  const rng = createRng(input.seed);
+  const { runs, months } = input;
+
+  // Месячные параметры доходности
+  const monthlyMean = toMonthlyRate(input.annualReturnRate);
+  const monthlyStdDev = input.annualVolatility / 100 / Math.sqrt(12);
+
+  const balances = new Float64Array(runs * months);
+  const goalHits = new Array<number>(input.goals.length).fill(0);
+
+  for (let run = 0; run < runs; run++) {
+    let balance = input.startingBalance;
+    const goalPots = input.goals.map(goal => goal.currentAmount);
+    const goalReached = input.goals.map(() => false);
+
+    for (let month = 0; month < months; month++) {
+      const income = input.incomeStreams.reduce(
+        (sum, stream) => sum + Math.max(0, sampleNormal(rng, stream.mean, stream.stdDev)),
+        0
+      );
+      const saved = (income * input.savingsPercentage) / 100;
+      const monthlyReturn = sampleNormal(rng, monthlyMean, monthlyStdDev);
+
+      balance = balance * (1 + monthlyReturn) + saved;
+      balances[run * months + month] = balance;
+
+      // Каждая цель, как и в calculateMonthsToGoal, получает все накопления месяца
+      input.goals.forEach((goal, index) => {
+        goalPots[index] = goalPots[index] * (1 + monthlyReturn) + saved;
+        if (month + 1 === goal.deadlineMonth && goalPots[index] >= goal.targetAmount) {
+          goalReached[index] = true;
+        }
+      });
+    }
+
+    goalReached.forEach((reached, index) => {
+      if (reached) goalHits[index]++;
+    });
+  }
+
+  const column = new Float64Array(runs);
+  const percentiles: MonteCarloResult['percentiles'] = [];
+  for (let month = 0; month < months; month++) {
+    for (let run = 0; run < runs; run++) {
+      column[run] = balances[run * months + month];
+    }
+    column.sort();
+
+    const adjust = (value: number) =>
+      input.realTerms ? toRealValue(value, input.inflationRate, month + 1) : value;
+
+    percentiles.push({
+      month: month + 1,
+      p10: adjust(percentile(column, 0.1)),
+      p50: adjust(percentile(column, 0.5)),
+      p90: adjust(percentile(column, 0.9)),
+    });
+  }
+
+  return {
+    percentiles,
+    goalChances: input.goals.map((goal, index) => ({
+      id: goal.id,
+      name: goal.name,
+      probability: goal.deadlineMonth > months || goal.deadlineMonth < 1
+        ? (goal.currentAmount >= goal.targetAmount ? 1 : 0)
+        : goalHits[index] / runs,
+    })),
+  };
+}
@@ -0,0 +1,100 @@
+import type {
+  Account,
+  AccountSnapshot,
+  AccountTransfer,
+  AppSettings,
+  NetWorthItem,
+  NetWorthPoint,
+  NetWorthValuation,
+} from '@/types/models';
+import { compareMonths, sumBalances } from './calculations';
+import { calculateSavingsBalances } from './accounts';
+
+/**
+ * Горизонт графика собственного капитала (10 лет)
+ */
+export const NET_WORTH_MAX_MONTHS = 10 * 12;
+
+/**
+ * Оценка позиции, действующая в месяце: запись этого месяца или последняя до него
+ */
+export function getValuationForMonth(
+  itemId: string,
+  valuations: NetWorthValuation[],
+  year: number,
+  month: number
+): NetWorthValuation | undefined {
+  return valuations
+    .filter(valuation => valuation.itemId === itemId && compareMonths(valuation, { year, month }) <= 0)
+    .sort((a, b) => compareMonths(b, a))[0];
+}
+
+/**
+ * Собственный капитал за месяц
+ * accountsTotal — балансы счетов на конец месяца в основной валюте
+ */
+export function calculateNetWorth(
+  items: NetWorthItem[],
+  valuations: NetWorthValuation[],
+  accountsTotal: number,
+  year: number,
+  month: number
+): NetWorthPoint {
+  const total = (kind: NetWorthItem['kind']) =>
+    items
+      .filter(item => item.kind === kind)
+      .reduce((sum, item) => sum + (getValuationForMonth(item.id, valuations, year, month)?.value ?? 0), 0);
+
+  const assets = total('asset');
+  const liabilities = total('liability');
+
+  return {
+    year,
+    month,
+    accounts: accountsTotal,
+    assets,
+    liabilities,
+    netWorth: accountsTotal + assets - liabilities,
+  };
+}
+
+/**
+ * Собственный капитал по месяцам до указанного включительно
+ * Начинается с первого месяца, где есть оценка или снимок баланса счёта
+ */
+export function calculateNetWorthSeries(
+  items: NetWorthItem[],
+  valuations: NetWorthValuation[],
+  accounts: Account[],
+  accountSnapshots: AccountSnapshot[],
+  accountTransfers: AccountTransfer[],
+  settings: AppSettings,
+  toYear: number,
+  toMonth: number,
+  maxMonths: number = NET_WORTH_MAX_MONTHS
+): NetWorthPoint[] {
+  const recorded = [
+    ...valuations,
+    ...[...accountSnapshots, ...accountTransfers].map(entry => {
+      const date = new Date(entry.date);
+      return { year: date.getFullYear(), month: date.getMonth() + 1 };
+    }),
+  ];
+  if (recorded.length === 0) return [];
+
+  const to = { year: toYear, month: toMonth };
+  const first = recorded.reduce((earliest, entry) => (compareMonths(entry, earliest) < 0 ? entry : earliest));
+  const months = Math.min(Math.max(compareMonths(to, first) + 1, 1), maxMonths);
+
+  return Array.from({ length: months }, (_, index) => {
+    const date = new Date(toYear, toMonth - months + index, 1);
+    const year = date.getFullYear();
+    const month = date.getMonth() + 1;
+    // Балансы счетов на последний момент месяца
+    const endOfMonth = new Date(new Date(year, month, 1).getTime() - 1);
+    const accountsTotal = sumBalances(
+      calculateSavingsBalances(accounts, accountSnapshots, accountTransfers, settings, endOfMonth)
+    );
+    return calculateNetWorth(items, valuations, accountsTotal, year, month);
+  });
+}
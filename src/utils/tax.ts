@@ -0,0 +1,106 @@
+import type { AmountBasis, MonthlyIncome, TaxBracket, TaxBreakdown, TaxProfile, TaxRates } from '@/types/models';
+import { IncomeType } from '@/types/models';
+
+/**
+ * Налог по прогрессивной шкале
+ */
+export function calculateProgressiveTax(taxable: number, brackets: TaxBracket[]): number {
+  let tax = 0;
+  let lower = 0;
+
+  for (const bracket of brackets) {
+    if (taxable <= lower) break;
+    const upper = bracket.upTo ?? Infinity;
+    tax += ((Math.min(taxable, upper) - lower) * bracket.rate) / 100;
+    lower = upper;
+  }
+
+  return tax;
+}
+
+/**
+ * Годовой gross-доход по типам (net-суммы уже после налогов и в базу не входят)
+ */
+export function calculateAnnualGrossByType(yearData: Map<number, MonthlyIncome[]>): Partial<Record<IncomeType, number>> {
+  const result: Partial<Record<IncomeType, number>> = {};
+  for (const incomes of yearData.values()) {
+    incomes
+      .filter(income => income.isActive && income.amountBasis === 'gross')
+      .forEach(income => {
+        result[income.type] = (result[income.type] ?? 0) + income.amount;
+      });
+  }
+  return result;
+}
+
+/**
+ * Рассчитать годовой налог по профилю
+ * Без профиля налог не считается; эффективные ставки делят налог между типами пропорционально доходу
+ */
+export function calculateTax(
+  profile: TaxProfile | undefined,
+  grossByType: Partial<Record<IncomeType, number>>
+): TaxBreakdown {
+  const entries = (Object.entries(grossByType) as [IncomeType, number][]).filter(([, amount]) => amount > 0);
+  const gross = entries.reduce((sum, [, amount]) => sum + amount, 0);
+
+  if (!profile) {
+    return { gross, incomeTax: 0, socialContributions: 0, tax: 0, net: gross, effectiveRates: {} };
+  }
+
+  const taxByType = new Map<IncomeType, number>(entries.map(([type]) => [type, 0]));
+  const addTax = (type: IncomeType, amount: number) => taxByType.set(type, taxByType.get(type)! + amount);
+
+  // Плоские ставки
+  entries
+    .filter(([type]) => profile.flatRates[type] !== undefined)
+    .forEach(([type, amount]) => addTax(type, (amount * profile.flatRates[type]!) / 100));
+
+  // Прогрессивная шкала для остальных типов
+  const progressive = entries.filter(([type]) => profile.flatRates[type] === undefined);
+  const progressiveGross = progressive.reduce((sum, [, amount]) => sum + amount, 0);
+  const progressiveTax = calculateProgressiveTax(Math.max(progressiveGross - profile.deduction, 0), profile.brackets);
+  progressive.forEach(([type, amount]) => addTax(type, (progressiveTax * amount) / progressiveGross));
+
+  const incomeTax = Array.from(taxByType.values()).reduce((sum, amount) => sum + amount, 0);
+
+  // Социальные взносы
+  const social = entries.filter(([type]) => profile.socialTypes.includes(type));
+  const socialGross = social.reduce((sum, [, amount]) => sum + amount, 0);
+  const socialContributions = (Math.min(socialGross, profile.socialCap ?? Infinity) * profile.socialRate) / 100;
+  social.forEach(([type, amount]) => addTax(type, (socialContributions * amount) / socialGross));
+
+  const tax = incomeTax + socialContributions;
+
+  return {
+    gross,
+    incomeTax,
+    socialContributions,
+    tax,
+    net: gross - tax,
+    effectiveRates: Object.fromEntries(
+      entries.map(([type, amount]) => [type, taxByType.get(type)! / amount])
+    ) as TaxRates,
+  };
+}
+
+/**
+ * Налог с одного дохода по эффективным ставкам (net-суммы не облагаются)
+ */
+export function getIncomeTax(income: Pick<MonthlyIncome, 'amount' | 'type' | 'amountBasis'>, taxRates: TaxRates): number {
+  return income.amountBasis === 'gross' ? income.amount * (taxRates[income.type] ?? 0) : 0;
+}
+
+/**
+ * Сумма дохода на руки
+ */
+export function getNetAmount(income: Pick<MonthlyIncome, 'amount' | 'type' | 'amountBasis'>, taxRates: TaxRates): number {
+  return income.amount - getIncomeTax(income, taxRates);
+}
+
+/**
+ * База суммы по умолчанию для нового дохода: зарплата приходит на руки, остальное — до налогов
+ */
+export function getDefaultAmountBasis(type: IncomeType): AmountBasis {
+  return type === IncomeType.SALARY ? 'net' : 'gross';
+}
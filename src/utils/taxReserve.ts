@@ -0,0 +1,98 @@
+import type { MonthlyIncome, TaxPayment, TaxRates, TaxReserveQuarter, TaxReserveRates } from '@/types/models';
+import { getIncomeTax } from './tax';
+
+type IncomeAmount = Pick<MonthlyIncome, 'amount' | 'type' | 'amountBasis'>;
+
+/**
+ * День месяца после квартала, до которого нужно уплатить налог за квартал
+ */
+export const TAX_PAYMENT_DUE_DAY = 28;
+
+/**
+ * Квартал месяца (1-4)
+ */
+export function getQuarter(month: number): number {
+  return Math.ceil(month / 3);
+}
+
+/**
+ * Срок уплаты налога за квартал — TAX_PAYMENT_DUE_DAY месяца, следующего за кварталом
+ */
+export function getTaxPaymentDueDate(year: number, quarter: number): Date {
+  return new Date(year, quarter * 3, TAX_PAYMENT_DUE_DAY);
+}
+
+/**
+ * Сколько отложить на налоги с дохода
+ */
+export function getTaxReserve(income: IncomeAmount, reserveRates: TaxReserveRates): number {
+  return (income.amount * (reserveRates[income.type] ?? 0)) / 100;
+}
+
+/**
+ * Доход, доступный для накоплений и целей
+ * Резерв не суммируется с налогом профиля: из дохода вычитается большее из двух
+ */
+export function getAvailableAmount(income: IncomeAmount, taxRates: TaxRates, reserveRates: TaxReserveRates): number {
+  return income.amount - Math.max(getIncomeTax(income, taxRates), getTaxReserve(income, reserveRates));
+}
+
+/**
+ * Начисленный налог с дохода для резерва
+ * По налоговому профилю для gross-сумм, иначе — отложенная сумма
+ */
+function getOwedTax(income: IncomeAmount, taxRates: TaxRates, reserveRates: TaxReserveRates): number {
+  return income.amountBasis === 'gross' && taxRates[income.type] !== undefined
+    ? getIncomeTax(income, taxRates)
+    : getTaxReserve(income, reserveRates);
+}
+
+/**
+ * Поквартальный журнал налогового резерва за год
+ * Учитываются доходы только тех типов, для которых задан процент резерва
+ */
+export function calculateTaxReserveLedger(
+  yearIncomes: MonthlyIncome[],
+  payments: TaxPayment[],
+  reserveRates: TaxReserveRates,
+  taxRates: TaxRates,
+  year: number,
+  today: Date = new Date()
+): TaxReserveQuarter[] {
+  const incomes = yearIncomes.filter(
+    income => income.isActive && income.year === year && (reserveRates[income.type] ?? 0) > 0
+  );
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const totals = { owed: 0, setAside: 0, paid: 0 };
+
+  return [1, 2, 3, 4].map(quarter => {
+    const quarterIncomes = incomes.filter(income => getQuarter(income.month) === quarter);
+    const income = quarterIncomes.reduce((sum, item) => sum + item.amount, 0);
+    const owed = quarterIncomes.reduce((sum, item) => sum + getOwedTax(item, taxRates, reserveRates), 0);
+    const setAside = quarterIncomes.reduce((sum, item) => sum + getTaxReserve(item, reserveRates), 0);
+    const paid = payments
+      .filter(payment => payment.year === year && payment.quarter === quarter)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+
+    totals.owed += owed;
+    totals.setAside += setAside;
+    totals.paid += paid;
+
+    const dueDate = getTaxPaymentDueDate(year, quarter);
+    const unpaid = Math.max(totals.owed - totals.paid, 0);
+
+    return {
+      year,
+      quarter,
+      dueDate,
+      income,
+      owed,
+      setAside,
+      paid,
+      reserveBalance: totals.setAside - totals.paid,
+      unpaid,
+      shortfall: Math.max(totals.owed - totals.setAside, 0),
+      isOverdue: startOfToday > dueDate && unpaid >= 0.01,
+    };
+  });
+}
@@ -0,0 +1,9 @@
+import type { MonteCarloInput } from '@/types/models';
+import { runMonteCarlo } from '@/utils/monteCarlo';
+
+/**
+ * Web Worker для симуляции Монте-Карло, чтобы не блокировать интерфейс
+ */
+self.onmessage = (event: MessageEvent<MonteCarloInput>) => {
+  self.postMessage(runMonteCarlo(event.data));
+};
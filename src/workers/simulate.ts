@@ -0,0 +1,22 @@
+import type { MonteCarloInput, MonteCarloResult } from '@/types/models';
+
+/**
+ * Запустить симуляцию Монте-Карло в отдельном потоке
+ * Каждый запуск получает свой воркер, который завершается после ответа
+ */
+export function simulateInWorker(input: MonteCarloInput): Promise<MonteCarloResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<MonteCarloResult>) => {
+      resolve(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message || 'Simulation failed'));
+      worker.terminate();
+    };
+
+    worker.postMessage(input);
+  });
+}